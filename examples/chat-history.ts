@@ -64,18 +64,14 @@ class VerifiableChatHistory {
     return message;
   }
 
-  async generateResponse(prompt: string) {
+  async generateResponse() {
     console.log('\nGenerating response...');
     
-    // Create a context from history
-    const context = this.history
-      .map(msg => `${msg.role}: ${msg.content}`)
-      .join('\n');
-    
-    // Generate response with proof and streaming
-    const result = await this.opacity.generateText(
-      `${context}\n\nUser: ${prompt}\nAssistant:`,
+    // Send the full history so the proof covers the whole conversation
+    const result = await this.opacity.generateChat(
+      this.history.map(msg => ({ role: msg.role, content: msg.content })),
       {
+        systemPrompt: 'You are a helpful assistant that explains blockchain concepts.',
         onProgress: (partial: string) => {
           process.stdout.write(partial);
         }
@@ -159,14 +155,14 @@ async function main() {
     console.log('\nUser: Hello! Can you help me learn about blockchain?');
     await chat.addUserMessage('Hello! Can you help me learn about blockchain?');
     
-    const response1 = await chat.generateResponse('Hello! Can you help me learn about blockchain?');
+    const response1 = await chat.generateResponse();
     console.log('\nProof valid:', response1.proofValid);
 
     // Second interaction
     console.log('\nUser: What are smart contracts?');
     await chat.addUserMessage('What are smart contracts?');
     
-    const response2 = await chat.generateResponse('What are smart contracts?');
+    const response2 = await chat.generateResponse();
     console.log('\nProof valid:', response2.proofValid);
 
     // Get chat history
@@ -0,0 +1,53 @@
+import { EigenDAAdapter, verifyLogInclusion } from '../packages/adapter-eigenda/src';
+import { LocalEigenDAClient, LocalEigenDAServer } from '../packages/adapter-eigenda/src/testing';
+
+async function main() {
+  // Start a local stand-in for the EigenDA API; no network or credentials needed
+  const server = new LocalEigenDAServer({
+    confirmationDelay: 2000, // Blobs stay PENDING for 2 seconds
+    storagePath: './local-eigenda.json' // Keep blobs across runs
+  });
+  const url = await server.start();
+  console.log(`Local EigenDA server listening on ${url}`);
+
+  const eigenda = new EigenDAAdapter({
+    client: new LocalEigenDAClient(url),
+    flushInterval: 1000,
+    maxBufferSize: 3,
+    // Poll for confirmation every half second instead of waiting minutes
+    confirmationPolling: { initialDelay: 0, interval: 500 }
+  });
+
+  try {
+    await eigenda.initialize();
+
+    // Make the first upload fail, to see the adapter retry it
+    server.injectFault({ operation: 'upload', status: 503 });
+
+    console.log('\nLogging a batch...');
+    const entries = await Promise.all([
+      eigenda.info('Application started', { version: '1.0.0' }),
+      eigenda.warn('High CPU usage', { cpu: 85 }),
+      eigenda.log({ event: 'user_login', userId: '123' }, { tags: ['auth'] })
+    ]);
+    for (const entry of entries) {
+      console.log(`${entry.id} included in batch: ${verifyLogInclusion(entry)}`);
+    }
+
+    console.log('\nPosting and waiting for confirmation...');
+    const posted = await eigenda.post({ report: 'daily' }, { waitForConfirmation: true });
+    console.log('Confirmed job:', posted.jobId);
+    console.log('Retrieved:', await eigenda.get(posted.jobId));
+
+    const entry = await eigenda.getLogEntry(entries[1]!.id);
+    console.log('\nRetrieved log entry:', entry?.content);
+
+    await eigenda.shutdown();
+  } catch (error) {
+    console.error('Error:', error);
+  } finally {
+    await server.stop();
+  }
+}
+
+main();
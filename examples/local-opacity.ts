@@ -0,0 +1,54 @@
+import { OpacityAdapter } from '../packages/adapter-opacity/src';
+import { LocalOpacityServer } from '../packages/adapter-opacity/src/testing';
+
+async function main() {
+  // Start a local stand-in for the AI Gateway and the prover; no network or credentials needed
+  const server = new LocalOpacityServer({
+    apiKey: 'local-key',
+    responses: ['Paris is the capital of France.']
+  });
+  const url = await server.start();
+  console.log(`Local gateway and prover listening on ${url}`);
+
+  const opacity = new OpacityAdapter({
+    teamId: 'local',
+    teamName: 'local',
+    apiKey: 'local-key',
+    gatewayUrl: url,
+    opacityProverUrl: url,
+    // Check the emulator's notary signatures locally
+    trustedNotaryKeys: [server.trustedKey]
+  });
+
+  try {
+    console.log('\nGenerating text...');
+    const prompt = 'What is the capital of France?';
+    const result = await opacity.generateText(prompt);
+    console.log('Generated text:', result.content);
+    console.log('Proof is valid:', await opacity.verifyResult(result, prompt));
+    console.log('Tampered proof is valid:', await opacity.verifyResult({ ...result, content: 'Lyon' }, prompt));
+
+    console.log('\nStreaming (the emulator echoes the prompt once its responses run out)...');
+    for await (const chunk of opacity.streamText('Echo these words back')) {
+      if (chunk.type === 'text') {
+        process.stdout.write(chunk.text);
+      }
+    }
+    console.log();
+
+    // Make the next completion come back without a log ID
+    server.injectFault({ operation: 'completion', omitLogId: true });
+    await opacity.generateText('Will this be proven?').catch(error => {
+      console.log('\nExpected failure:', error.message);
+    });
+
+    const entry = await opacity.info('Example finished', { logs: server.getLogs().length });
+    console.log('\nLogged entry available:', await opacity.checkAvailability(entry.status));
+  } catch (error) {
+    console.error('Error:', error);
+  } finally {
+    await server.stop();
+  }
+}
+
+main();
@@ -1,14 +1,109 @@
-import { IDALoggingAdapter, DALogOptions, DALogEntry, DALogStatus } from '@layr-labs/agentkit';
+import {
+  IDALoggingAdapter,
+  DALogOptions,
+  DALogEntry,
+  DALogStatus,
+  DALogStorageError,
+  IMetricsRegistry,
+  OperationCancelledError,
+  Proof,
+  RetryPolicy,
+  cancellableDelay,
+  getRetryDelay,
+  mergeRetryPolicy,
+  nonIdempotentRetryPolicy,
+  throwIfCancelled,
+  TypedEventEmitter,
+  withRetry
+} from '@layr-labs/agentkit';
 import { EigenDAClient } from 'eigenda-sdk';
+import { randomUUID } from 'crypto';
+import { formatLogEntryId, hashLogLeaf, parseLogEntryId, toInclusionProof } from './logInclusion';
+import { MerkleInclusionProof, createInclusionProofs } from './merkle';
+import { WriteAheadSpool } from './spool';
+import { DeadLetter, DeadLetterQueue, InMemoryDeadLetterQueue } from './deadLetter';
+import { EigenDAClientLike } from './client';
+import {
+  assembleChunks,
+  createChunkManifest,
+  isChunkManifest,
+  mapWithConcurrency,
+  PreparedChunk,
+  splitIntoChunks
+} from './chunking';
+import { BlobCompression, compressBlob, decompressBlob, isCompressedBlob } from './compression';
+import {
+  EnvelopeEncryptionConfig,
+  decryptEnvelope,
+  encryptEnvelope,
+  isEncryptedEnvelope,
+  validateEnvelopeConfig
+} from './encryption';
+import { EigenDAAdapterEvents, bindEigenDAMetrics } from './events';
+import {
+  BalanceMonitorConfig,
+  BudgetExceededError,
+  BudgetUsage,
+  CostEstimate,
+  CreditBudget,
+  EigenDABudgetConfig
+} from './budget';
+
+const MAX_FLUSH_RETRY_DELAY = 60000;
+
+// EigenDA's maximum blob size
+const DEFAULT_MAX_BLOB_SIZE = 16 * 1024 * 1024;
+// Room for a batch's fields other than its logs
+const BATCH_OVERHEAD = 256;
+// Fraction of the maximum blob size to fill when packing, as encoded sizes are only estimated
+const PACKING_MARGIN = 0.9;
+const DEFAULT_CHUNK_CONCURRENCY = 4;
+// Largest compression ratio a retrieved blob may have by default
+const MAX_DECOMPRESSION_RATIO = 16;
+
+// Default confirmation polling for post(): wait a minute, then check every 20s up to 30 times
+const CONFIRMATION_INITIAL_DELAY = 60000;
+const CONFIRMATION_CHECK_INTERVAL = 20000;
+const CONFIRMATION_MAX_CHECKS = 30;
+const CONFIRMED_STATUSES = ['CONFIRMED', 'completed'];
+// Jobs whose last polled status is remembered, to report only changes
+const MAX_TRACKED_JOB_STATUSES = 1000;
+const DEFAULT_BALANCE_CHECK_INTERVAL = 60000;
+const DEFAULT_SHUTDOWN_TIMEOUT = 30000;
+// Stands in for chunk job IDs when sizing a manifest before its chunks are uploaded
+const PLACEHOLDER_JOB_ID = '0'.repeat(64);
 
 export interface EigenDAAdapterConfig {
   apiUrl?: string;
   rpcUrl?: string;
-  privateKey: string;
+  privateKey?: string; // Required unless a client is given
   creditsContractAddress?: string;
+  client?: EigenDAClientLike; // Client to use instead of the eigenda-sdk one, e.g. a LocalEigenDAClient
   flushInterval?: number; // How often to flush logs (in ms), defaults to 10000 (10s)
   maxBufferSize?: number; // Max number of logs to buffer before forcing a flush
   waitForConfirmation?: boolean; // Whether to wait for confirmation by default, defaults to false
+  spoolPath?: string; // Append-only file that buffered logs are written to first, replayed on initialize()
+  spoolFsync?: boolean; // Whether to sync each spool write to disk, defaults to true
+  maxFlushAttempts?: number; // Upload attempts per log before it is dead-lettered, defaults to 5
+  flushRetryDelay?: number; // Initial backoff after a failed flush (in ms), growing per failure as set by `retry`, defaults to 1000
+  deadLetterQueue?: DeadLetterQueue; // Where logs that exhaust their attempts go, defaults to in memory
+  shutdownTimeout?: number; // Longest shutdown() backs off between failed flushes (in ms) before giving up on the rest, defaults to 30000
+  retry?: RetryPolicy; // How each upload and retrieval is retried and timed out, defaults to 3 attempts
+  confirmationPolling?: ConfirmationPolling; // How post() waits for confirmation, defaults to a minute's wait then every 20s, 30 times
+  encryption?: EnvelopeEncryptionConfig; // Encrypt every uploaded blob for these keys; get() and getLogEntry() decrypt
+  maxBlobSize?: number; // Max bytes per uploaded blob; a flush splits its logs across blobs to stay under it, defaults to 16 MiB
+  compression?: BlobCompression; // Compress each blob with 'gzip' or 'brotli' before upload, defaults to none
+  maxDecompressedSize?: number; // Max bytes a retrieved compressed blob may decompress to, defaults to 16 times maxBlobSize
+  chunkConcurrency?: number; // Chunks transferred at once when post() splits a payload larger than maxBlobSize, defaults to 4
+  metrics?: IMetricsRegistry; // Record the adapter's events as metrics, e.g. in a PrometheusMetricsRegistry
+  budget?: EigenDABudgetConfig; // Price uploads and limit spending on them, defaults to free and unlimited
+  balanceMonitor?: BalanceMonitorConfig; // Check the balance periodically after initialize(), topping it up when low
+}
+
+export interface ConfirmationPolling {
+  initialDelay?: number; // Wait before the first check (in ms)
+  interval?: number; // Wait between checks (in ms)
+  maxChecks?: number; // Checks before giving up
 }
 
 export interface LogEntry {
@@ -19,6 +114,63 @@ export interface LogEntry {
   tempId?: string;
   data: unknown;
   options?: DALogOptions;
+  attempts?: number;
+  signal?: AbortSignal; // Cancels the log while it is buffered; never written to the spool
+}
+
+/**
+ * A log as stored in a batch blob
+ */
+export interface BatchedLog {
+  level: 'info' | 'warn' | 'error' | 'debug';
+  message: string;
+  timestamp: number;
+  metadata?: Record<string, unknown>;
+  data: unknown;
+  options?: DALogOptions;
+}
+
+/**
+ * The blob uploaded for each flush
+ */
+export interface LogBatch {
+  type: 'log_batch';
+  logs: BatchedLog[];
+  /** Hex-encoded Merkle root over the batch's logs, absent on batches from older versions */
+  merkleRoot?: string;
+  timestamp: number;
+}
+
+/**
+ * The blob uploaded for a log stored on its own rather than in a batch
+ */
+interface SingleLogBlob extends Pick<DALogOptions, 'level' | 'metadata' | 'tags'> {
+  data: unknown;
+  timestamp: number;
+}
+
+/**
+ * A buffered log on its way into a batch, with its stored form and serialized size
+ */
+interface PendingBatchLog {
+  log: LogEntry;
+  stored: BatchedLog;
+  size: number;
+}
+
+/**
+ * A batch serialized for upload, with an inclusion proof for each of its logs
+ */
+interface EncodedBatch {
+  content: string;
+  inclusionProofs: MerkleInclusionProof[];
+}
+
+/**
+ * Credits reserved in the budget for uploads under way, spent as each blob uploads
+ */
+interface BudgetReservation {
+  remaining: number;
 }
 
 export interface PostResult {
@@ -34,30 +186,79 @@ export interface DAStatus {
 }
 
 export class EigenDAAdapter implements IDALoggingAdapter {
-  private client: EigenDAClient;
+  /** Lifecycle events: flushes, uploads, status changes, balances, budget limits and dead letters */
+  readonly events = new TypedEventEmitter<EigenDAAdapterEvents>();
+  private client: EigenDAClientLike;
   private identifier?: Uint8Array;
   private logBuffer: LogEntry[] = [];
   private flushInterval: number;
   private maxBufferSize: number;
+  private maxBlobSize: number;
+  private maxDecompressedSize: number;
+  private encodedSizeRatio?: number; // Encoded blob bytes per byte of logs in the last batch
+  private chunkConcurrency: number;
   private flushTimer?: ReturnType<typeof setInterval>;
+  private flushQueue: Promise<void> = Promise.resolve();
   private isInitialized = false;
   private config: EigenDAAdapterConfig;
-  private pendingLogs: Map<string, { resolve: (entry: DALogEntry) => void }> = new Map();
+  private pendingLogs: Map<string, {
+    resolve: (entry: DALogEntry) => void;
+    reject: (error: DALogStorageError) => void;
+  }> = new Map();
+  private spool?: WriteAheadSpool<LogEntry>;
+  private maxFlushAttempts: number;
+  private flushRetryDelay: number;
+  private shutdownTimeout: number;
+  private deadLetterQueue: DeadLetterQueue;
+  private consecutiveFlushFailures = 0;
+  private retryAfter = 0;
+  private retryPolicy: RetryPolicy;
+  private minBalance = 0;
+  private topUpAmount?: number;
+  private jobStatuses = new Map<string, string>();
+  private budget: CreditBudget;
+  private balanceTimer?: ReturnType<typeof setInterval>;
+  private balanceCheck?: Promise<number>;
 
   constructor(config: EigenDAAdapterConfig) {
-    this.client = new EigenDAClient({
-      apiUrl: config.apiUrl,
-      rpcUrl: config.rpcUrl,
-      privateKey: config.privateKey,
-      creditsContractAddress: config.creditsContractAddress,
-    });
+    if (config.client) {
+      this.client = config.client;
+    } else if (config.privateKey) {
+      this.client = new EigenDAClient({
+        apiUrl: config.apiUrl,
+        rpcUrl: config.rpcUrl,
+        privateKey: config.privateKey,
+        creditsContractAddress: config.creditsContractAddress,
+      });
+    } else {
+      throw new Error('A privateKey is required unless a client is given');
+    }
     this.flushInterval = config.flushInterval || 10000; // Default 10 seconds
     this.maxBufferSize = config.maxBufferSize || 1000; // Default 1000 logs
+    this.maxBlobSize = config.maxBlobSize ?? DEFAULT_MAX_BLOB_SIZE;
+    this.maxDecompressedSize = config.maxDecompressedSize ?? this.maxBlobSize * MAX_DECOMPRESSION_RATIO;
+    this.chunkConcurrency = config.chunkConcurrency ?? DEFAULT_CHUNK_CONCURRENCY;
+    this.maxFlushAttempts = config.maxFlushAttempts || 5;
+    this.flushRetryDelay = config.flushRetryDelay ?? 1000;
+    this.shutdownTimeout = config.shutdownTimeout ?? DEFAULT_SHUTDOWN_TIMEOUT;
+    this.deadLetterQueue = config.deadLetterQueue ?? new InMemoryDeadLetterQueue();
+    this.retryPolicy = config.retry ?? {};
+    this.budget = new CreditBudget(config.budget ?? {});
     this.config = config;
+    if (config.encryption) {
+      validateEnvelopeConfig(config.encryption);
+    }
+    if (config.spoolPath) {
+      this.spool = new WriteAheadSpool(config.spoolPath, { fsync: config.spoolFsync });
+    }
+    if (config.metrics) {
+      bindEigenDAMetrics(this.events, config.metrics);
+    }
   }
 
   /**
-   * Initialize the adapter and start the flush timer
+   * Initialize the adapter and start the flush timer, and the balance monitor if configured
+   * @param minBalance Balance to top up to when below it, unless `balanceMonitor` sets the threshold and amount
    */
   async initialize(minBalance: number = 0.001): Promise<void> {
     if (this.isInitialized) return;
@@ -74,14 +275,22 @@ export class EigenDAAdapter implements IDALoggingAdapter {
       throw new Error('Failed to initialize identifier');
     }
 
-    // Check and top up balance if needed
-    const balance = await this.client.getBalance(this.identifier);
-    if (balance < minBalance) {
-      await this.client.topupCredits(this.identifier, minBalance);
+    // Check and top up balance if needed, by the same rule the balance monitor applies later
+    const monitor = this.config.balanceMonitor;
+    this.minBalance = monitor ? monitor.threshold : minBalance;
+    this.topUpAmount = monitor ? monitor.topUpAmount : minBalance;
+    await this.checkBalance();
+
+    // Replay logs that were spooled but never uploaded, e.g. before a crash
+    if (this.spool) {
+      const replayed = await this.spool.open();
+      this.logBuffer.push(...replayed.map(({ id, entry }) => ({ ...entry, tempId: id })));
+      this.events.emit('log:buffered', { buffered: this.logBuffer.length });
     }
 
     // Start periodic flush
     this.startFlushTimer();
+    this.startBalanceMonitor();
     this.isInitialized = true;
   }
 
@@ -92,15 +301,52 @@ export class EigenDAAdapter implements IDALoggingAdapter {
     this.flushTimer = setInterval(() => this.flush(), this.flushInterval);
   }
 
+  private startBalanceMonitor() {
+    const monitor = this.config.balanceMonitor;
+    if (!monitor) return;
+    if (this.balanceTimer) {
+      clearInterval(this.balanceTimer);
+    }
+    this.balanceTimer = setInterval(() => {
+      this.checkBalance().catch(error => {
+        console.error('Error checking EigenDA balance:', error);
+      });
+    }, monitor.interval ?? DEFAULT_BALANCE_CHECK_INTERVAL);
+  }
+
   /**
-   * Stop the flush timer and flush any remaining logs
+   * Stop the flush timer and flush any remaining logs, retrying until every log is either stored
+   * or dead-lettered. Once the next retry would start past `shutdownTimeout`, logs still buffered
+   * are given up on: left in the spool to be replayed by `initialize()` if there is one, and
+   * dead-lettered otherwise.
    */
   async shutdown(): Promise<void> {
+    const deadline = Date.now() + this.shutdownTimeout;
+    // Refuse new logs, which would otherwise wait forever for a flush
+    this.isInitialized = false;
     if (this.flushTimer) {
       clearInterval(this.flushTimer);
       this.flushTimer = undefined;
     }
-    await this.flush();
+    if (this.balanceTimer) {
+      clearInterval(this.balanceTimer);
+      this.balanceTimer = undefined;
+    }
+
+    // Wait for any flush under way, which may put logs it failed to upload back in the buffer
+    await this.flushQueue;
+    while (this.logBuffer.length > 0) {
+      const wait = this.retryAfter - Date.now();
+      if (wait > 0) {
+        if (this.retryAfter > deadline) {
+          await this.abandonBuffer();
+          break;
+        }
+        await new Promise(resolve => setTimeout(resolve, wait));
+      }
+      await this.flush();
+    }
+    await this.spool?.close();
   }
 
   /**
@@ -111,25 +357,56 @@ export class EigenDAAdapter implements IDALoggingAdapter {
       throw new Error('Adapter not initialized. Call initialize() first.');
     }
 
+    // The signal only matters in this process, so it is kept out of the stored options
+    const { signal, ...storedOptions } = options ?? {};
+    throwIfCancelled(signal);
+
     const entry: LogEntry = {
       level: (options?.level || 'info') as 'info' | 'warn' | 'error' | 'debug',
       message: typeof data === 'object' ? JSON.stringify(data) : String(data),
       timestamp: Date.now(),
       metadata: options?.metadata,
       data,
-      options,
+      options: options ? storedOptions : undefined,
     };
 
+    const tempId = `temp-${randomUUID()}`;
+
+    // Persist the log before it can be flushed, so it survives a crash before its upload.
+    // A log that cannot be persisted is refused rather than accepted without that guarantee.
+    if (this.spool) {
+      try {
+        await this.spool.append(tempId, entry);
+      } catch (error) {
+        throw new DALogStorageError('Failed to write log to the spool', { error });
+      }
+      if (signal?.aborted || !this.isInitialized) {
+        this.spool.discard([tempId]).catch(error => {
+          console.error('Error discarding log from the spool:', error);
+        });
+        throwIfCancelled(signal);
+        throw new Error('Adapter was shut down before the log was buffered');
+      }
+    }
+
     // Create a promise that will be resolved when we get the real job ID
-    const tempId = `temp-${Date.now()}-${this.logBuffer.length + 1}`;
-    const logPromise = new Promise<DALogEntry>((resolve) => {
-      this.pendingLogs.set(tempId, { resolve });
+    const logPromise = new Promise<DALogEntry>((resolve, reject) => {
+      this.pendingLogs.set(tempId, { resolve, reject });
     });
 
     this.logBuffer.push({
       ...entry,
       tempId,
+      signal,
     });
+    this.events.emit('log:buffered', { buffered: this.logBuffer.length });
+
+    if (signal) {
+      const onAbort = () => this.cancelBufferedLog(tempId);
+      signal.addEventListener('abort', onAbort, { once: true });
+      const removeListener = () => signal.removeEventListener('abort', onAbort);
+      logPromise.then(removeListener, removeListener);
+    }
 
     // Force flush if buffer is too large
     if (this.logBuffer.length >= this.maxBufferSize) {
@@ -157,69 +434,337 @@ export class EigenDAAdapter implements IDALoggingAdapter {
   }
 
   /**
-   * Flush buffered logs to EigenDA
+   * Flush buffered logs once any flush already under way has finished. Flushes from the timer,
+   * a full buffer and shutdown run one at a time, so none can outlive shutdown.
+   */
+  private flush(): Promise<void> {
+    const flush = this.flushQueue.then(() => this.flushBuffer());
+    // Keep the queue going after a failed flush; the caller still sees the failure
+    this.flushQueue = flush.catch(() => undefined);
+    return flush;
+  }
+
+  /**
+   * Flush buffered logs to EigenDA, in as many batches as it takes to keep each blob
+   * within the maximum blob size
    */
-  private async flush(): Promise<void> {
+  private async flushBuffer(): Promise<void> {
     if (this.logBuffer.length === 0) return;
 
-    const logsToFlush = [...this.logBuffer];
+    // Back off after failed flushes
+    if (Date.now() < this.retryAfter) return;
+
+    const buffered = this.logBuffer;
     this.logBuffer = [];
+    const started = Date.now();
+    this.events.emit('flush:start', { logs: buffered.length });
 
-    try {
-      // Merge all logs into a single batch
-      const batchedLogs = {
-        logs: logsToFlush.map(log => ({
+    const pending: PendingBatchLog[] = [];
+    for (const log of buffered) {
+      try {
+        // Normalise through JSON so the hashed leaves match what is read back from the blob
+        const serialized = JSON.stringify({
           level: log.level,
           message: log.message,
           timestamp: log.timestamp,
           metadata: log.metadata,
           data: log.data,
           options: log.options
-        })),
-        timestamp: Date.now(),
-        type: 'log_batch'
-      };
-
-      // Upload the batched logs
-      const content = JSON.stringify(batchedLogs);
-      const uploadResult = await this.client.upload(content, this.identifier!);
-      
-      // Extract job_id from the response
-      const jobId = (uploadResult as any).job_id;
-      if (!jobId) {
-        throw new Error('Failed to get job_id from upload result');
+        });
+        pending.push({ log, stored: JSON.parse(serialized), size: Buffer.byteLength(serialized) });
+      } catch (error) {
+        // A log that cannot be serialized will never upload, so don't retry it
+        await this.deadLetter([log], error);
       }
+    }
 
-      // Create the status object
-      const daStatus: DALogStatus = {
-        type: 'eigenda',
-        data: {
-          jobId,
-          status: 'PENDING'
-        },
-        timestamp: Date.now(),
-      };
+    let start = 0;
+    let batches = 0;
+    let estimatedCost = 0;
+    while (start < pending.length) {
+      let batch = this.nextBatch(pending, start);
+      try {
+        let encoded = await this.encodeBatch(batch);
+        // Packing only estimates how compression and encryption change the size, so halve
+        // the batch until its blob fits
+        while (Buffer.byteLength(encoded.content) > this.maxBlobSize && batch.length > 1) {
+          batch = batch.slice(0, Math.ceil(batch.length / 2));
+          encoded = await this.encodeBatch(batch);
+        }
+        const size = Buffer.byteLength(encoded.content);
+        this.encodedSizeRatio = size / batchSize(batch);
 
-      // Resolve all pending log promises with the real job ID
-      for (const log of logsToFlush) {
-        const pendingLog = this.pendingLogs.get(log.tempId!);
-        if (pendingLog) {
-          pendingLog.resolve({
-            id: jobId,
-            content: log.data,
-            timestamp: log.timestamp,
-            status: daStatus,
-            options: log.options
-          });
-          this.pendingLogs.delete(log.tempId!);
+        const reservation = size > this.maxBlobSize ? undefined : this.reserveBudget(size);
+        if (!reservation) {
+          // A log that is too large on its own will never upload, so don't retry it
+          await this.deadLetter(batch.map(({ log }) => log), new Error(
+            `Log is ${size} bytes when encoded, over the maximum blob size of ${this.maxBlobSize} bytes`
+          ));
+        } else if (reservation instanceof BudgetExceededError) {
+          // Retries would keep failing until the budget period ends, so don't retry it
+          await this.deadLetter(batch.map(({ log }) => log), reservation);
+        } else {
+          try {
+            await this.uploadBatch(batch, encoded, reservation);
+          } finally {
+            this.budget.release(reservation.remaining);
+          }
+          estimatedCost += this.budget.estimate(size);
         }
+      } catch (error) {
+        console.error('Error flushing logs to EigenDA:', error);
+        // Logs after the failed batch were never tried, so they go back without using up an attempt
+        this.logBuffer = [...pending.slice(start + batch.length).map(({ log }) => log), ...this.logBuffer];
+        await this.handleFlushFailure(batch.map(({ log }) => log), error);
+        this.events.emit('flush:failure', {
+          logs: batch.length,
+          error,
+          consecutiveFailures: this.consecutiveFlushFailures,
+          retryInMs: Math.max(0, this.retryAfter - Date.now()),
+          durationMs: Date.now() - started,
+          buffered: this.logBuffer.length,
+        });
+        return;
       }
+      start += batch.length;
+      batches++;
+    }
 
+    this.consecutiveFlushFailures = 0;
+    this.retryAfter = 0;
+    this.events.emit('flush:success', {
+      logs: buffered.length,
+      batches,
+      durationMs: Date.now() - started,
+      buffered: this.logBuffer.length,
+      estimatedCost,
+    });
+  }
+
+  /**
+   * Take the logs from `start` that are expected to encode within the maximum blob size,
+   * estimating the encoded size from the last batch so compressed batches fill each blob
+   */
+  private nextBatch(logs: PendingBatchLog[], start: number): PendingBatchLog[] {
+    // Before any batch is encoded, assume encryption's base64 grows the blob by a third
+    const ratio = this.encodedSizeRatio ?? (this.config.encryption ? 4 / 3 : 1);
+    const budget = this.maxBlobSize * PACKING_MARGIN / ratio;
+
+    let end = start + 1;
+    let size = BATCH_OVERHEAD + logs[start]!.size + 1;
+    while (end < logs.length && size + logs[end]!.size + 1 <= budget) {
+      size += logs[end]!.size + 1;
+      end++;
+    }
+    return logs.slice(start, end);
+  }
+
+  /**
+   * Serialize a batch into the blob to upload, committed to by a Merkle root over its logs
+   */
+  private async encodeBatch(batch: PendingBatchLog[]): Promise<EncodedBatch> {
+    const logs = batch.map(({ stored }) => stored);
+    const inclusionProofs = createInclusionProofs(logs.map(hashLogLeaf));
+    const batchedLogs: LogBatch = {
+      logs,
+      merkleRoot: inclusionProofs[0]?.root,
+      timestamp: Date.now(),
+      type: 'log_batch'
+    };
+    return { content: await this.encodeBlob(batchedLogs), inclusionProofs };
+  }
+
+  /**
+   * Upload an encoded batch and resolve its logs with per-entry IDs and inclusion proofs
+   */
+  private async uploadBatch(
+    batch: PendingBatchLog[],
+    { content, inclusionProofs }: EncodedBatch,
+    reservation: BudgetReservation
+  ): Promise<void> {
+    const logsToFlush = batch.map(({ log }) => log);
+    const logs = batch.map(({ stored }) => stored);
+
+    // Upload the batched logs, within the tightest timeout any of them asked for
+    const timeouts = logsToFlush
+      .map(log => log.options?.timeout)
+      .filter((timeout): timeout is number => timeout !== undefined);
+    const timeout = timeouts.length > 0 ? Math.min(...timeouts) : undefined;
+    const { jobId } = await this.uploadBlob(content, reservation, timeout);
+
+    // The upload succeeded, so a failure to record it must not re-buffer the logs
+    try {
+      await this.spool?.commit(logsToFlush.map(log => log.tempId!), jobId);
     } catch (error) {
-      console.error('Error flushing logs to EigenDA:', error);
-      // Put the logs back in the buffer
-      this.logBuffer = [...logsToFlush, ...this.logBuffer];
+      console.error('Error committing flushed logs to the spool:', error);
+    }
+
+    // Resolve all pending log promises with a per-entry ID and inclusion proof
+    logsToFlush.forEach((log, index) => {
+      const pendingLog = this.pendingLogs.get(log.tempId!);
+      if (pendingLog) {
+        const inclusion = inclusionProofs[index]!;
+        const stored = logs[index]!;
+        pendingLog.resolve({
+          id: formatLogEntryId(jobId, index),
+          content: stored.data,
+          timestamp: log.timestamp,
+          status: {
+            type: 'eigenda',
+            data: {
+              jobId,
+              index,
+              merkleRoot: inclusion.root,
+              status: 'PENDING'
+            },
+            timestamp: Date.now(),
+          },
+          options: stored.options,
+          proof: toInclusionProof(jobId, inclusion)
+        });
+        this.pendingLogs.delete(log.tempId!);
+      }
+    });
+  }
+
+  /**
+   * Put failed logs back in the buffer with a backoff, dead-lettering those out of attempts
+   */
+  private async handleFlushFailure(logs: LogEntry[], error: unknown): Promise<void> {
+    const retry: LogEntry[] = [];
+    const exhausted: LogEntry[] = [];
+    for (const log of logs) {
+      // Logs cancelled during the upload are dropped rather than tried again
+      if (log.signal?.aborted) {
+        this.rejectCancelled(log);
+        continue;
+      }
+      const attempts = (log.attempts ?? 0) + 1;
+      (attempts >= this.maxFlushAttempts ? exhausted : retry).push({ ...log, attempts });
+    }
+
+    this.logBuffer = [...retry, ...this.logBuffer];
+    this.consecutiveFlushFailures++;
+    this.retryAfter = Date.now() + getRetryDelay(this.consecutiveFlushFailures, {
+      ...this.retryPolicy,
+      initialDelay: this.flushRetryDelay,
+      maxDelay: MAX_FLUSH_RETRY_DELAY,
+    });
+
+    if (exhausted.length > 0) {
+      await this.deadLetter(exhausted, error);
+    }
+  }
+
+  /**
+   * Give up on the logs left in the buffer when shutdown runs out of time. With a spool they stay
+   * in it, uncommitted, for `initialize()` to replay; without one they are dead-lettered.
+   */
+  private async abandonBuffer(): Promise<void> {
+    const logs = this.logBuffer;
+    this.logBuffer = [];
+    this.events.emit('log:buffered', { buffered: 0 });
+    const reason = `Adapter shut down before the log could be uploaded, after waiting ${this.shutdownTimeout}ms`;
+
+    if (!this.spool) {
+      await this.deadLetter(logs, new Error(reason));
+      return;
+    }
+
+    for (const log of logs) {
+      const pendingLog = this.pendingLogs.get(log.tempId!);
+      if (pendingLog) {
+        pendingLog.reject(new DALogStorageError(`${reason}; it stays in the spool`, { attempts: log.attempts ?? 0 }));
+        this.pendingLogs.delete(log.tempId!);
+      }
+    }
+  }
+
+  /**
+   * Withdraw a log that is still waiting in the buffer. Once a flush has taken it, the upload
+   * goes ahead, and the log is only dropped if that upload fails.
+   */
+  private cancelBufferedLog(tempId: string): void {
+    const index = this.logBuffer.findIndex(log => log.tempId === tempId);
+    if (index === -1) return;
+
+    const [log] = this.logBuffer.splice(index, 1);
+    this.events.emit('log:buffered', { buffered: this.logBuffer.length });
+    this.rejectCancelled(log!);
+  }
+
+  /**
+   * Reject a cancelled log's caller and drop the log from the spool
+   */
+  private rejectCancelled(log: LogEntry): void {
+    const pendingLog = this.pendingLogs.get(log.tempId!);
+    if (pendingLog) {
+      pendingLog.reject(new OperationCancelledError(
+        'Log was cancelled before it was stored',
+        log.signal?.reason
+      ));
+      this.pendingLogs.delete(log.tempId!);
+    }
+
+    this.spool?.discard([log.tempId!]).catch(error => {
+      console.error('Error discarding cancelled log from the spool:', error);
+    });
+  }
+
+  /**
+   * Give up on logs: reject their callers, move them to the dead-letter queue
+   * and drop them from the spool
+   */
+  private async deadLetter(logs: LogEntry[], error: unknown): Promise<void> {
+    const reason = error instanceof Error ? error.message : String(error);
+    this.events.emit('dead-letter', { logs: logs.length, error: reason });
+    for (const log of logs) {
+      const letter: DeadLetter = {
+        data: log.data,
+        options: log.options,
+        timestamp: log.timestamp,
+        attempts: log.attempts ?? 0,
+        error: reason,
+        failedAt: Date.now(),
+      };
+
+      try {
+        await this.deadLetterQueue.push(letter);
+      } catch (queueError) {
+        console.error('Error adding log to the dead-letter queue:', queueError);
+      }
+
+      const pendingLog = this.pendingLogs.get(log.tempId!);
+      if (pendingLog) {
+        pendingLog.reject(error instanceof BudgetExceededError ? error : new DALogStorageError(
+          `Failed to store log in EigenDA after ${letter.attempts} attempt(s): ${reason}`,
+          { error, attempts: letter.attempts }
+        ));
+        this.pendingLogs.delete(log.tempId!);
+      }
     }
+
+    try {
+      await this.spool?.discard(logs.map(log => log.tempId!));
+    } catch (spoolError) {
+      console.error('Error discarding dead-lettered logs from the spool:', spoolError);
+    }
+  }
+
+  /**
+   * List the logs that exhausted their upload attempts
+   */
+  async getDeadLetters(): Promise<DeadLetter[]> {
+    return this.deadLetterQueue.list();
+  }
+
+  /**
+   * Remove every log from the dead-letter queue and log it again
+   * @returns The entries, once the replayed logs are stored
+   */
+  async replayDeadLetters(): Promise<DALogEntry[]> {
+    const letters = await this.deadLetterQueue.drain();
+    return Promise.all(letters.map(letter => this.log(letter.data, letter.options)));
   }
 
   /**
@@ -230,20 +775,24 @@ export class EigenDAAdapter implements IDALoggingAdapter {
       await this.initialize();
     }
 
-    const content = JSON.stringify({
+    const blob: SingleLogBlob = {
       data,
       metadata: options?.metadata || {},
       tags: options?.tags || [],
       level: options?.level || 'info',
       timestamp: Date.now(),
-    });
+    };
+    const content = await this.encodeBlob(blob);
 
-    const uploadResult = await this.client.upload(content, this.identifier!);
-    
-    // Extract job_id from the response
-    const jobId = (uploadResult as any).job_id;
-    if (!jobId) {
-      throw new Error('Failed to get job_id from upload result');
+    const reservation = this.reserveBudget(Buffer.byteLength(content));
+    if (reservation instanceof BudgetExceededError) {
+      throw reservation;
+    }
+    let jobId: string;
+    try {
+      ({ jobId } = await this.uploadBlob(content, reservation, options?.timeout));
+    } finally {
+      this.budget.release(reservation.remaining);
     }
 
     // Create status without waiting for confirmation
@@ -274,9 +823,11 @@ export class EigenDAAdapter implements IDALoggingAdapter {
     }
 
     try {
-      const daStatus = await this.client.getStatus(status.data.jobId as string);
+      const jobId = status.data.jobId as string;
+      const daStatus = await withRetry(() => this.client.getStatus(jobId), this.retryPolicy);
       const statusStr = String(daStatus);
-      return ['CONFIRMED', 'completed'].includes(statusStr);
+      this.recordStatus(jobId, statusStr);
+      return CONFIRMED_STATUSES.includes(statusStr);
     } catch (error) {
       console.error('Error checking data availability:', error);
       return false;
@@ -290,65 +841,345 @@ export class EigenDAAdapter implements IDALoggingAdapter {
     if (!this.identifier) {
       throw new Error('Adapter not initialized. Call initialize() first.');
     }
-    return this.client.getBalance(this.identifier);
+    const balance = await this.client.getBalance(this.identifier);
+    this.events.emit('balance', { balance });
+    if (balance < this.minBalance) {
+      this.events.emit('balance-low', { balance, minBalance: this.minBalance });
+    }
+    return balance;
+  }
+
+  /**
+   * Check the balance now, as `initialize()` and the balance monitor do, topping it up if it is
+   * below the threshold
+   * @returns The balance, including any top-up
+   */
+  async checkBalance(): Promise<number> {
+    if (!this.identifier) {
+      throw new Error('Adapter not initialized. Call initialize() first.');
+    }
+    // Checks that overlap would each top up, so they share the one in progress
+    if (!this.balanceCheck) {
+      this.balanceCheck = this.topUpIfLow(this.identifier).finally(() => {
+        this.balanceCheck = undefined;
+      });
+    }
+    return this.balanceCheck;
+  }
+
+  private async topUpIfLow(identifier: Uint8Array): Promise<number> {
+    const balance = await this.client.getBalance(identifier);
+    this.events.emit('balance', { balance });
+    if (balance >= this.minBalance) {
+      return balance;
+    }
+
+    const topUpAmount = this.topUpAmount;
+    if (!topUpAmount) {
+      this.events.emit('balance-low', { balance, minBalance: this.minBalance });
+      return balance;
+    }
+    await this.client.topupCredits(identifier, topUpAmount);
+    this.events.emit('balance-low', { balance, minBalance: this.minBalance, toppedUp: topUpAmount });
+    return balance + topUpAmount;
+  }
+
+  /**
+   * Estimate the credits `post()` would spend on data, from the size of the blobs it would upload
+   */
+  async estimateCost(data: unknown, options?: {
+    tags?: string[];
+    metadata?: Record<string, unknown>;
+  }): Promise<CostEstimate> {
+    const content = await this.encodeBlob(postBlob(data, options));
+    const { bytes, uploads } = this.postUploadSize(content, this.splitForPost(content));
+    return { bytes, uploads, cost: this.budget.estimate(bytes, uploads) };
   }
 
   /**
-   * Post data to EigenDA
+   * Get the estimated spending in the current budget period, and the limits on it
+   */
+  getBudgetUsage(): BudgetUsage {
+    return this.budget.usage();
+  }
+
+  /**
+   * Post data to EigenDA. Data too large for one blob is split into chunks, uploaded in
+   * parallel, and the returned job ID is that of a manifest listing them.
+   * @throws {BudgetExceededError} If the upload would take spending past the hard limit
    */
   async post(data: unknown, options?: {
     waitForConfirmation?: boolean;
     tags?: string[];
     metadata?: Record<string, unknown>;
+    timeout?: number;
+    signal?: AbortSignal; // Cancels the upload or the wait for confirmation
   }): Promise<PostResult> {
     if (!this.identifier) {
       await this.initialize();
     }
 
-    const content = JSON.stringify({
-      data,
-      metadata: options?.metadata || {},
-      tags: options?.tags || [],
-      timestamp: Date.now(),
-    });
+    const content = await this.encodeBlob(postBlob(data, options));
+    const chunks = this.splitForPost(content);
+
+    // Reserve the whole post in the budget, so none of it uploads if it can't all be paid for
+    const { bytes, uploads } = this.postUploadSize(content, chunks);
+    const reservation = this.reserveBudget(bytes, uploads);
+    if (reservation instanceof BudgetExceededError) {
+      throw reservation;
+    }
+
+    const upload = async (blob: string): Promise<string> => {
+      const uploadResult = await this.uploadBlob(blob, reservation, options?.timeout, options?.signal);
+      return uploadResult.jobId;
+    };
+    const uploadManifest = (chunkJobIds: string[]): Promise<string> => {
+      const manifest = JSON.stringify(createChunkManifest(content, chunks!, chunkJobIds));
+      // Job IDs longer than the placeholder the manifest was sized with could still push it over
+      if (Buffer.byteLength(manifest) > this.maxBlobSize) {
+        throw new Error(
+          `Chunk manifest of ${Buffer.byteLength(manifest)} bytes exceeds the maximum blob size of ${this.maxBlobSize} bytes`
+        );
+      }
+      return upload(manifest);
+    };
+
+    let jobId: string;
+    let jobIds: string[];
+    try {
+      if (!chunks) {
+        jobId = await upload(content);
+        jobIds = [jobId];
+      } else {
+        // Too large for one blob: upload the chunks in parallel, then a manifest listing them
+        const chunkJobIds = await mapWithConcurrency(
+          chunks,
+          this.chunkConcurrency,
+          chunk => upload(chunk.blob)
+        );
+        jobId = await uploadManifest(chunkJobIds);
+        jobIds = [...chunkJobIds, jobId];
+      }
+    } finally {
+      // Release whatever failed uploads, or an overestimated manifest, did not spend
+      this.budget.release(reservation.remaining);
+    }
 
-    const uploadResult = await this.client.upload(content, this.identifier);
-    
     if (options?.waitForConfirmation) {
-      await this.client.waitForStatus(
-        uploadResult.jobId,
-        'CONFIRMED',
-        30, // max checks
-        20, // check interval (seconds)
-        60  // initial delay (seconds)
-      );
+      await Promise.all(jobIds.map(id => this.waitForConfirmation(id, options.signal)));
     }
 
     return {
-      jobId: uploadResult.jobId,
+      jobId,
       content: data,
       timestamp: Date.now(),
     };
   }
 
+  /**
+   * Split a post's content into chunks if it is too large for one blob
+   */
+  private splitForPost(content: string): PreparedChunk[] | undefined {
+    return Buffer.byteLength(content) > this.maxBlobSize ? splitIntoChunks(content, this.maxBlobSize) : undefined;
+  }
+
+  /**
+   * Total size and number of the blobs a post uploads: its content, or its chunks and a manifest
+   * @throws {Error} If the manifest listing the chunks would itself be too large for one blob
+   */
+  private postUploadSize(content: string, chunks?: PreparedChunk[]): { bytes: number; uploads: number } {
+    if (!chunks) {
+      return { bytes: Buffer.byteLength(content), uploads: 1 };
+    }
+    const manifest = JSON.stringify(createChunkManifest(content, chunks, chunks.map(() => PLACEHOLDER_JOB_ID)));
+    if (Buffer.byteLength(manifest) > this.maxBlobSize) {
+      throw new Error(
+        `Payload of ${Buffer.byteLength(content)} bytes needs ${chunks.length} chunks, whose manifest of ` +
+          `${Buffer.byteLength(manifest)} bytes exceeds the maximum blob size of ${this.maxBlobSize} bytes`
+      );
+    }
+    return {
+      bytes: chunks.reduce((total, chunk) => total + Buffer.byteLength(chunk.blob), Buffer.byteLength(manifest)),
+      uploads: chunks.length + 1,
+    };
+  }
+
+  /**
+   * Check uploads' estimated cost against the budget, reporting any limit it passes, and reserve
+   * it unless it would pass the hard limit. Release what is left of the reservation once the
+   * uploads finish or fail.
+   * @returns The reservation, or the error to fail the uploads with if they would pass the hard limit
+   */
+  private reserveBudget(bytes: number, uploads = 1): BudgetReservation | BudgetExceededError {
+    const estimatedCost = this.budget.estimate(bytes, uploads);
+    const check = this.budget.check(estimatedCost);
+    if (check.limit === 'soft') {
+      const { spent, reserved, threshold: softLimit } = check;
+      this.events.emit('budget:soft-limit', { spent, reserved, estimatedCost, softLimit });
+    } else if (check.limit === 'hard') {
+      const { spent, reserved, threshold: hardLimit } = check;
+      this.events.emit('budget:hard-limit', { spent, reserved, estimatedCost, hardLimit });
+      return new BudgetExceededError(
+        `Upload estimated at ${estimatedCost} credits would take spending of ${spent}, with ${reserved} ` +
+          `reserved for uploads under way, past the hard limit of ${hardLimit}`,
+        estimatedCost,
+        spent,
+        hardLimit
+      );
+    }
+    return { remaining: estimatedCost };
+  }
+
+  /**
+   * Upload a blob and report it once uploaded. An upload that times out may still be stored,
+   * so it is only retried on failures where it cannot have been, unless `retry` says otherwise.
+   * @throws {Error} If the upload result carries no job ID, as `jobId` or `job_id`
+   */
+  private async uploadBlob(
+    content: string,
+    reservation: BudgetReservation,
+    timeout?: number,
+    signal?: AbortSignal
+  ): Promise<{ jobId: string; [key: string]: unknown }> {
+    const started = Date.now();
+    const uploadResult = await withRetry(
+      () => this.client.upload(content, this.identifier!),
+      nonIdempotentRetryPolicy(mergeRetryPolicy(this.retryPolicy, { timeout })),
+      signal
+    );
+    const bytes = Buffer.byteLength(content);
+    const estimatedCost = this.budget.estimate(bytes);
+    // Spend out of the reservation, leaving the rest for its other uploads or to be released
+    const fromReservation = Math.min(estimatedCost, reservation.remaining);
+    reservation.remaining -= fromReservation;
+    this.budget.record(estimatedCost, fromReservation);
+
+    const jobId = uploadResult.jobId ?? uploadResult.job_id;
+    if (typeof jobId !== 'string' || !jobId) {
+      throw new Error('Upload result has no job ID');
+    }
+    this.events.emit('upload', { jobId, bytes, durationMs: Date.now() - started, estimatedCost });
+    return { ...uploadResult, jobId };
+  }
+
+  /**
+   * Report a polled job status if it differs from the last one seen for the job
+   */
+  private recordStatus(jobId: string, status: string): void {
+    const previousStatus = this.jobStatuses.get(jobId);
+    if (status !== previousStatus) {
+      this.events.emit('status-change', { jobId, status, previousStatus });
+    }
+
+    // Confirmed jobs won't change again, so stop tracking them
+    this.jobStatuses.delete(jobId);
+    if (!CONFIRMED_STATUSES.includes(status)) {
+      this.jobStatuses.set(jobId, status);
+      if (this.jobStatuses.size > MAX_TRACKED_JOB_STATUSES) {
+        this.jobStatuses.delete(this.jobStatuses.keys().next().value!);
+      }
+    }
+  }
+
+  /**
+   * Poll a job until it is confirmed, stopping early if the signal is aborted
+   */
+  private async waitForConfirmation(jobId: string, signal?: AbortSignal): Promise<void> {
+    const polling = this.config.confirmationPolling;
+    const maxChecks = polling?.maxChecks ?? CONFIRMATION_MAX_CHECKS;
+
+    await cancellableDelay(polling?.initialDelay ?? CONFIRMATION_INITIAL_DELAY, signal);
+    for (let check = 1; check <= maxChecks; check++) {
+      const status = String(await withRetry(() => this.client.getStatus(jobId), this.retryPolicy, signal));
+      this.recordStatus(jobId, status);
+      if (CONFIRMED_STATUSES.includes(status)) {
+        return;
+      }
+      if (check < maxChecks) {
+        await cancellableDelay(polling?.interval ?? CONFIRMATION_CHECK_INTERVAL, signal);
+      }
+    }
+    throw new DALogStorageError(`Job ${jobId} was not confirmed after ${maxChecks} checks`, { jobId });
+  }
+
   /**
    * Retrieve data by job ID
+   * @throws {OperationCancelledError} If the signal is aborted; other failures return null
    */
-  async get(jobId: string): Promise<unknown | null> {
+  async get(jobId: string, options?: { signal?: AbortSignal }): Promise<unknown | null> {
     try {
-      const data = await this.client.retrieve({
-        jobId,
-        waitForCompletion: true
-      });
-
-      const parsedData = JSON.parse(data);
+      const parsedData = await this.retrieveBlob(jobId, options?.signal);
       return parsedData.data;
     } catch (error) {
+      if (error instanceof OperationCancelledError) {
+        throw error;
+      }
       console.error('Error retrieving data:', error);
       return null;
     }
   }
 
+  /**
+   * Serialize a blob for upload, compressing and then encrypting it when configured
+   */
+  private async encodeBlob(blob: unknown): Promise<string> {
+    let content = JSON.stringify(blob);
+    if (this.config.compression) {
+      content = await compressBlob(content, this.config.compression);
+    }
+    const encryption = this.config.encryption;
+    return encryption ? JSON.stringify(encryptEnvelope(content, encryption.recipients)) : content;
+  }
+
+  /**
+   * Retrieve and parse the JSON blob stored under a job ID, reassembling, decrypting and
+   * decompressing it as its headers say
+   */
+  private async retrieveBlob(jobId: string, signal?: AbortSignal): Promise<Record<string, unknown>> {
+    let blob = await this.retrieveJson(jobId, signal);
+    if (isChunkManifest(blob)) {
+      const manifest = blob;
+      const chunks = await mapWithConcurrency(
+        manifest.chunks,
+        this.chunkConcurrency,
+        chunk => this.retrieveJson(chunk.jobId, signal)
+      );
+      blob = JSON.parse(assembleChunks(manifest, chunks));
+    }
+    if (isEncryptedEnvelope(blob)) {
+      const encryption = this.config.encryption;
+      if (!encryption) {
+        throw new Error(`Blob ${jobId} is encrypted, but no encryption keys are configured`);
+      }
+      // Blobs record the IDs of the keys they were wrapped for, so retired keys still decrypt them
+      blob = JSON.parse(decryptEnvelope(blob, [...encryption.recipients, ...(encryption.decryptionKeys ?? [])]));
+    }
+    // Compressed blobs are read whatever the adapter's own compression setting
+    if (isCompressedBlob(blob)) {
+      blob = JSON.parse(await decompressBlob(blob, this.maxDecompressedSize));
+    }
+    if (!blob || typeof blob !== 'object' || Array.isArray(blob)) {
+      throw new Error(`Blob ${jobId} is not a JSON object`);
+    }
+    return blob as Record<string, unknown>;
+  }
+
+  /**
+   * Retrieve a blob and parse it as JSON. The SDK's own wait for the blob cannot be
+   * interrupted, so a cancelled retrieval is abandoned rather than stopped.
+   */
+  private async retrieveJson(jobId: string, signal?: AbortSignal): Promise<unknown> {
+    const data = await withRetry(
+      () => this.client.retrieve({
+        jobId,
+        waitForCompletion: true
+      }),
+      this.retryPolicy,
+      signal
+    );
+    return typeof data === 'string' ? JSON.parse(data) : data;
+  }
+
   /**
    * Get the current identifier being used by the adapter
    */
@@ -364,53 +1195,74 @@ export class EigenDAAdapter implements IDALoggingAdapter {
   }
 
   /**
-   * Get a specific log entry by ID
+   * Get a specific log entry by ID. Entries from a batch are addressed as `jobId:index`
+   * and come back with a proof of their inclusion in the batch's Merkle root.
    */
   async getLogEntry(id: string): Promise<DALogEntry | null> {
     try {
-      const data = await this.get(id);
-      if (!data) return null;
+      const { jobId, index } = parseLogEntryId(id);
+      const blob = await this.retrieveBlob(jobId);
 
       // Handle batched logs
-      const batchedData = data as { type?: string; logs?: any[] };
-      if (batchedData.type === 'log_batch' && Array.isArray(batchedData.logs)) {
-        // Return the first log in the batch for now
-        // You might want to implement a way to retrieve specific logs from the batch
-        const log = batchedData.logs[0];
+      if (blob.type === 'log_batch' && Array.isArray(blob.logs)) {
+        const batch = blob as unknown as LogBatch;
+        if (index === undefined && batch.logs.length !== 1) {
+          throw new Error(`Log ID ${id} refers to a batch of ${batch.logs.length} logs; use jobId:index`);
+        }
+
+        const entryIndex = index ?? 0;
+        const log = batch.logs[entryIndex];
+        if (!log) {
+          return null;
+        }
+
+        // Older batches carry no Merkle root, so their entries come back without a proof
+        let proof: Proof | undefined;
+        if (batch.merkleRoot) {
+          const inclusion = createInclusionProofs(batch.logs.map(hashLogLeaf))[entryIndex]!;
+          if (inclusion.root !== batch.merkleRoot) {
+            throw new Error(`Merkle root mismatch for batch ${jobId}`);
+          }
+          proof = toInclusionProof(jobId, inclusion);
+        }
+
         return {
-          id,
+          id: formatLogEntryId(jobId, entryIndex),
           content: log.data,
           timestamp: log.timestamp,
           status: {
             type: 'eigenda',
             data: {
-              jobId: id,
+              jobId,
+              index: entryIndex,
+              merkleRoot: batch.merkleRoot,
               status: 'PENDING'
             },
             timestamp: log.timestamp,
           },
           options: log.options,
+          proof,
         };
       }
 
       // Handle single log
-      const parsedData = JSON.parse(String(data));
+      const log = blob as unknown as SingleLogBlob;
       return {
-        id,
-        content: parsedData.data,
-        timestamp: parsedData.timestamp,
+        id: jobId,
+        content: log.data,
+        timestamp: log.timestamp,
         status: {
           type: 'eigenda',
           data: {
-            jobId: id,
+            jobId,
             status: 'PENDING'
           },
-          timestamp: parsedData.timestamp,
+          timestamp: log.timestamp,
         },
         options: {
-          level: parsedData.level,
-          metadata: parsedData.metadata,
-          tags: parsedData.tags,
+          level: log.level,
+          metadata: log.metadata,
+          tags: log.tags,
         },
       };
     } catch (error) {
@@ -418,4 +1270,23 @@ export class EigenDAAdapter implements IDALoggingAdapter {
       return null;
     }
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * The blob `post()` uploads for data
+ */
+function postBlob(data: unknown, options?: { tags?: string[]; metadata?: Record<string, unknown> }): Record<string, unknown> {
+  return {
+    data,
+    metadata: options?.metadata || {},
+    tags: options?.tags || [],
+    timestamp: Date.now(),
+  };
+}
+
+/**
+ * Estimated size of a batch before encoding: its logs, the commas between them and its other fields
+ */
+function batchSize(batch: PendingBatchLog[]): number {
+  return batch.reduce((total, { size }) => total + size + 1, BATCH_OVERHEAD);
+}
@@ -0,0 +1,126 @@
+import { EigenDAAdapter } from '../EigenDAAdapter';
+import { BudgetExceededError, CreditBudget, estimateUploadCost } from '../budget';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+
+describe('CreditBudget', () => {
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('prices uploads by size and count', () => {
+    expect(estimateUploadCost({ costPerByte: 0.5, costPerUpload: 3 }, 100, 2)).toBe(56);
+    expect(estimateUploadCost({}, 100)).toBe(0);
+    expect(new CreditBudget({ costPerUpload: 3 }).estimate(100)).toBe(3);
+  });
+
+  it('rejects a soft limit above the hard limit and a non-positive period', () => {
+    expect(() => new CreditBudget({ softLimit: 20, hardLimit: 10 })).toThrow(
+      'Budget soft limit 20 is above the hard limit 10'
+    );
+    expect(() => new CreditBudget({ period: 0 })).toThrow('Budget period must be positive, got 0');
+  });
+
+  it('holds reserved costs against the hard limit until they are recorded or released', () => {
+    const budget = new CreditBudget({ hardLimit: 30 });
+
+    expect(budget.check(10)).toEqual({ limit: 'none' });
+    expect(budget.check(10)).toEqual({ limit: 'none' });
+    expect(budget.check(10)).toEqual({ limit: 'none' });
+    expect(budget.check(1)).toEqual({ limit: 'hard', spent: 0, reserved: 30, estimatedCost: 1, threshold: 30 });
+    expect(budget.usage()).toMatchObject({ spent: 0, reserved: 30 });
+
+    budget.record(10);
+    budget.release(10);
+    expect(budget.usage()).toMatchObject({ spent: 10, reserved: 10 });
+    expect(budget.check(10)).toEqual({ limit: 'none' });
+    expect(budget.check(1)).toMatchObject({ limit: 'hard', spent: 10, reserved: 20 });
+  });
+
+  it('does not reserve a cost refused by the hard limit', () => {
+    const budget = new CreditBudget({ hardLimit: 10 });
+
+    expect(budget.check(11)).toMatchObject({ limit: 'hard' });
+    expect(budget.usage().reserved).toBe(0);
+    expect(budget.check(10)).toEqual({ limit: 'none' });
+  });
+
+  it('records spending beyond what was reserved, and never reserves below zero', () => {
+    const budget = new CreditBudget({});
+    budget.check(5);
+    budget.record(8, 5);
+    budget.release(100);
+
+    expect(budget.usage()).toMatchObject({ spent: 8, reserved: 0 });
+  });
+
+  it('reports the soft limit once per period', () => {
+    jest.useFakeTimers({ now: 1_000_000 });
+    const budget = new CreditBudget({ softLimit: 15, hardLimit: 100, period: 60_000 });
+
+    budget.record(10);
+    expect(budget.check(10)).toEqual({ limit: 'soft', spent: 10, reserved: 0, estimatedCost: 10, threshold: 15 });
+    expect(budget.check(10)).toEqual({ limit: 'none' });
+    expect(budget.usage()).toMatchObject({ spent: 10, reserved: 20, periodStart: 1_000_000 });
+
+    jest.advanceTimersByTime(60_000);
+    expect(budget.usage()).toMatchObject({ spent: 0, reserved: 20, periodStart: undefined });
+    expect(budget.check(10)).toMatchObject({ limit: 'soft', spent: 0, reserved: 20 });
+  });
+});
+
+describe('EigenDAAdapter with a budget', () => {
+  let server: LocalEigenDAServer;
+  let adapter: EigenDAAdapter;
+
+  beforeEach(async () => {
+    server = new LocalEigenDAServer();
+    adapter = new EigenDAAdapter({
+      client: new LocalEigenDAClient(await server.start(), { pollInterval: 10 }),
+      budget: { costPerUpload: 10, softLimit: 15, hardLimit: 35 },
+    });
+    await adapter.initialize(0);
+  });
+
+  afterEach(async () => {
+    await adapter.shutdown();
+    await server.stop();
+  });
+
+  it('never lets concurrent posts spend past the hard limit', async () => {
+    const hardLimitEvents: unknown[] = [];
+    const softLimitEvents: unknown[] = [];
+    adapter.events.on('budget:hard-limit', event => hardLimitEvents.push(event));
+    adapter.events.on('budget:soft-limit', event => softLimitEvents.push(event));
+
+    const results = await Promise.allSettled(Array.from({ length: 10 }, (_, i) => adapter.post({ request: i })));
+    const posted = results.filter(result => result.status === 'fulfilled');
+    const refused = results.filter((result): result is PromiseRejectedResult => result.status === 'rejected');
+
+    expect(posted).toHaveLength(3);
+    refused.forEach(({ reason }) => expect(reason).toBeInstanceOf(BudgetExceededError));
+    expect(refused[0]!.reason).toMatchObject({ estimatedCost: 10, spent: 0, hardLimit: 35 });
+    expect(hardLimitEvents).toHaveLength(7);
+    expect(softLimitEvents).toEqual([{ spent: 0, reserved: 10, estimatedCost: 10, softLimit: 15 }]);
+    expect(adapter.getBudgetUsage()).toMatchObject({ spent: 30, reserved: 0 });
+
+    await expect(adapter.post({ request: 'one more' })).rejects.toThrow(BudgetExceededError);
+    expect(adapter.getBudgetUsage()).toMatchObject({ spent: 30, reserved: 0 });
+  });
+
+  it('releases the reservation of a failed upload', async () => {
+    server.injectFault({ operation: 'upload', status: 400, times: 3 });
+
+    const results = await Promise.allSettled(Array.from({ length: 3 }, (_, i) => adapter.post({ request: i })));
+    expect(results.map(result => result.status)).toEqual(['rejected', 'rejected', 'rejected']);
+    expect(adapter.getBudgetUsage()).toMatchObject({ spent: 0, reserved: 0 });
+
+    await Promise.all(Array.from({ length: 3 }, (_, i) => adapter.post({ request: i })));
+    expect(adapter.getBudgetUsage()).toMatchObject({ spent: 30, reserved: 0 });
+  });
+
+  it('reports the cost of a post before it is made', async () => {
+    await expect(adapter.estimateCost({ request: 1 })).resolves.toMatchObject({ uploads: 1, cost: 10 });
+    expect(adapter.getBudgetUsage()).toMatchObject({ spent: 0, reserved: 0 });
+  });
+});
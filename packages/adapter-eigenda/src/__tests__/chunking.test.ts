@@ -0,0 +1,218 @@
+import { HttpStatusError } from '@layr-labs/agentkit';
+import { EigenDAAdapter } from '../EigenDAAdapter';
+import {
+  ChunkManifest,
+  assembleChunks,
+  createChunkManifest,
+  isChunkManifest,
+  mapWithConcurrency,
+  splitIntoChunks
+} from '../chunking';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+
+// Multi-byte characters, so chunk boundaries fall inside them
+const CONTENT = JSON.stringify({ text: 'héllo wörld \u{1f600} '.repeat(200) });
+const MAX_BLOB_SIZE = 1024;
+
+function split(content = CONTENT): { chunks: ReturnType<typeof splitIntoChunks>; manifest: ChunkManifest; blobs: unknown[] } {
+  const chunks = splitIntoChunks(content, MAX_BLOB_SIZE);
+  const manifest = createChunkManifest(content, chunks, chunks.map((_, index) => `job-${index}`));
+  return { chunks, manifest, blobs: chunks.map(chunk => JSON.parse(chunk.blob)) };
+}
+
+describe('chunking', () => {
+  it('splits a payload into blobs within the maximum size and reassembles it', () => {
+    const { chunks, manifest, blobs } = split();
+
+    expect(chunks.length).toBeGreaterThan(1);
+    chunks.forEach(chunk => expect(Buffer.byteLength(chunk.blob)).toBeLessThanOrEqual(MAX_BLOB_SIZE));
+    expect(isChunkManifest(manifest)).toBe(true);
+    expect(manifest.size).toBe(Buffer.byteLength(CONTENT));
+    expect(assembleChunks(manifest, blobs)).toBe(CONTENT);
+  });
+
+  it('refuses a maximum blob size too small to hold any data', () => {
+    expect(() => splitIntoChunks(CONTENT, 64)).toThrow('Maximum blob size of 64 bytes is too small to chunk a payload');
+  });
+
+  describe('corrupted chunks', () => {
+    it('rejects a chunk whose data was altered', () => {
+      const { manifest, blobs } = split();
+      const chunk = blobs[1] as { data: string };
+      const bytes = Buffer.from(chunk.data, 'base64');
+      bytes[0] = bytes[0]! ^ 0x01;
+      chunk.data = bytes.toString('base64');
+
+      expect(() => assembleChunks(manifest, blobs)).toThrow('Chunk 1 (job-1) does not match its hash in the manifest');
+    });
+
+    it('rejects a truncated chunk', () => {
+      const { manifest, blobs } = split();
+      const chunk = blobs[0] as { data: string };
+      chunk.data = Buffer.from(chunk.data, 'base64').subarray(1).toString('base64');
+
+      expect(() => assembleChunks(manifest, blobs)).toThrow('Chunk 0 (job-0) does not match its hash in the manifest');
+    });
+
+    it('rejects chunks out of order', () => {
+      const { manifest, blobs } = split();
+      [blobs[0], blobs[1]] = [blobs[1], blobs[0]];
+
+      expect(() => assembleChunks(manifest, blobs)).toThrow('Blob job-0 is not chunk 0 of the payload');
+    });
+
+    it('rejects a blob that is not a chunk', () => {
+      const { manifest, blobs } = split();
+      blobs[2] = { type: 'log_batch', logs: [] };
+
+      expect(() => assembleChunks(manifest, blobs)).toThrow('Blob job-2 is not chunk 2 of the payload');
+    });
+
+    it('rejects a missing chunk', () => {
+      const { manifest, blobs } = split();
+
+      expect(() => assembleChunks(manifest, blobs.slice(1))).toThrow(
+        `Expected ${blobs.length} chunks, got ${blobs.length - 1}`
+      );
+    });
+
+    it('rejects chunks that match their own hashes but not the whole payload', () => {
+      const { manifest, blobs } = split();
+      const other = split(CONTENT.replace('héllo', 'hallo'));
+
+      expect(() => assembleChunks({ ...other.manifest, hash: manifest.hash, size: manifest.size }, other.blobs)).toThrow(
+        'Reassembled payload does not match its hash in the manifest'
+      );
+      expect(() => assembleChunks({ ...manifest, algorithm: 'md5' as 'sha256' }, blobs)).toThrow(
+        'Unsupported chunk hash algorithm: md5'
+      );
+    });
+  });
+
+  describe('mapWithConcurrency', () => {
+    it('keeps at most the limit in flight and returns results in order', async () => {
+      let inFlight = 0;
+      let maxInFlight = 0;
+      const results = await mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 3, async item => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise(resolve => setTimeout(resolve, 10 - item));
+        inFlight--;
+        return item * 2;
+      });
+
+      expect(maxInFlight).toBe(3);
+      expect(results).toEqual([0, 2, 4, 6, 8, 10, 12, 14, 16, 18]);
+    });
+
+    it('stops starting items after the first failure', async () => {
+      const started: number[] = [];
+      await expect(
+        mapWithConcurrency(Array.from({ length: 10 }, (_, i) => i), 2, async item => {
+          started.push(item);
+          if (item === 1) {
+            throw new Error('upload failed');
+          }
+          await new Promise(resolve => setTimeout(resolve, 5));
+          return item;
+        })
+      ).rejects.toThrow('upload failed');
+
+      expect(started).toEqual([0, 1]);
+    });
+  });
+});
+
+describe('EigenDAAdapter with chunked posts', () => {
+  let server: LocalEigenDAServer;
+  let client: LocalEigenDAClient;
+  let adapter: EigenDAAdapter;
+  let jobIds: string[];
+
+  beforeEach(async () => {
+    server = new LocalEigenDAServer({ maxBlobSize: MAX_BLOB_SIZE });
+    client = new LocalEigenDAClient(await server.start(), { pollInterval: 10 });
+    adapter = new EigenDAAdapter({ client, maxBlobSize: MAX_BLOB_SIZE, chunkConcurrency: 2 });
+    jobIds = [];
+    adapter.events.on('upload', ({ jobId }) => jobIds.push(jobId));
+    await adapter.initialize(0);
+  });
+
+  afterEach(async () => {
+    await adapter.shutdown();
+    await server.stop();
+  });
+
+  it('splits a large post into chunks and a manifest, and reads it back whole', async () => {
+    const data = { text: 'x'.repeat(3000) };
+    const { jobId } = await adapter.post(data);
+
+    expect(jobIds.length).toBeGreaterThan(2);
+    expect(jobIds[jobIds.length - 1]).toBe(jobId);
+    expect(isChunkManifest(JSON.parse(await client.retrieve({ jobId })))).toBe(true);
+    expect(await adapter.get(jobId)).toEqual(data);
+  });
+
+  it('returns nothing for a post with a corrupted chunk', async () => {
+    const { jobId } = await adapter.post({ text: 'x'.repeat(3000) });
+    const corrupted = jobIds[1];
+    const retrieve = client.retrieve.bind(client);
+    jest.spyOn(client, 'retrieve').mockImplementation(async options => {
+      const content = await retrieve(options);
+      if (options.jobId !== corrupted) {
+        return content;
+      }
+      const chunk = JSON.parse(content);
+      chunk.data = Buffer.from('y'.repeat(Buffer.from(chunk.data, 'base64').length)).toString('base64');
+      return JSON.stringify(chunk);
+    });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    try {
+      expect(await adapter.get(jobId)).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(
+        'Error retrieving data:',
+        expect.objectContaining({ message: expect.stringContaining(`(${corrupted}) does not match its hash`) })
+      );
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+
+  it('rejects a post whose manifest would not fit in one blob before uploading anything', async () => {
+    const upload = jest.spyOn(client, 'upload');
+    const data = { text: 'x'.repeat(20000) };
+
+    await expect(adapter.estimateCost(data)).rejects.toThrow(/whose manifest of \d+ bytes exceeds the maximum blob size of 1024 bytes/);
+    await expect(adapter.post(data)).rejects.toThrow(/whose manifest of \d+ bytes exceeds the maximum blob size/);
+    expect(upload).not.toHaveBeenCalled();
+    expect(adapter.getBudgetUsage().reserved).toBe(0);
+  });
+
+  it('rejects an upload whose result has no job ID', async () => {
+    jest.spyOn(client, 'upload').mockResolvedValue({} as { jobId: string; job_id: string });
+
+    await expect(adapter.post({ text: 'short' })).rejects.toThrow('Upload result has no job ID');
+    expect(jobIds).toEqual([]);
+  });
+
+  it('accepts a job ID returned as job_id only', async () => {
+    const upload = client.upload.bind(client);
+    jest.spyOn(client, 'upload').mockImplementation(async (content, identifier) => {
+      const { job_id } = await upload(content, identifier);
+      return { job_id } as { jobId: string; job_id: string };
+    });
+
+    const { jobId } = await adapter.post({ text: 'short' });
+    expect(jobIds).toEqual([jobId]);
+    expect(await adapter.get(jobId)).toEqual({ text: 'short' });
+  });
+
+  it('has the local server refuse blobs past its maxBlobSize with a 413', async () => {
+    await expect(client.upload('x'.repeat(MAX_BLOB_SIZE + 1), adapter.getIdentifier())).rejects.toMatchObject({
+      status: 413,
+    });
+    await expect(client.upload('x'.repeat(MAX_BLOB_SIZE + 1), adapter.getIdentifier())).rejects.toThrow(HttpStatusError);
+  });
+});
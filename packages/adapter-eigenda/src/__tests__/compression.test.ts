@@ -0,0 +1,86 @@
+import { EigenDAAdapter } from '../EigenDAAdapter';
+import { BlobCompression, CompressedBlob, compressBlob, decompressBlob, isCompressedBlob } from '../compression';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+
+const CONTENT = JSON.stringify({ logs: Array.from({ length: 200 }, (_, i) => ({ message: 'tool call finished', i })) });
+
+describe('blob compression', () => {
+  it.each<BlobCompression>(['gzip', 'brotli'])('round-trips content with %s', async encoding => {
+    const serialized = await compressBlob(CONTENT, encoding);
+    const blob = JSON.parse(serialized);
+
+    expect(isCompressedBlob(blob)).toBe(true);
+    expect(blob.encoding).toBe(encoding);
+    expect(serialized.length).toBeLessThan(CONTENT.length);
+    expect(await decompressBlob(blob, CONTENT.length)).toBe(CONTENT);
+  });
+
+  it('leaves content unchanged when compressing would not shrink it', async () => {
+    expect(await compressBlob('{"a":1}', 'gzip')).toBe('{"a":1}');
+  });
+
+  it('rejects unsupported compression and encodings, including inherited property names', async () => {
+    await expect(compressBlob(CONTENT, 'zstd' as BlobCompression)).rejects.toThrow('Unsupported compression: zstd');
+    const blob = JSON.parse(await compressBlob(CONTENT, 'gzip'));
+    await expect(decompressBlob({ ...blob, encoding: 'toString' }, CONTENT.length)).rejects.toThrow(
+      'Unsupported blob encoding: toString'
+    );
+  });
+
+  it.each<BlobCompression>(['gzip', 'brotli'])(
+    'refuses %s content that decompresses past the limit',
+    async encoding => {
+      const bomb = JSON.parse(await compressBlob(JSON.stringify({ padding: '0'.repeat(1024 * 1024) }), encoding));
+      expect(bomb.data.length).toBeLessThan(10 * 1024);
+      await expect(decompressBlob(bomb, 64 * 1024)).rejects.toThrow(
+        `Compressed blob decompresses to more than ${64 * 1024} bytes`
+      );
+    }
+  );
+
+  it('rejects corrupted data', async () => {
+    const blob: CompressedBlob = JSON.parse(await compressBlob(CONTENT, 'gzip'));
+    const bytes = Buffer.from(blob.data, 'base64');
+    bytes.fill(0xff, 10, 30);
+    await expect(decompressBlob({ ...blob, data: bytes.toString('base64') }, CONTENT.length)).rejects.toThrow();
+  });
+});
+
+describe('EigenDAAdapter with compression', () => {
+  let server: LocalEigenDAServer;
+  let client: LocalEigenDAClient;
+
+  beforeEach(async () => {
+    server = new LocalEigenDAServer();
+    client = new LocalEigenDAClient(await server.start(), { pollInterval: 10 });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('reads compressed blobs whatever its own setting, up to maxDecompressedSize', async () => {
+    const data = { padding: '0'.repeat(256 * 1024) };
+    const writer = new EigenDAAdapter({ client, compression: 'brotli' });
+    const reader = new EigenDAAdapter({ client });
+    const guarded = new EigenDAAdapter({ client, maxDecompressedSize: 64 * 1024 });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await writer.initialize(0);
+      const { jobId } = await writer.post(data);
+
+      expect(await reader.get(jobId)).toEqual(data);
+      expect(await guarded.get(jobId)).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(
+        'Error retrieving data:',
+        expect.objectContaining({ message: `Compressed blob decompresses to more than ${64 * 1024} bytes` })
+      );
+    } finally {
+      consoleError.mockRestore();
+      await writer.shutdown();
+      await reader.shutdown();
+      await guarded.shutdown();
+    }
+  });
+});
@@ -0,0 +1,195 @@
+import { generateKeyPairSync, randomBytes } from 'crypto';
+import { EigenDAAdapter } from '../EigenDAAdapter';
+import {
+  EncryptedEnvelope,
+  EnvelopeKey,
+  decryptEnvelope,
+  encryptEnvelope,
+  isEncryptedEnvelope,
+  validateEnvelopeConfig
+} from '../encryption';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+
+const PLAINTEXT = JSON.stringify({ message: 'agent answered', metadata: { userId: 'user-1' } });
+
+function secretKey(keyId: string): EnvelopeKey {
+  return { keyId, secretKey: randomBytes(32).toString('base64') };
+}
+
+function rsaKey(keyId: string): Required<Pick<EnvelopeKey, 'keyId' | 'publicKey' | 'privateKey'>> {
+  const { publicKey, privateKey } = generateKeyPairSync('rsa', {
+    modulusLength: 2048,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' },
+  });
+  return { keyId, publicKey, privateKey };
+}
+
+// Flip the first bit of a base64 value
+function flip(value: string): string {
+  const bytes = Buffer.from(value, 'base64');
+  bytes[0] = bytes[0]! ^ 0x01;
+  return bytes.toString('base64');
+}
+
+describe('envelope encryption', () => {
+  const secret = secretKey('secret-1');
+  const rsa = rsaKey('rsa-1');
+
+  it('round-trips a payload for a secret key and an RSA key', () => {
+    const envelope = encryptEnvelope(PLAINTEXT, [secret, { keyId: rsa.keyId, publicKey: rsa.publicKey }]);
+
+    expect(isEncryptedEnvelope(envelope)).toBe(true);
+    expect(envelope.ciphertext).not.toContain('agent answered');
+    expect(envelope.recipients.map(({ keyId, algorithm }) => [keyId, algorithm])).toEqual([
+      ['secret-1', 'A256GCM'],
+      ['rsa-1', 'RSA-OAEP-256'],
+    ]);
+    expect(decryptEnvelope(envelope, [secret])).toBe(PLAINTEXT);
+    expect(decryptEnvelope(envelope, [{ keyId: rsa.keyId, privateKey: rsa.privateKey }])).toBe(PLAINTEXT);
+  });
+
+  it('encrypts the same payload differently every time', () => {
+    const first = encryptEnvelope(PLAINTEXT, [secret]);
+    const second = encryptEnvelope(PLAINTEXT, [secret]);
+    expect(first.ciphertext).not.toBe(second.ciphertext);
+    expect(first.recipients[0]!.wrappedKey).not.toBe(second.recipients[0]!.wrappedKey);
+  });
+
+  it('requires a recipient', () => {
+    expect(() => encryptEnvelope(PLAINTEXT, [])).toThrow('At least one encryption recipient is required');
+  });
+
+  describe('wrong or missing keys', () => {
+    const envelope = encryptEnvelope(PLAINTEXT, [secret, { keyId: rsa.keyId, publicKey: rsa.publicKey }]);
+
+    it('names the key IDs the blob was encrypted for when no key matches', () => {
+      expect(() => decryptEnvelope(envelope, [])).toThrow(
+        'No decryption key for this blob, which was encrypted for: secret-1, rsa-1'
+      );
+      expect(() => decryptEnvelope(envelope, [secretKey('secret-2')])).toThrow('No decryption key');
+    });
+
+    it('fails with a different key under a matching ID', () => {
+      expect(() => decryptEnvelope(envelope, [secretKey('secret-1')])).toThrow(
+        'Failed to decrypt blob with any matching key'
+      );
+      expect(() => decryptEnvelope(envelope, [{ keyId: 'rsa-1', privateKey: rsaKey('rsa-1').privateKey }])).toThrow(
+        'Failed to decrypt blob with any matching key'
+      );
+    });
+
+    it('fails with an RSA key that has no private half', () => {
+      expect(() => decryptEnvelope(envelope, [{ keyId: rsa.keyId, publicKey: rsa.publicKey }])).toThrow(
+        'Key rsa-1 has no private key to unwrap an RSA-OAEP-256 data key'
+      );
+    });
+
+    it('tries every key sharing an ID until one decrypts', () => {
+      expect(decryptEnvelope(envelope, [secretKey('secret-1'), secret])).toBe(PLAINTEXT);
+    });
+
+    it('decrypts with a key rotated out of the recipients', async () => {
+      const rotated = secretKey('secret-2');
+      const server = new LocalEigenDAServer();
+      const client = new LocalEigenDAClient(await server.start(), { pollInterval: 10 });
+      const writer = new EigenDAAdapter({ client, encryption: { recipients: [secret] } });
+      const reader = new EigenDAAdapter({ client, encryption: { recipients: [rotated], decryptionKeys: [secret] } });
+      try {
+        await writer.initialize(0);
+        await reader.initialize(0);
+        const { jobId } = await writer.post({ report: 'quarterly' });
+        expect(await reader.get(jobId)).toEqual({ report: 'quarterly' });
+      } finally {
+        await writer.shutdown();
+        await reader.shutdown();
+        await server.stop();
+      }
+    });
+  });
+
+  describe('tampering', () => {
+    const envelope = encryptEnvelope(PLAINTEXT, [secret]);
+
+    it.each<[string, (envelope: EncryptedEnvelope) => EncryptedEnvelope]>([
+      ['ciphertext', e => ({ ...e, ciphertext: flip(e.ciphertext) })],
+      ['authentication tag', e => ({ ...e, tag: flip(e.tag) })],
+      ['IV', e => ({ ...e, iv: flip(e.iv) })],
+      ['wrapped data key', e => ({ ...e, recipients: [{ ...e.recipients[0]!, wrappedKey: flip(e.recipients[0]!.wrappedKey) }] })],
+      ['wrapping tag', e => ({ ...e, recipients: [{ ...e.recipients[0]!, tag: flip(e.recipients[0]!.tag!) }] })],
+    ])('rejects a tampered %s', (_field, tamper) => {
+      expect(() => decryptEnvelope(tamper(envelope), [secret])).toThrow('Failed to decrypt blob with any matching key');
+    });
+
+    it('rejects a data key relabelled for another secret key ID', () => {
+      const other = { ...secret, keyId: 'secret-1-copy' };
+      const relabelled = { ...envelope, recipients: [{ ...envelope.recipients[0]!, keyId: other.keyId }] };
+      expect(() => decryptEnvelope(relabelled, [other])).toThrow('Failed to decrypt blob with any matching key');
+    });
+  });
+
+  describe('validateEnvelopeConfig', () => {
+    it('accepts secret and RSA keys', () => {
+      expect(() => validateEnvelopeConfig({ recipients: [secret, rsa], decryptionKeys: [secretKey('old')] })).not.toThrow();
+    });
+
+    it.each<[string, EnvelopeKey[], EnvelopeKey[] | undefined, string]>([
+      ['no recipients', [], undefined, 'At least one encryption recipient is required'],
+      ['a recipient without key material', [{ keyId: 'empty' }], undefined, 'Encryption key empty needs a secretKey'],
+      ['a short secret key', [{ keyId: 'short', secretKey: randomBytes(16) }], undefined, 'must be 32 bytes, got 16'],
+      ['a short decryption key', [secret], [{ keyId: 'old', secretKey: 'c2hvcnQ=' }], 'must be 32 bytes, got 5'],
+    ])('rejects %s', (_name, recipients, decryptionKeys, message) => {
+      expect(() => validateEnvelopeConfig({ recipients, decryptionKeys })).toThrow(message);
+    });
+  });
+});
+
+describe('EigenDAAdapter with encryption', () => {
+  let server: LocalEigenDAServer;
+  let client: LocalEigenDAClient;
+  const key = secretKey('team-key');
+
+  beforeEach(async () => {
+    server = new LocalEigenDAServer();
+    client = new LocalEigenDAClient(await server.start(), { pollInterval: 10 });
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  it('stores only ciphertext and returns nothing to a reader without the key', async () => {
+    const uploaded: string[] = [];
+    const upload = client.upload.bind(client);
+    jest.spyOn(client, 'upload').mockImplementation((content, identifier) => {
+      uploaded.push(content);
+      return upload(content, identifier);
+    });
+
+    const writer = new EigenDAAdapter({ client, encryption: { recipients: [key] } });
+    const stranger = new EigenDAAdapter({ client, encryption: { recipients: [secretKey('team-key')] } });
+    const plain = new EigenDAAdapter({ client });
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      await writer.initialize(0);
+      const { jobId } = await writer.post({ secret: 'launch codes' });
+
+      expect(uploaded).toHaveLength(1);
+      expect(uploaded[0]).not.toContain('launch codes');
+      expect(isEncryptedEnvelope(JSON.parse(uploaded[0]!))).toBe(true);
+      expect(await writer.get(jobId)).toEqual({ secret: 'launch codes' });
+      expect(await stranger.get(jobId)).toBeNull();
+      expect(await plain.get(jobId)).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(
+        'Error retrieving data:',
+        expect.objectContaining({ message: `Blob ${jobId} is encrypted, but no encryption keys are configured` })
+      );
+    } finally {
+      consoleError.mockRestore();
+      await writer.shutdown();
+      await stranger.shutdown();
+      await plain.shutdown();
+    }
+  });
+});
@@ -0,0 +1,143 @@
+import { PrometheusMetricsRegistry, TypedEventEmitter } from '@layr-labs/agentkit';
+import { EigenDAAdapter } from '../EigenDAAdapter';
+import { EigenDAAdapterEvents, bindEigenDAMetrics } from '../events';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+
+function sampleValue(registry: PrometheusMetricsRegistry, sample: string): number | undefined {
+  const line = registry.metrics().split('\n').find(candidate => candidate.startsWith(`${sample} `));
+  return line === undefined ? undefined : Number(line.slice(sample.length + 1));
+}
+
+describe('bindEigenDAMetrics', () => {
+  let events: TypedEventEmitter<EigenDAAdapterEvents>;
+  let registry: PrometheusMetricsRegistry;
+
+  beforeEach(() => {
+    events = new TypedEventEmitter<EigenDAAdapterEvents>();
+    registry = new PrometheusMetricsRegistry();
+    bindEigenDAMetrics(events, registry);
+  });
+
+  it('tracks buffered logs as they are added, taken by a flush and put back after a failure', () => {
+    events.emit('log:buffered', { buffered: 3 });
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(3);
+
+    events.emit('flush:start', { logs: 3 });
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(0);
+
+    events.emit('flush:failure', {
+      logs: 3,
+      error: new Error('unavailable'),
+      consecutiveFailures: 1,
+      retryInMs: 1000,
+      durationMs: 250,
+      buffered: 4,
+    });
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(4);
+
+    events.emit('flush:success', { logs: 4, batches: 1, durationMs: 1500, buffered: 0, estimatedCost: 2 });
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(0);
+    expect(sampleValue(registry, 'eigenda_flushes_total{result="failure"}')).toBe(1);
+    expect(sampleValue(registry, 'eigenda_flushes_total{result="success"}')).toBe(1);
+    expect(sampleValue(registry, 'eigenda_flush_duration_seconds_sum{result="success"}')).toBe(1.5);
+    expect(sampleValue(registry, 'eigenda_flush_duration_seconds_bucket{result="failure",le="0.25"}')).toBe(1);
+  });
+
+  it('records uploads, dead letters, balances and budget limits', () => {
+    events.emit('upload', { jobId: 'job-1', bytes: 100, durationMs: 2000, estimatedCost: 0.5 });
+    events.emit('upload', { jobId: 'job-2', bytes: 50, durationMs: 1000, estimatedCost: 0.25 });
+    events.emit('dead-letter', { logs: 2, error: 'rejected' });
+    events.emit('balance', { balance: 0.001 });
+    events.emit('balance-low', { balance: 0.001, minBalance: 0.01 });
+    events.emit('balance-low', { balance: 0.001, minBalance: 0.01, toppedUp: 0.01 });
+    events.emit('budget:soft-limit', { spent: 10, reserved: 0, estimatedCost: 1, softLimit: 10 });
+    events.emit('budget:hard-limit', { spent: 20, reserved: 0, estimatedCost: 1, hardLimit: 20 });
+    events.emit('budget:hard-limit', { spent: 20, reserved: 0, estimatedCost: 1, hardLimit: 20 });
+
+    expect(sampleValue(registry, 'eigenda_uploads_total')).toBe(2);
+    expect(sampleValue(registry, 'eigenda_uploaded_bytes_total')).toBe(150);
+    expect(sampleValue(registry, 'eigenda_upload_duration_seconds_count')).toBe(2);
+    expect(sampleValue(registry, 'eigenda_estimated_cost_total')).toBe(0.75);
+    expect(sampleValue(registry, 'eigenda_dead_letters_total')).toBe(2);
+    expect(sampleValue(registry, 'eigenda_balance')).toBe(0.001);
+    expect(sampleValue(registry, 'eigenda_balance_low_total')).toBe(2);
+    expect(sampleValue(registry, 'eigenda_balance_topups_total')).toBe(1);
+    expect(sampleValue(registry, 'eigenda_budget_limit_reached_total{limit="soft"}')).toBe(1);
+    expect(sampleValue(registry, 'eigenda_budget_limit_reached_total{limit="hard"}')).toBe(2);
+  });
+});
+
+describe('EigenDAAdapter events', () => {
+  let server: LocalEigenDAServer;
+  let registry: PrometheusMetricsRegistry;
+  let adapter: EigenDAAdapter;
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    server = new LocalEigenDAServer();
+    registry = new PrometheusMetricsRegistry();
+    adapter = new EigenDAAdapter({
+      client: new LocalEigenDAClient(await server.start(), { pollInterval: 10 }),
+      flushInterval: 60_000,
+      flushRetryDelay: 10,
+      metrics: registry,
+    });
+    await adapter.initialize(0);
+  });
+
+  afterEach(async () => {
+    await adapter.shutdown();
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  it('reports each log as it is buffered, then the flush that uploads it', async () => {
+    const seen: string[] = [];
+    const buffered: number[] = [];
+    adapter.events.on('log:buffered', event => buffered.push(event.buffered));
+    for (const name of ['flush:start', 'upload', 'flush:success'] as const) {
+      adapter.events.on(name, () => seen.push(name));
+    }
+
+    const logs = [adapter.info('first'), adapter.info('second')];
+    expect(buffered).toEqual([1, 2]);
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(2);
+
+    await adapter.shutdown();
+    await Promise.all(logs);
+
+    expect(seen).toEqual(['flush:start', 'upload', 'flush:success']);
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(0);
+    expect(sampleValue(registry, 'eigenda_uploads_total')).toBe(1);
+  });
+
+  it('reports a log withdrawn from the buffer', async () => {
+    const controller = new AbortController();
+    const kept = adapter.info('kept');
+    const cancelled = adapter.log('cancelled', { signal: controller.signal });
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(2);
+
+    controller.abort();
+    await expect(cancelled).rejects.toThrow('Log was cancelled before it was stored');
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(1);
+
+    await adapter.shutdown();
+    await kept;
+  });
+
+  it('reports a failed flush with the logs put back in the buffer', async () => {
+    const failures: EigenDAAdapterEvents['flush:failure'][] = [];
+    adapter.events.on('flush:failure', event => failures.push(event));
+    server.injectFault({ operation: 'upload', status: 500, times: 1 });
+
+    const log = adapter.info('retried');
+    await adapter.shutdown();
+    await log;
+
+    expect(failures).toEqual([expect.objectContaining({ logs: 1, consecutiveFailures: 1, buffered: 1 })]);
+    expect(sampleValue(registry, 'eigenda_flushes_total{result="failure"}')).toBe(1);
+    expect(sampleValue(registry, 'eigenda_flushes_total{result="success"}')).toBe(1);
+    expect(sampleValue(registry, 'eigenda_buffered_logs')).toBe(0);
+  });
+});
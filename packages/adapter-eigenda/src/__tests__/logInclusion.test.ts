@@ -0,0 +1,104 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DALogEntry } from '@layr-labs/agentkit';
+import { EigenDAAdapter } from '../EigenDAAdapter';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+import { formatLogEntryId, parseLogEntryId, verifyLogInclusion } from '../logInclusion';
+
+describe('parseLogEntryId', () => {
+  it('splits a batched entry ID into its job ID and index', () => {
+    expect(parseLogEntryId(formatLogEntryId('job:with:colons', 12))).toEqual({ jobId: 'job:with:colons', index: 12 });
+    expect(parseLogEntryId('job-1')).toEqual({ jobId: 'job-1' });
+  });
+});
+
+describe('verifyLogInclusion with EigenDAAdapter', () => {
+  let directory: string;
+  let storagePath: string;
+  let server: LocalEigenDAServer;
+  let adapter: EigenDAAdapter;
+  let entries: DALogEntry[];
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(join(tmpdir(), 'eigenda-inclusion-'));
+    storagePath = join(directory, 'state.json');
+    server = new LocalEigenDAServer({ storagePath });
+    adapter = new EigenDAAdapter({
+      client: new LocalEigenDAClient(await server.start(), { pollInterval: 10 }),
+      flushInterval: 50,
+    });
+    await adapter.initialize(0);
+
+    entries = await Promise.all(
+      ['started', 'called tool', 'answered', 'finished', 'cleaned up'].map((message, index) =>
+        adapter.log({ message, step: index }, { level: 'info', metadata: { runId: 'run-1', step: index }, tags: ['agent'] })
+      )
+    );
+  });
+
+  afterEach(async () => {
+    await adapter.shutdown();
+    await server.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('proves the inclusion of every log in its batch, as logged and as retrieved', async () => {
+    const jobId = parseLogEntryId(entries[0]!.id).jobId;
+    entries.forEach((entry, index) => {
+      expect(entry.id).toBe(formatLogEntryId(jobId, index));
+      expect(verifyLogInclusion(entry)).toBe(true);
+    });
+
+    const retrieved = await adapter.getLogEntry(entries[3]!.id);
+    expect(retrieved).toMatchObject({ id: entries[3]!.id, content: { message: 'finished', step: 3 } });
+    expect(verifyLogInclusion(retrieved!)).toBe(true);
+    expect(retrieved!.proof!.data).toEqual(entries[3]!.proof!.data);
+
+    const state = JSON.parse(await fs.readFile(storagePath, 'utf8'));
+    expect(JSON.parse(state.blobs[jobId].content).merkleRoot).toBe((entries[3]!.proof!.data as { root: string }).root);
+  });
+
+  it.each<[string, (entry: DALogEntry) => DALogEntry]>([
+    ['content', entry => ({ ...entry, content: { message: 'finished', step: 4 } })],
+    ['metadata', entry => ({ ...entry, options: { ...entry.options, metadata: { runId: 'run-2', step: 3 } } })],
+    ['level', entry => ({ ...entry, options: { ...entry.options, level: 'error' } })],
+    ['tags', entry => ({ ...entry, options: { ...entry.options, tags: [] } })],
+    ['timestamp', entry => ({ ...entry, timestamp: entry.timestamp + 1 })],
+    ['ID', entry => ({ ...entry, id: formatLogEntryId(parseLogEntryId(entry.id).jobId, 2) })],
+    ['proof type', entry => ({ ...entry, proof: { ...entry.proof!, type: 'other' } })],
+    ['proof job ID', entry => ({ ...entry, proof: { ...entry.proof!, metadata: { jobId: 'other-job' } } })],
+  ])('rejects an entry with tampered %s', async (_field, tamper) => {
+    const entry = (await adapter.getLogEntry(entries[3]!.id))!;
+    expect(verifyLogInclusion(tamper(entry))).toBe(false);
+  });
+
+  it('rejects an entry without a proof', () => {
+    expect(verifyLogInclusion({ ...entries[0]!, proof: undefined })).toBe(false);
+  });
+
+  it('returns no entry from a stored batch whose logs no longer match its Merkle root', async () => {
+    const port = Number(new URL(server.url).port);
+    await server.stop();
+    const state = JSON.parse(await fs.readFile(storagePath, 'utf8'));
+    const { jobId } = parseLogEntryId(entries[0]!.id);
+    const batch = JSON.parse(state.blobs[jobId].content);
+    batch.logs[1].data.message = 'called another tool';
+    state.blobs[jobId].content = JSON.stringify(batch);
+    await fs.writeFile(storagePath, JSON.stringify(state));
+    server = new LocalEigenDAServer({ storagePath, port });
+    await server.start();
+
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    try {
+      expect(await adapter.getLogEntry(entries[0]!.id)).toBeNull();
+      expect(consoleError).toHaveBeenCalledWith(
+        'Error retrieving log entry:',
+        expect.objectContaining({ message: `Merkle root mismatch for batch ${jobId}` })
+      );
+    } finally {
+      consoleError.mockRestore();
+    }
+  });
+});
@@ -0,0 +1,101 @@
+import {
+  MerkleInclusionProof,
+  computeMerkleRoot,
+  createInclusionProofs,
+  hashLeaf,
+  verifyInclusionProof
+} from '../merkle';
+
+// Leaves and roots of the Certificate Transparency test vectors for RFC 6962/9162 trees
+const VECTOR_LEAVES = [
+  '',
+  '00',
+  '10',
+  '2021',
+  '3031',
+  '40414243',
+  '5051525354555657',
+  '606162636465666768696a6b6c6d6e6f',
+].map(leaf => hashLeaf(Buffer.from(leaf, 'hex')));
+
+const VECTOR_ROOTS = [
+  '6e340b9cffb37a989ca544e6bb780a2c78901d3fb33738768511a30617afa01d',
+  'fac54203e7cc696cf0dfcb42c92a1d9dbaf70ad9e621f4bd8d98662f00e3c125',
+  'aeb6bcfe274b70a14fb067a5e5578264db0fa9b51af5e0ba159158f329e06e77',
+  'd37ee418976dd95753c1c73862b9398fa2a2cf9b4ff0fdfe8b30cd95209614b7',
+  '4e3bbb1f7b478dcfe71fb631631519a3bca12c9aefca1612bfce4c13a86264d4',
+  '76e67dadbcdf1e10e1b74ddc608abd2f98dfb16fbce75277b5232a127f2087ef',
+  'ddb89be403809e325750d3d263cd78929c2942b7942a34b77e122c9594a74c8c',
+  '5dc9da79a70659a9ad559cb701ded9a2ab9d823aad2f4960cfe370eff4604328',
+];
+
+function leaves(count: number): Buffer[] {
+  return Array.from({ length: count }, (_, i) => hashLeaf(`log ${i}`));
+}
+
+function flipFirstByte(hex: string): string {
+  return ((parseInt(hex.slice(0, 2), 16) ^ 0xff).toString(16).padStart(2, '0')) + hex.slice(2);
+}
+
+describe('Merkle tree', () => {
+  it.each(VECTOR_ROOTS.map((root, index) => [index + 1, root]))(
+    'matches the RFC 9162 root for %i leaves',
+    (count, root) => {
+      const tree = VECTOR_LEAVES.slice(0, count as number);
+      expect(computeMerkleRoot(tree)).toBe(root);
+      expect(createInclusionProofs(tree).every(proof => proof.root === root)).toBe(true);
+    }
+  );
+
+  it('refuses to compute the root of an empty tree', () => {
+    expect(() => computeMerkleRoot([])).toThrow();
+    expect(createInclusionProofs([])).toEqual([]);
+  });
+
+  it('verifies the inclusion proof of every leaf in trees of up to 33 leaves', () => {
+    for (let count = 1; count <= 33; count++) {
+      const tree = leaves(count);
+      const proofs = createInclusionProofs(tree);
+      expect(proofs).toHaveLength(count);
+      proofs.forEach((proof, index) => {
+        expect(proof).toMatchObject({ leafIndex: index, leafCount: count, root: computeMerkleRoot(tree) });
+        expect(verifyInclusionProof(tree[index]!, proof)).toBe(true);
+      });
+    }
+  });
+
+  describe('tampered proofs', () => {
+    const tree = leaves(11);
+    const proof = createInclusionProofs(tree)[6]!;
+    const leaf = tree[6]!;
+
+    it('rejects another leaf', () => {
+      expect(verifyInclusionProof(tree[5]!, proof)).toBe(false);
+      expect(verifyInclusionProof(hashLeaf('forged log'), proof)).toBe(false);
+    });
+
+    it('rejects an altered sibling or root', () => {
+      proof.siblings.forEach((_, index) => {
+        const siblings = [...proof.siblings];
+        siblings[index] = flipFirstByte(siblings[index]!);
+        expect(verifyInclusionProof(leaf, { ...proof, siblings })).toBe(false);
+      });
+      expect(verifyInclusionProof(leaf, { ...proof, root: flipFirstByte(proof.root) })).toBe(false);
+    });
+
+    it('rejects a missing or extra sibling', () => {
+      expect(verifyInclusionProof(leaf, { ...proof, siblings: proof.siblings.slice(1) })).toBe(false);
+      expect(verifyInclusionProof(leaf, { ...proof, siblings: proof.siblings.slice(0, -1) })).toBe(false);
+      expect(verifyInclusionProof(leaf, { ...proof, siblings: [...proof.siblings, proof.root] })).toBe(false);
+    });
+
+    it.each<[string, Partial<MerkleInclusionProof>]>([
+      ['another index', { leafIndex: 7 }],
+      ['a negative index', { leafIndex: -1 }],
+      ['an index past the end', { leafIndex: 11 }],
+      ['a leaf count that changes the path', { leafCount: 7 }],
+    ])('rejects %s', (_name, change) => {
+      expect(verifyInclusionProof(leaf, { ...proof, ...change })).toBe(false);
+    });
+  });
+});
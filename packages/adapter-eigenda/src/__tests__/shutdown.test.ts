@@ -0,0 +1,88 @@
+import { promises as fs } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { DALogStorageError } from '@layr-labs/agentkit';
+import { EigenDAAdapter, EigenDAAdapterConfig } from '../EigenDAAdapter';
+import { LocalEigenDAClient } from '../local/LocalEigenDAClient';
+import { LocalEigenDAServer } from '../local/LocalEigenDAServer';
+
+describe('EigenDAAdapter shutdown', () => {
+  let directory: string;
+  let server: LocalEigenDAServer;
+  let url: string;
+
+  async function createAdapter(config: Partial<EigenDAAdapterConfig> = {}): Promise<EigenDAAdapter> {
+    const adapter = new EigenDAAdapter({
+      client: new LocalEigenDAClient(url, { pollInterval: 10 }),
+      flushInterval: 60_000,
+      flushRetryDelay: 5_000,
+      ...config,
+    });
+    await adapter.initialize(0);
+    return adapter;
+  }
+
+  beforeEach(async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    directory = await fs.mkdtemp(join(tmpdir(), 'eigenda-shutdown-'));
+    server = new LocalEigenDAServer();
+    url = await server.start();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+    await fs.rm(directory, { recursive: true, force: true });
+    jest.restoreAllMocks();
+  });
+
+  it('retries failed flushes within the shutdown timeout', async () => {
+    const adapter = await createAdapter({ flushRetryDelay: 50, shutdownTimeout: 5_000 });
+    server.injectFault({ operation: 'upload', status: 500, times: 2 });
+
+    const log = adapter.info('retried');
+    await adapter.shutdown();
+
+    await expect(log).resolves.toMatchObject({ content: 'retried' });
+    await expect(adapter.getDeadLetters()).resolves.toEqual([]);
+  });
+
+  it('dead-letters the logs left once the next retry would start past the shutdown timeout', async () => {
+    const adapter = await createAdapter({ shutdownTimeout: 1_000 });
+    server.injectFault({ operation: 'upload', status: 500, times: 10 });
+
+    const log = adapter.info('abandoned');
+    const rejected = expect(log).rejects.toThrow(
+      new DALogStorageError('Failed to store log in EigenDA after 1 attempt(s): Adapter shut down before the log could be uploaded, after waiting 1000ms')
+    );
+    const started = Date.now();
+    await adapter.shutdown();
+
+    expect(Date.now() - started).toBeLessThan(5_000);
+    await rejected;
+    await expect(adapter.getDeadLetters()).resolves.toEqual([
+      expect.objectContaining({ data: 'abandoned', attempts: 1 }),
+    ]);
+  });
+
+  it('leaves the logs in the spool for the next initialize() to replay', async () => {
+    const spoolPath = join(directory, 'spool.log');
+    const adapter = await createAdapter({ spoolPath, shutdownTimeout: 1_000 });
+    server.injectFault({ operation: 'upload', status: 500, times: 1 });
+
+    const buffered = new Promise(resolve => adapter.events.once('log:buffered', resolve));
+    const rejected = expect(adapter.info('spooled')).rejects.toThrow(
+      new DALogStorageError('Adapter shut down before the log could be uploaded, after waiting 1000ms; it stays in the spool')
+    );
+    // The log is buffered once the spool has written it
+    await buffered;
+    await adapter.shutdown();
+
+    await rejected;
+    await expect(adapter.getDeadLetters()).resolves.toEqual([]);
+
+    const restarted = await createAdapter({ spoolPath, flushInterval: 50 });
+    const flushed = await new Promise<{ logs: number }>(resolve => restarted.events.once('flush:success', resolve));
+    await restarted.shutdown();
+    expect(flushed.logs).toBe(1);
+  });
+});
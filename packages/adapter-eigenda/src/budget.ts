@@ -0,0 +1,178 @@
+import { DALogStorageError } from '@layr-labs/agentkit';
+
+/**
+ * How uploads are priced, and how much may be spent on them
+ */
+export interface EigenDABudgetConfig {
+  /** Credits charged per byte uploaded (default: 0) */
+  costPerByte?: number;
+  /** Credits charged per blob uploaded (default: 0) */
+  costPerUpload?: number;
+  /** Spending past which a `budget:soft-limit` event is emitted, once per period */
+  softLimit?: number;
+  /** Spending that uploads are refused past, with a `BudgetExceededError` */
+  hardLimit?: number;
+  /** Length of each budget period in ms; spending starts again from 0 with each (default: one period that never ends) */
+  period?: number;
+}
+
+/**
+ * How the credit balance is watched while the adapter runs
+ */
+export interface BalanceMonitorConfig {
+  /** Balance below which credits are topped up, or `balance-low` is emitted */
+  threshold: number;
+  /** Credits added when the balance is below the threshold (default: none, only report it) */
+  topUpAmount?: number;
+  /** How often to check the balance (in ms), defaults to 60000 */
+  interval?: number;
+}
+
+/**
+ * Estimated size and cost of an upload
+ */
+export interface CostEstimate {
+  /** Total size of the blobs to upload */
+  bytes: number;
+  /** Number of blobs, more than one when a payload is split into chunks */
+  uploads: number;
+  /** Credits the upload is expected to cost */
+  cost: number;
+}
+
+/**
+ * Spending in the current budget period
+ */
+export interface BudgetUsage {
+  spent: number;
+  /** Estimated cost of uploads under way, held against the limits until they finish */
+  reserved: number;
+  softLimit?: number;
+  hardLimit?: number;
+  /** When the current period started, or undefined before anything is spent */
+  periodStart?: number;
+}
+
+/**
+ * The outcome of checking an upload against the budget
+ */
+export type BudgetCheck =
+  | { limit: 'none' }
+  | { limit: 'soft' | 'hard'; spent: number; reserved: number; estimatedCost: number; threshold: number };
+
+/**
+ * Thrown before an upload that would take spending past the hard limit
+ */
+export class BudgetExceededError extends DALogStorageError {
+  constructor(
+    message: string,
+    public readonly estimatedCost: number,
+    public readonly spent: number,
+    public readonly hardLimit: number,
+  ) {
+    super(message, { estimatedCost, spent, hardLimit });
+    this.name = 'BudgetExceededError';
+  }
+}
+
+/**
+ * Estimate the credits charged for uploading blobs
+ * @param bytes Total size of the blobs
+ * @param uploads Number of blobs
+ */
+export function estimateUploadCost(config: EigenDABudgetConfig, bytes: number, uploads = 1): number {
+  return bytes * (config.costPerByte ?? 0) + uploads * (config.costPerUpload ?? 0);
+}
+
+/**
+ * Tracks spending against soft and hard limits over fixed periods. Uploads that pass the check
+ * reserve their cost until they finish, so uploads running at once can't overshoot the limits.
+ */
+export class CreditBudget {
+  private spent = 0;
+  private reserved = 0;
+  private periodStart?: number;
+  private softLimitReported = false;
+
+  constructor(private readonly config: EigenDABudgetConfig) {
+    if (config.softLimit !== undefined && config.hardLimit !== undefined && config.softLimit > config.hardLimit) {
+      throw new Error(`Budget soft limit ${config.softLimit} is above the hard limit ${config.hardLimit}`);
+    }
+    if (config.period !== undefined && !(config.period > 0)) {
+      throw new Error(`Budget period must be positive, got ${config.period}`);
+    }
+  }
+
+  /**
+   * Estimate the credits charged for uploading blobs
+   */
+  estimate(bytes: number, uploads = 1): number {
+    return estimateUploadCost(this.config, bytes, uploads);
+  }
+
+  /**
+   * Check whether an upload would take spending past a limit, counting uploads still under way.
+   * Unless it would pass the hard limit, its cost is reserved until passed to `record()` or
+   * `release()`. The soft limit is only reported once per period.
+   */
+  check(estimatedCost: number): BudgetCheck {
+    this.rollPeriod();
+    const { softLimit, hardLimit } = this.config;
+    const { spent, reserved } = this;
+    const total = spent + reserved + estimatedCost;
+
+    if (hardLimit !== undefined && total > hardLimit) {
+      return { limit: 'hard', spent, reserved, estimatedCost, threshold: hardLimit };
+    }
+    this.reserved += estimatedCost;
+    if (softLimit !== undefined && total > softLimit && !this.softLimitReported) {
+      this.softLimitReported = true;
+      return { limit: 'soft', spent, reserved, estimatedCost, threshold: softLimit };
+    }
+    return { limit: 'none' };
+  }
+
+  /**
+   * Record credits spent on an upload
+   * @param reserved How much of the cost was reserved by `check()` (default: all of it)
+   */
+  record(cost: number, reserved = cost): void {
+    this.rollPeriod();
+    if (this.periodStart === undefined) {
+      this.periodStart = Date.now();
+    }
+    this.spent += cost;
+    this.release(reserved);
+  }
+
+  /**
+   * Release reserved credits that an upload did not spend, e.g. because it failed
+   */
+  release(cost: number): void {
+    this.reserved = Math.max(0, this.reserved - cost);
+  }
+
+  usage(): BudgetUsage {
+    this.rollPeriod();
+    return {
+      spent: this.spent,
+      reserved: this.reserved,
+      softLimit: this.config.softLimit,
+      hardLimit: this.config.hardLimit,
+      periodStart: this.periodStart,
+    };
+  }
+
+  /**
+   * Start a new period once the current one has ended
+   */
+  private rollPeriod(): void {
+    const { period } = this.config;
+    if (period === undefined || this.periodStart === undefined || Date.now() - this.periodStart < period) {
+      return;
+    }
+    this.spent = 0;
+    this.periodStart = undefined;
+    this.softLimitReported = false;
+  }
+}
@@ -0,0 +1,156 @@
+import { createHash } from 'crypto';
+
+// Room for a chunk's fields other than its data
+const CHUNK_OVERHEAD = 64;
+
+/**
+ * A piece of a payload too large for one blob
+ */
+export interface BlobChunk {
+  type: 'chunk';
+  /** Position of the chunk in the payload */
+  index: number;
+  /** Base64-encoded bytes of the payload */
+  data: string;
+}
+
+/**
+ * The blob uploaded for a payload split into chunks, listing the chunks in order
+ */
+export interface ChunkManifest {
+  type: 'chunked';
+  version: 1;
+  /** Hash algorithm used for every hash */
+  algorithm: 'sha256';
+  /** Size in bytes and hex-encoded hash of the reassembled payload */
+  size: number;
+  hash: string;
+  chunks: Array<{
+    jobId: string;
+    /** Size in bytes and hex-encoded hash of the chunk's payload bytes */
+    size: number;
+    hash: string;
+  }>;
+}
+
+/**
+ * A chunk ready for upload
+ */
+export interface PreparedChunk {
+  /** The serialized `BlobChunk` */
+  blob: string;
+  size: number;
+  hash: string;
+}
+
+/**
+ * Split a payload into chunks whose blobs each fit within the maximum blob size
+ */
+export function splitIntoChunks(content: string, maxBlobSize: number): PreparedChunk[] {
+  // Base64 turns every 3 bytes into 4 characters
+  const chunkSize = Math.floor((maxBlobSize - CHUNK_OVERHEAD) / 4) * 3;
+  if (chunkSize <= 0) {
+    throw new Error(`Maximum blob size of ${maxBlobSize} bytes is too small to chunk a payload`);
+  }
+
+  const bytes = Buffer.from(content, 'utf8');
+  const chunks: PreparedChunk[] = [];
+  for (let offset = 0, index = 0; offset < bytes.length; offset += chunkSize, index++) {
+    const data = bytes.subarray(offset, offset + chunkSize);
+    const chunk: BlobChunk = { type: 'chunk', index, data: data.toString('base64') };
+    chunks.push({ blob: JSON.stringify(chunk), size: data.length, hash: sha256(data) });
+  }
+  return chunks;
+}
+
+/**
+ * Build the manifest for a payload's uploaded chunks
+ * @param jobIds The job ID of each chunk, in order
+ */
+export function createChunkManifest(content: string, chunks: PreparedChunk[], jobIds: string[]): ChunkManifest {
+  const bytes = Buffer.from(content, 'utf8');
+  return {
+    type: 'chunked',
+    version: 1,
+    algorithm: 'sha256',
+    size: bytes.length,
+    hash: sha256(bytes),
+    chunks: chunks.map((chunk, index) => ({ jobId: jobIds[index]!, size: chunk.size, hash: chunk.hash })),
+  };
+}
+
+/**
+ * Reassemble a payload from its retrieved chunks, checking each chunk and the whole
+ * against the manifest
+ * @param chunks The retrieved chunk blobs, in manifest order
+ * @throws {Error} If a chunk is missing, out of place or altered
+ */
+export function assembleChunks(manifest: ChunkManifest, chunks: unknown[]): string {
+  if (manifest.algorithm !== 'sha256') {
+    throw new Error(`Unsupported chunk hash algorithm: ${String(manifest.algorithm)}`);
+  }
+  if (chunks.length !== manifest.chunks.length) {
+    throw new Error(`Expected ${manifest.chunks.length} chunks, got ${chunks.length}`);
+  }
+
+  const parts = manifest.chunks.map((expected, index) => {
+    const chunk = chunks[index] as Partial<BlobChunk> | undefined;
+    if (chunk?.type !== 'chunk' || chunk.index !== index || typeof chunk.data !== 'string') {
+      throw new Error(`Blob ${expected.jobId} is not chunk ${index} of the payload`);
+    }
+    const data = Buffer.from(chunk.data, 'base64');
+    if (data.length !== expected.size || sha256(data) !== expected.hash) {
+      throw new Error(`Chunk ${index} (${expected.jobId}) does not match its hash in the manifest`);
+    }
+    return data;
+  });
+
+  const bytes = Buffer.concat(parts);
+  if (bytes.length !== manifest.size || sha256(bytes) !== manifest.hash) {
+    throw new Error('Reassembled payload does not match its hash in the manifest');
+  }
+  return bytes.toString('utf8');
+}
+
+/**
+ * Whether a retrieved blob is a chunk manifest
+ */
+export function isChunkManifest(value: unknown): value is ChunkManifest {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const manifest = value as Partial<ChunkManifest>;
+  return manifest.type === 'chunked' && Array.isArray(manifest.chunks);
+}
+
+/**
+ * Map over items with at most `limit` calls in flight, stopping at the first failure
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+  let failed = false;
+
+  const worker = async (): Promise<void> => {
+    while (!failed && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index]!, index);
+      } catch (error) {
+        failed = true;
+        throw error;
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, worker));
+  return results;
+}
+
+function sha256(data: Buffer): string {
+  return createHash('sha256').update(data).digest('hex');
+}
@@ -0,0 +1,20 @@
+/**
+ * The parts of the eigenda-sdk client that the adapter uses. `EigenDAClient` satisfies it;
+ * other implementations, such as `LocalEigenDAClient`, can be passed as the adapter's `client`.
+ */
+export interface EigenDAClientLike {
+  /** List the identifiers owned by the account */
+  getIdentifiers(): Promise<Uint8Array[]>;
+  /** Create a new identifier for the account */
+  createIdentifier(): Promise<Uint8Array>;
+  /** Get the credit balance of an identifier */
+  getBalance(identifier: Uint8Array): Promise<number>;
+  /** Add credits to an identifier */
+  topupCredits(identifier: Uint8Array, amount: number): Promise<unknown>;
+  /** Upload a blob, returning the job that disperses it */
+  upload(content: string, identifier?: Uint8Array): Promise<{ jobId: string; [key: string]: unknown }>;
+  /** Get the status of an upload job, e.g. 'PENDING' or 'CONFIRMED' */
+  getStatus(jobId: string): Promise<unknown>;
+  /** Retrieve the blob uploaded by a job */
+  retrieve(options: { jobId: string; waitForCompletion?: boolean }): Promise<unknown>;
+}
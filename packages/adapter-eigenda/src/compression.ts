@@ -0,0 +1,84 @@
+import { brotliCompress, brotliDecompress, gunzip, gzip } from 'zlib';
+import { promisify } from 'util';
+
+const compressors = {
+  gzip: promisify(gzip),
+  brotli: promisify(brotliCompress),
+};
+
+const decompressors = {
+  gzip: promisify(gunzip),
+  brotli: promisify(brotliDecompress),
+};
+
+/**
+ * Compression applied to blobs before upload
+ */
+export type BlobCompression = keyof typeof compressors;
+
+/**
+ * The blob uploaded in place of the JSON content when it is compressed
+ */
+export interface CompressedBlob {
+  type: 'compressed';
+  encoding: BlobCompression;
+  /** Base64-encoded compressed content */
+  data: string;
+}
+
+/**
+ * Compress JSON content for upload
+ * @returns The compressed blob, serialized, or the content unchanged if compressing would not shrink it
+ */
+export async function compressBlob(content: string, compression: BlobCompression): Promise<string> {
+  const compress = lookup(compressors, compression);
+  if (!compress) {
+    throw new Error(`Unsupported compression: ${String(compression)}`);
+  }
+
+  const compressed: CompressedBlob = {
+    type: 'compressed',
+    encoding: compression,
+    data: (await compress(Buffer.from(content, 'utf8'))).toString('base64'),
+  };
+  const serialized = JSON.stringify(compressed);
+  return Buffer.byteLength(serialized) < Buffer.byteLength(content) ? serialized : content;
+}
+
+/**
+ * Decompress a retrieved blob back to its JSON content
+ * @param maxOutputLength Most bytes the content may decompress to, guarding against decompression bombs
+ * @throws {Error} If the content would decompress past `maxOutputLength`
+ */
+export async function decompressBlob(blob: CompressedBlob, maxOutputLength: number): Promise<string> {
+  const decompress = lookup(decompressors, blob.encoding);
+  if (!decompress) {
+    throw new Error(`Unsupported blob encoding: ${String(blob.encoding)}`);
+  }
+  try {
+    return (await decompress(Buffer.from(blob.data, 'base64'), { maxOutputLength })).toString('utf8');
+  } catch (error) {
+    if ((error as { code?: unknown }).code === 'ERR_BUFFER_TOO_LARGE') {
+      throw new Error(`Compressed blob decompresses to more than ${maxOutputLength} bytes`);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Whether a retrieved blob is compressed
+ */
+export function isCompressedBlob(value: unknown): value is CompressedBlob {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const blob = value as Partial<CompressedBlob>;
+  return blob.type === 'compressed' && typeof blob.encoding === 'string' && typeof blob.data === 'string';
+}
+
+/**
+ * Look up a codec by name, ignoring inherited properties such as 'toString'
+ */
+function lookup<T>(codecs: Record<BlobCompression, T>, name: string): T | undefined {
+  return Object.prototype.hasOwnProperty.call(codecs, name) ? codecs[name as BlobCompression] : undefined;
+}
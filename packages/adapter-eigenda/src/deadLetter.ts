@@ -0,0 +1,58 @@
+import { DALogOptions } from '@layr-labs/agentkit';
+
+/**
+ * A log that could not be stored in EigenDA
+ */
+export interface DeadLetter {
+  /** The logged data */
+  data: unknown;
+  /** Options the data was logged with */
+  options?: DALogOptions;
+  /** Timestamp when the log was created */
+  timestamp: number;
+  /** Number of upload attempts made */
+  attempts: number;
+  /** Why the log was given up on */
+  error: string;
+  /** Timestamp when the log was dead-lettered */
+  failedAt: number;
+}
+
+/**
+ * Destination for logs that exhausted their upload attempts
+ */
+export interface DeadLetterQueue {
+  /** Add a failed log */
+  push(letter: DeadLetter): void | Promise<void>;
+  /** List the failed logs without removing them */
+  list(): DeadLetter[] | Promise<DeadLetter[]>;
+  /** Remove and return every failed log, e.g. to replay them */
+  drain(): DeadLetter[] | Promise<DeadLetter[]>;
+}
+
+/**
+ * Dead-letter queue that keeps failed logs in memory
+ */
+export class InMemoryDeadLetterQueue implements DeadLetterQueue {
+  private letters: DeadLetter[] = [];
+
+  constructor(private readonly maxSize: number = 10000) {}
+
+  push(letter: DeadLetter): void {
+    this.letters.push(letter);
+    // Drop the oldest letters rather than grow without bound
+    if (this.letters.length > this.maxSize) {
+      this.letters.splice(0, this.letters.length - this.maxSize);
+    }
+  }
+
+  list(): DeadLetter[] {
+    return [...this.letters];
+  }
+
+  drain(): DeadLetter[] {
+    const letters = this.letters;
+    this.letters = [];
+    return letters;
+  }
+}
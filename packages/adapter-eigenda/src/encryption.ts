@@ -0,0 +1,226 @@
+import {
+  constants,
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  privateDecrypt,
+  publicEncrypt,
+  randomBytes,
+  KeyObject
+} from 'crypto';
+
+const DATA_KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+
+/**
+ * A key that data keys are wrapped for. Give either a `secretKey`, or an RSA key pair
+ * (either half is enough for the direction it is used in).
+ */
+export interface EnvelopeKey {
+  /** Identifier recorded in every blob the key wraps a data key for */
+  keyId: string;
+  /** 256-bit AES key that wraps data keys directly, as bytes or base64 */
+  secretKey?: Uint8Array | string;
+  /** RSA public key (PEM) to wrap data keys with */
+  publicKey?: string;
+  /** RSA private key (PEM) to unwrap data keys with */
+  privateKey?: string;
+}
+
+/**
+ * Envelope encryption settings for the EigenDA adapter
+ */
+export interface EnvelopeEncryptionConfig {
+  /** Keys the data key of each new blob is wrapped for; any one of them can decrypt it */
+  recipients: EnvelopeKey[];
+  /** Further keys that only decrypt, e.g. keys rotated out of `recipients` */
+  decryptionKeys?: EnvelopeKey[];
+}
+
+/**
+ * A data key wrapped for one recipient
+ */
+export interface WrappedDataKey {
+  keyId: string;
+  /** 'A256GCM' for secret keys, 'RSA-OAEP-256' for RSA keys */
+  algorithm: 'A256GCM' | 'RSA-OAEP-256';
+  /** Base64-encoded wrapped key */
+  wrappedKey: string;
+  /** Base64-encoded IV and tag, for 'A256GCM' */
+  iv?: string;
+  tag?: string;
+}
+
+/**
+ * The blob uploaded in place of the plaintext when encryption is enabled
+ */
+export interface EncryptedEnvelope {
+  type: 'encrypted';
+  version: 1;
+  algorithm: 'A256GCM';
+  /** Base64-encoded IV, ciphertext and authentication tag of the payload */
+  iv: string;
+  ciphertext: string;
+  tag: string;
+  /** The payload's data key, wrapped for each recipient */
+  recipients: WrappedDataKey[];
+}
+
+/**
+ * Encrypt a payload under a fresh AES-256-GCM data key, wrapped for each recipient
+ */
+export function encryptEnvelope(plaintext: string, recipients: EnvelopeKey[]): EncryptedEnvelope {
+  if (recipients.length === 0) {
+    throw new Error('At least one encryption recipient is required');
+  }
+
+  const dataKey = randomBytes(DATA_KEY_LENGTH);
+  const { iv, ciphertext, tag } = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  return {
+    type: 'encrypted',
+    version: 1,
+    algorithm: 'A256GCM',
+    iv,
+    ciphertext,
+    tag,
+    recipients: recipients.map(recipient => wrapDataKey(dataKey, recipient)),
+  };
+}
+
+/**
+ * Decrypt an envelope with each key whose ID it was wrapped for, until one succeeds
+ * @throws {Error} If none of the keys can unwrap the data key, or the payload was tampered with
+ */
+export function decryptEnvelope(envelope: EncryptedEnvelope, keys: EnvelopeKey[]): string {
+  // Several recipients and keys may share an ID, e.g. after a key is rotated under the same ID
+  const candidates = envelope.recipients.flatMap(wrapped =>
+    keys.filter(key => key.keyId === wrapped.keyId).map(key => ({ wrapped, key }))
+  );
+  if (candidates.length === 0) {
+    const keyIds = envelope.recipients.map(recipient => recipient.keyId).join(', ');
+    throw new Error(`No decryption key for this blob, which was encrypted for: ${keyIds}`);
+  }
+
+  const failures: string[] = [];
+  for (const { wrapped, key } of candidates) {
+    try {
+      return open(unwrapDataKey(wrapped, key), envelope).toString('utf8');
+    } catch (error) {
+      failures.push(`${key.keyId}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+  throw new Error(`Failed to decrypt blob with any matching key (${failures.join('; ')})`);
+}
+
+/**
+ * Whether a retrieved blob is an encrypted envelope
+ */
+export function isEncryptedEnvelope(value: unknown): value is EncryptedEnvelope {
+  if (!value || typeof value !== 'object') {
+    return false;
+  }
+  const envelope = value as Partial<EncryptedEnvelope>;
+  return envelope.type === 'encrypted' && typeof envelope.ciphertext === 'string' && Array.isArray(envelope.recipients);
+}
+
+/**
+ * Check that every key can be used, so misconfiguration fails at startup rather than on upload
+ */
+export function validateEnvelopeConfig(config: EnvelopeEncryptionConfig): void {
+  if (config.recipients.length === 0) {
+    throw new Error('At least one encryption recipient is required');
+  }
+  for (const key of config.recipients) {
+    if (key.secretKey === undefined && !key.publicKey && !key.privateKey) {
+      throw new Error(`Encryption key ${key.keyId} needs a secretKey, publicKey or privateKey`);
+    }
+  }
+  for (const key of [...config.recipients, ...(config.decryptionKeys ?? [])]) {
+    if (key.secretKey !== undefined) {
+      toSecretKey(key);
+    }
+  }
+}
+
+function wrapDataKey(dataKey: Buffer, recipient: EnvelopeKey): WrappedDataKey {
+  if (recipient.secretKey !== undefined) {
+    // Bind the wrapped key to its key ID, so it cannot be relabelled
+    const { iv, ciphertext, tag } = seal(toSecretKey(recipient), dataKey, Buffer.from(recipient.keyId));
+    return { keyId: recipient.keyId, algorithm: 'A256GCM', wrappedKey: ciphertext, iv, tag };
+  }
+
+  const publicKey = recipient.publicKey
+    ? createPublicKey(recipient.publicKey)
+    : recipient.privateKey
+      ? createPublicKey(createPrivateKey(recipient.privateKey))
+      : undefined;
+  if (!publicKey) {
+    throw new Error(`Encryption key ${recipient.keyId} needs a secretKey or publicKey`);
+  }
+  return {
+    keyId: recipient.keyId,
+    algorithm: 'RSA-OAEP-256',
+    wrappedKey: publicEncrypt(rsaOaep(publicKey), dataKey).toString('base64'),
+  };
+}
+
+function unwrapDataKey(wrapped: WrappedDataKey, key: EnvelopeKey): Buffer {
+  if (wrapped.algorithm === 'A256GCM') {
+    if (key.secretKey === undefined || !wrapped.iv || !wrapped.tag) {
+      throw new Error(`Key ${key.keyId} cannot unwrap an A256GCM data key`);
+    }
+    return open(
+      toSecretKey(key),
+      { iv: wrapped.iv, ciphertext: wrapped.wrappedKey, tag: wrapped.tag },
+      Buffer.from(key.keyId)
+    );
+  }
+
+  if (wrapped.algorithm === 'RSA-OAEP-256') {
+    if (!key.privateKey) {
+      throw new Error(`Key ${key.keyId} has no private key to unwrap an RSA-OAEP-256 data key`);
+    }
+    return privateDecrypt(rsaOaep(createPrivateKey(key.privateKey)), Buffer.from(wrapped.wrappedKey, 'base64'));
+  }
+
+  throw new Error(`Unsupported key wrapping algorithm: ${String(wrapped.algorithm)}`);
+}
+
+function seal(key: Buffer, plaintext: Buffer, aad?: Buffer): { iv: string; ciphertext: string; tag: string } {
+  const iv = randomBytes(IV_LENGTH);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  if (aad) {
+    cipher.setAAD(aad);
+  }
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return {
+    iv: iv.toString('base64'),
+    ciphertext: ciphertext.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+  };
+}
+
+function open(key: Buffer, sealed: { iv: string; ciphertext: string; tag: string }, aad?: Buffer): Buffer {
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.iv, 'base64'));
+  if (aad) {
+    decipher.setAAD(aad);
+  }
+  decipher.setAuthTag(Buffer.from(sealed.tag, 'base64'));
+  return Buffer.concat([decipher.update(Buffer.from(sealed.ciphertext, 'base64')), decipher.final()]);
+}
+
+function toSecretKey(key: EnvelopeKey): Buffer {
+  const secret = typeof key.secretKey === 'string'
+    ? Buffer.from(key.secretKey, 'base64')
+    : Buffer.from(key.secretKey ?? []);
+  if (secret.length !== DATA_KEY_LENGTH) {
+    throw new Error(`Encryption key ${key.keyId} must be ${DATA_KEY_LENGTH} bytes, got ${secret.length}`);
+  }
+  return secret;
+}
+
+function rsaOaep(key: KeyObject): { key: KeyObject; padding: number; oaepHash: string } {
+  return { key, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' };
+}
@@ -0,0 +1,112 @@
+import { IMetricsRegistry, TypedEventEmitter } from '@layr-labs/agentkit';
+
+// Uploads wait for EigenDA to accept the blob, which takes seconds rather than milliseconds
+const DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60, 120];
+
+/**
+ * Events emitted by `EigenDAAdapter`, keyed by name
+ */
+export interface EigenDAAdapterEvents {
+  /** A log was added to the buffer, or withdrawn from it before a flush took it */
+  'log:buffered': { buffered: number };
+  /** A flush took logs from the buffer */
+  'flush:start': { logs: number };
+  /** Every log taken by a flush was uploaded or dead-lettered */
+  'flush:success': { logs: number; batches: number; durationMs: number; buffered: number; estimatedCost: number };
+  /** A batch failed to upload; its logs are retried after `retryInMs`, unless out of attempts */
+  'flush:failure': {
+    logs: number;
+    error: unknown;
+    consecutiveFailures: number;
+    retryInMs: number;
+    durationMs: number;
+    buffered: number;
+  };
+  /** A blob was uploaded, at an estimated cost in credits */
+  'upload': { jobId: string; bytes: number; durationMs: number; estimatedCost: number };
+  /** Polling found a job in a different status than last seen */
+  'status-change': { jobId: string; status: string; previousStatus?: string };
+  /** The balance was checked */
+  'balance': { balance: number };
+  /** The balance was found below the minimum; `toppedUp` is the amount added, if any */
+  'balance-low': { balance: number; minBalance: number; toppedUp?: number };
+  /**
+   * An upload is going ahead although it takes spending past the soft limit; reported once per
+   * budget period. `reserved` is the estimated cost of other uploads under way.
+   */
+  'budget:soft-limit': { spent: number; reserved: number; estimatedCost: number; softLimit: number };
+  /** An upload was refused because it would take spending past the hard limit */
+  'budget:hard-limit': { spent: number; reserved: number; estimatedCost: number; hardLimit: number };
+  /** Logs ran out of upload attempts, or can never be uploaded, and were dead-lettered */
+  'dead-letter': { logs: number; error: string };
+}
+
+/**
+ * Record an adapter's events as metrics:
+ * - `eigenda_buffered_logs` (gauge): logs waiting in the buffer
+ * - `eigenda_flushes_total{result}` (counter): flushes by `success` or `failure`
+ * - `eigenda_flush_duration_seconds{result}` (histogram)
+ * - `eigenda_uploads_total`, `eigenda_uploaded_bytes_total` (counters)
+ * - `eigenda_upload_duration_seconds` (histogram)
+ * - `eigenda_estimated_cost_total` (counter): estimated credits spent on uploads
+ * - `eigenda_dead_letters_total` (counter)
+ * - `eigenda_balance` (gauge): the balance when last checked
+ * - `eigenda_balance_low_total`, `eigenda_balance_topups_total` (counters)
+ * - `eigenda_budget_limit_reached_total{limit}` (counter): uploads past the `soft` or `hard` limit
+ */
+export function bindEigenDAMetrics(events: TypedEventEmitter<EigenDAAdapterEvents>, registry: IMetricsRegistry): void {
+  const buffered = registry.gauge({ name: 'eigenda_buffered_logs', help: 'Logs waiting in the buffer' });
+  const flushes = registry.counter({ name: 'eigenda_flushes_total', help: 'Flushes by result', labelNames: ['result'] });
+  const flushDuration = registry.histogram({
+    name: 'eigenda_flush_duration_seconds',
+    help: 'Time taken by each flush',
+    labelNames: ['result'],
+    buckets: DURATION_BUCKETS,
+  });
+  const uploads = registry.counter({ name: 'eigenda_uploads_total', help: 'Blobs uploaded' });
+  const uploadedBytes = registry.counter({ name: 'eigenda_uploaded_bytes_total', help: 'Bytes of blobs uploaded' });
+  const uploadDuration = registry.histogram({
+    name: 'eigenda_upload_duration_seconds',
+    help: 'Time taken by each blob upload, including retries',
+    buckets: DURATION_BUCKETS,
+  });
+  const estimatedCost = registry.counter({ name: 'eigenda_estimated_cost_total', help: 'Estimated credits spent on uploads' });
+  const deadLetters = registry.counter({ name: 'eigenda_dead_letters_total', help: 'Logs moved to the dead-letter queue' });
+  const balance = registry.gauge({ name: 'eigenda_balance', help: 'Credit balance when last checked' });
+  const balanceLow = registry.counter({ name: 'eigenda_balance_low_total', help: 'Times the balance was below the minimum' });
+  const topUps = registry.counter({ name: 'eigenda_balance_topups_total', help: 'Credit top-ups made' });
+  const budgetLimits = registry.counter({
+    name: 'eigenda_budget_limit_reached_total',
+    help: 'Uploads past a budget limit',
+    labelNames: ['limit'],
+  });
+
+  events.on('log:buffered', event => buffered.set({}, event.buffered));
+  events.on('flush:start', () => buffered.set({}, 0));
+  events.on('flush:success', event => {
+    buffered.set({}, event.buffered);
+    flushes.inc({ result: 'success' });
+    flushDuration.observe({ result: 'success' }, event.durationMs / 1000);
+  });
+  events.on('flush:failure', event => {
+    buffered.set({}, event.buffered);
+    flushes.inc({ result: 'failure' });
+    flushDuration.observe({ result: 'failure' }, event.durationMs / 1000);
+  });
+  events.on('upload', event => {
+    uploads.inc();
+    uploadedBytes.inc({}, event.bytes);
+    uploadDuration.observe({}, event.durationMs / 1000);
+    estimatedCost.inc({}, event.estimatedCost);
+  });
+  events.on('dead-letter', event => deadLetters.inc({}, event.logs));
+  events.on('balance', event => balance.set({}, event.balance));
+  events.on('balance-low', event => {
+    balanceLow.inc();
+    if (event.toppedUp !== undefined) {
+      topUps.inc();
+    }
+  });
+  events.on('budget:soft-limit', () => budgetLimits.inc({ limit: 'soft' }));
+  events.on('budget:hard-limit', () => budgetLimits.inc({ limit: 'hard' }));
+}
@@ -1 +1,11 @@
-export * from './EigenDAAdapter'; 
\ No newline at end of file
+export * from './EigenDAAdapter';
+export * from './budget';
+export * from './chunking';
+export * from './client';
+export * from './compression';
+export * from './deadLetter';
+export * from './encryption';
+export * from './events';
+export * from './logInclusion';
+export * from './merkle';
+export * from './spool';
@@ -0,0 +1,136 @@
+import { HttpStatusError } from '@layr-labs/agentkit';
+import { EigenDAClientLike } from '../client';
+
+/**
+ * Options for the local EigenDA client
+ */
+export interface LocalEigenDAClientOptions {
+  /** How often to poll while waiting for a blob to be confirmed, in milliseconds (default: 100) */
+  pollInterval?: number;
+  /** Maximum polls while waiting for a blob to be confirmed (default: 600) */
+  maxPolls?: number;
+}
+
+/**
+ * Client for `LocalEigenDAServer`. Pass it as `EigenDAAdapter`'s `client` to run the
+ * adapter without the EigenDA network.
+ */
+export class LocalEigenDAClient implements EigenDAClientLike {
+  private readonly baseUrl: string;
+
+  constructor(
+    baseUrl: string,
+    private readonly options: LocalEigenDAClientOptions = {}
+  ) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+  }
+
+  async getIdentifiers(): Promise<Uint8Array[]> {
+    const { identifiers } = await this.request<{ identifiers: string[] }>('GET', '/identifiers');
+    return identifiers.map(fromHex);
+  }
+
+  async createIdentifier(): Promise<Uint8Array> {
+    const { identifier } = await this.request<{ identifier: string }>('POST', '/identifiers');
+    return fromHex(identifier);
+  }
+
+  async getBalance(identifier: Uint8Array): Promise<number> {
+    const { balance } = await this.request<{ balance: number }>(
+      'GET',
+      `/identifiers/${toHex(identifier)}/balance`
+    );
+    return balance;
+  }
+
+  async topupCredits(identifier: Uint8Array, amount: number): Promise<{ balance: number }> {
+    return this.request('POST', `/identifiers/${toHex(identifier)}/topup`, { amount });
+  }
+
+  async upload(content: string, identifier?: Uint8Array): Promise<{ jobId: string; job_id: string }> {
+    if (!identifier) {
+      throw new Error('An identifier is required to upload');
+    }
+    return this.request('POST', '/blobs', { content, identifier: toHex(identifier) });
+  }
+
+  async getStatus(jobId: string): Promise<string> {
+    const { status } = await this.request<{ status: string }>(
+      'GET',
+      `/blobs/${encodeURIComponent(jobId)}/status`
+    );
+    return status;
+  }
+
+  /**
+   * Poll a job until it reaches a status
+   * @param interval Seconds between checks
+   * @param initialDelay Seconds to wait before the first check
+   */
+  async waitForStatus(
+    jobId: string,
+    status: string,
+    maxChecks: number = 30,
+    interval: number = 20,
+    initialDelay: number = 0
+  ): Promise<string> {
+    await sleep(initialDelay * 1000);
+    for (let check = 1; check <= maxChecks; check++) {
+      const current = await this.getStatus(jobId);
+      if (current === status) {
+        return current;
+      }
+      if (check < maxChecks) {
+        await sleep(interval * 1000);
+      }
+    }
+    throw new Error(`Job ${jobId} did not reach ${status} after ${maxChecks} checks`);
+  }
+
+  async retrieve(options: { jobId: string; waitForCompletion?: boolean }): Promise<string> {
+    const { jobId, waitForCompletion } = options;
+    if (waitForCompletion) {
+      await this.waitForStatus(
+        jobId,
+        'CONFIRMED',
+        this.options.maxPolls ?? 600,
+        (this.options.pollInterval ?? 100) / 1000
+      );
+    }
+
+    const { content } = await this.request<{ content: string }>(
+      'GET',
+      `/blobs/${encodeURIComponent(jobId)}`
+    );
+    return content;
+  }
+
+  private async request<T>(method: string, path: string, body?: unknown): Promise<T> {
+    const response = await fetch(`${this.baseUrl}${path}`, {
+      method,
+      headers: body === undefined ? undefined : { 'Content-Type': 'application/json' },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    const result = await response.json().catch(() => ({})) as { error?: string };
+    if (!response.ok) {
+      throw new HttpStatusError(
+        `Local EigenDA request failed: ${result.error ?? response.statusText}`,
+        response.status
+      );
+    }
+    return result as T;
+  }
+}
+
+function toHex(identifier: Uint8Array): string {
+  return Buffer.from(identifier).toString('hex');
+}
+
+function fromHex(identifier: string): Uint8Array {
+  return new Uint8Array(Buffer.from(identifier, 'hex'));
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
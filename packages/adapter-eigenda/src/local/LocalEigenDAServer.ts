@@ -0,0 +1,244 @@
+import { IncomingMessage, ServerResponse } from 'http';
+import { promises as fs } from 'fs';
+import { randomBytes, randomUUID } from 'crypto';
+import { HttpStatusError } from '@layr-labs/agentkit';
+import {
+  LocalHttpFault,
+  LocalHttpServer,
+  LocalHttpServerOptions,
+  readJsonBody,
+  requestPath
+} from '@layr-labs/agentkit-testing';
+
+/**
+ * An operation of the local EigenDA API, used to target injected faults
+ */
+export type LocalEigenDAOperation =
+  | 'getIdentifiers'
+  | 'createIdentifier'
+  | 'getBalance'
+  | 'topup'
+  | 'upload'
+  | 'getStatus'
+  | 'retrieve';
+
+// EigenDA's maximum blob size
+const DEFAULT_MAX_BLOB_SIZE = 16 * 1024 * 1024;
+
+/**
+ * A failure the server returns instead of handling a request
+ */
+export type LocalEigenDAFault = LocalHttpFault<LocalEigenDAOperation>;
+
+/**
+ * Options for the local EigenDA server
+ */
+export interface LocalEigenDAServerOptions extends LocalHttpServerOptions {
+  /** JSON file that blobs and identifiers are kept in across restarts (default: memory only) */
+  storagePath?: string;
+  /** Milliseconds an upload stays PENDING before it is CONFIRMED (default: 0) */
+  confirmationDelay?: number;
+  /** Credits charged per upload (default: 0) */
+  uploadCost?: number;
+  /** Largest blob accepted, in bytes; larger uploads fail with a 413 (default: 16 MiB, as on EigenDA) */
+  maxBlobSize?: number;
+  /** Faults to inject from the start */
+  faults?: LocalEigenDAFault[];
+}
+
+/**
+ * Everything the server stores
+ */
+interface LocalEigenDAState {
+  /** Credit balance by hex-encoded identifier */
+  identifiers: Record<string, number>;
+  blobs: Record<string, { content: string; identifier: string; uploadedAt: number }>;
+}
+
+/**
+ * Local stand-in for the EigenDA API, for integration tests and offline demos.
+ * Stores blobs in memory or in a JSON file, confirms uploads after a configurable delay
+ * and can be told to fail requests. Talk to it with `LocalEigenDAClient`.
+ */
+export class LocalEigenDAServer extends LocalHttpServer<LocalEigenDAOperation> {
+  private state: LocalEigenDAState = { identifiers: {}, blobs: {} };
+  private saving: Promise<void> = Promise.resolve();
+
+  constructor(private readonly options: LocalEigenDAServerOptions = {}) {
+    super('Local EigenDA server', options);
+    options.faults?.forEach(fault => this.injectFault(fault));
+  }
+
+  /**
+   * Load any stored state before listening
+   */
+  protected override async beforeStart(): Promise<void> {
+    this.state = await this.load();
+  }
+
+  /**
+   * Finish pending writes to the storage file once stopped
+   */
+  protected override async afterStop(): Promise<void> {
+    await this.saving;
+  }
+
+  protected async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const { pathname, segments } = requestPath(request);
+    const route = this.route(request.method ?? 'GET', segments);
+    if (!route) {
+      this.respond(response, 404, { error: `No route for ${request.method} ${pathname}` });
+      return;
+    }
+
+    const fault = await this.takeFault(route.operation);
+    if (fault) {
+      this.respond(response, fault.status, { error: `Injected ${route.operation} failure` });
+      return;
+    }
+
+    const body = request.method === 'POST' ? await readJsonBody(request) : {};
+    this.respond(response, 200, await route.handler(body));
+  }
+
+  private route(
+    method: string,
+    segments: string[]
+  ): { operation: LocalEigenDAOperation; handler: (body: Record<string, unknown>) => unknown } | null {
+    const [resource, id, action] = segments;
+
+    if (resource === 'identifiers') {
+      if (method === 'GET' && !id) {
+        return { operation: 'getIdentifiers', handler: () => ({ identifiers: Object.keys(this.state.identifiers) }) };
+      }
+      if (method === 'POST' && !id) {
+        return { operation: 'createIdentifier', handler: () => this.createIdentifier() };
+      }
+      if (method === 'GET' && id && action === 'balance') {
+        return { operation: 'getBalance', handler: () => ({ balance: this.balanceOf(id) }) };
+      }
+      if (method === 'POST' && id && action === 'topup') {
+        return { operation: 'topup', handler: body => this.topup(id, body.amount) };
+      }
+    }
+
+    if (resource === 'blobs') {
+      if (method === 'POST' && !id) {
+        return { operation: 'upload', handler: body => this.upload(body) };
+      }
+      if (method === 'GET' && id && action === 'status') {
+        return { operation: 'getStatus', handler: () => ({ status: this.statusOf(id) }) };
+      }
+      if (method === 'GET' && id && !action) {
+        return { operation: 'retrieve', handler: () => this.retrieve(id) };
+      }
+    }
+
+    return null;
+  }
+
+  private async createIdentifier(): Promise<{ identifier: string }> {
+    const identifier = randomBytes(32).toString('hex');
+    this.state.identifiers[identifier] = 0;
+    await this.save();
+    return { identifier };
+  }
+
+  private async topup(identifier: string, amount: unknown): Promise<{ balance: number }> {
+    if (typeof amount !== 'number' || !(amount > 0)) {
+      throw new HttpStatusError('amount must be a positive number', 400);
+    }
+    this.state.identifiers[identifier] = this.balanceOf(identifier) + amount;
+    await this.save();
+    return { balance: this.balanceOf(identifier) };
+  }
+
+  private async upload(body: Record<string, unknown>): Promise<{ job_id: string; jobId: string }> {
+    const { content, identifier } = body;
+    if (typeof content !== 'string') {
+      throw new HttpStatusError('content must be a string', 400);
+    }
+    if (typeof identifier !== 'string') {
+      throw new HttpStatusError('identifier is required', 400);
+    }
+    const maxBlobSize = this.options.maxBlobSize ?? DEFAULT_MAX_BLOB_SIZE;
+    if (Buffer.byteLength(content) > maxBlobSize) {
+      throw new HttpStatusError(
+        `Blob of ${Buffer.byteLength(content)} bytes exceeds the maximum blob size of ${maxBlobSize} bytes`,
+        413
+      );
+    }
+
+    const cost = this.options.uploadCost ?? 0;
+    const balance = this.balanceOf(identifier);
+    if (balance < cost) {
+      throw new HttpStatusError(`Insufficient credits: ${balance} available, ${cost} required`, 402);
+    }
+    this.state.identifiers[identifier] = balance - cost;
+
+    const jobId = randomUUID();
+    this.state.blobs[jobId] = { content, identifier, uploadedAt: Date.now() };
+    await this.save();
+    // The adapter reads the job ID under both spellings
+    return { job_id: jobId, jobId };
+  }
+
+  private retrieve(jobId: string): { content: string } {
+    const status = this.statusOf(jobId);
+    if (status !== 'CONFIRMED') {
+      throw new HttpStatusError(`Blob ${jobId} is still ${status}`, 409);
+    }
+    return { content: this.state.blobs[jobId]!.content };
+  }
+
+  private balanceOf(identifier: string): number {
+    const balance = this.state.identifiers[identifier];
+    if (balance === undefined) {
+      throw new HttpStatusError(`Unknown identifier ${identifier}`, 404);
+    }
+    return balance;
+  }
+
+  private statusOf(jobId: string): 'PENDING' | 'CONFIRMED' {
+    const blob = this.state.blobs[jobId];
+    if (!blob) {
+      throw new HttpStatusError(`Unknown job ${jobId}`, 404);
+    }
+    return Date.now() - blob.uploadedAt >= (this.options.confirmationDelay ?? 0)
+      ? 'CONFIRMED'
+      : 'PENDING';
+  }
+
+  private async load(): Promise<LocalEigenDAState> {
+    if (!this.options.storagePath) {
+      return this.state;
+    }
+    try {
+      return JSON.parse(await fs.readFile(this.options.storagePath, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return { identifiers: {}, blobs: {} };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Write the state to the storage file, one write at a time
+   */
+  private save(): Promise<void> {
+    const path = this.options.storagePath;
+    if (!path) {
+      return Promise.resolve();
+    }
+
+    const contents = JSON.stringify(this.state);
+    const write = this.saving.then(async () => {
+      // Write then rename, so a crash never leaves a half-written file
+      await fs.writeFile(`${path}.tmp`, contents);
+      await fs.rename(`${path}.tmp`, path);
+    });
+    this.saving = write.catch(() => undefined);
+    return write;
+  }
+}
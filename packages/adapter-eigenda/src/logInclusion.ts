@@ -0,0 +1,83 @@
+import { DALogEntry, DALogOptions, Proof, canonicalJson } from '@layr-labs/agentkit';
+import { MerkleInclusionProof, hashLeaf, verifyInclusionProof } from './merkle';
+
+/**
+ * Proof type for an entry's inclusion in a batched EigenDA blob
+ */
+export const LOG_INCLUSION_PROOF_TYPE = 'eigenda-merkle-inclusion';
+
+/**
+ * The fields of a batched log that are committed to in the batch's Merkle root
+ */
+export interface LogLeaf {
+  data: unknown;
+  timestamp: number;
+  options?: DALogOptions;
+}
+
+/**
+ * Build the ID of an entry within a batch blob
+ */
+export function formatLogEntryId(jobId: string, index: number): string {
+  return `${jobId}:${index}`;
+}
+
+/**
+ * Split an entry ID into its job ID and its index within the batch, if it has one
+ */
+export function parseLogEntryId(id: string): { jobId: string; index?: number } {
+  const match = /^(.*):(\d+)$/.exec(id);
+  if (!match) {
+    return { jobId: id };
+  }
+  return { jobId: match[1] as string, index: Number(match[2]) };
+}
+
+/**
+ * Hash a log as it is committed to in the batch's Merkle tree
+ */
+export function hashLogLeaf(leaf: LogLeaf): Buffer {
+  return hashLeaf(
+    canonicalJson({ data: leaf.data, timestamp: leaf.timestamp, options: leaf.options })
+  );
+}
+
+/**
+ * Wrap a Merkle inclusion proof as the proof attached to a log entry
+ */
+export function toInclusionProof(jobId: string, inclusion: MerkleInclusionProof): Proof {
+  return {
+    type: LOG_INCLUSION_PROOF_TYPE,
+    data: inclusion,
+    timestamp: Date.now(),
+    metadata: { jobId },
+  };
+}
+
+/**
+ * Check that a log entry is included in the batch its proof describes. Compare the proof's
+ * root with the `merkleRoot` of the blob stored under its job ID to complete the check.
+ */
+export function verifyLogInclusion(entry: DALogEntry): boolean {
+  const proof = entry.proof;
+  if (!proof || proof.type !== LOG_INCLUSION_PROOF_TYPE) {
+    return false;
+  }
+
+  const inclusion = proof.data as MerkleInclusionProof;
+  const jobId = proof.metadata?.jobId;
+  if (typeof jobId !== 'string' || entry.id !== formatLogEntryId(jobId, inclusion.leafIndex)) {
+    return false;
+  }
+
+  try {
+    const leafHash = hashLogLeaf({
+      data: entry.content,
+      timestamp: entry.timestamp,
+      options: entry.options,
+    });
+    return verifyInclusionProof(leafHash, inclusion);
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,129 @@
+import { createHash } from 'crypto';
+
+/**
+ * Proof that a leaf is part of a Merkle tree with a given root
+ */
+export interface MerkleInclusionProof {
+  /** Position of the leaf in the tree */
+  leafIndex: number;
+  /** Number of leaves in the tree */
+  leafCount: number;
+  /** Hex-encoded sibling hashes, from the leaf up to the root */
+  siblings: string[];
+  /** Hex-encoded root hash */
+  root: string;
+}
+
+// Leaves and interior nodes are hashed with different prefixes so one cannot pass for the other
+const LEAF_PREFIX = Buffer.from([0x00]);
+const NODE_PREFIX = Buffer.from([0x01]);
+
+/**
+ * Hash a leaf's serialized content
+ */
+export function hashLeaf(content: string | Buffer): Buffer {
+  return createHash('sha256').update(LEAF_PREFIX).update(content).digest();
+}
+
+function hashNode(left: Buffer, right: Buffer): Buffer {
+  return createHash('sha256').update(NODE_PREFIX).update(left).update(right).digest();
+}
+
+/**
+ * Compute the root of a Merkle tree over leaf hashes (RFC 9162 tree shape)
+ */
+export function computeMerkleRoot(leafHashes: Buffer[]): string {
+  if (leafHashes.length === 0) {
+    throw new Error('Cannot compute a Merkle root without leaves');
+  }
+  return subtreeHash(leafHashes).toString('hex');
+}
+
+/**
+ * Build an inclusion proof for every leaf in one pass
+ */
+export function createInclusionProofs(leafHashes: Buffer[]): MerkleInclusionProof[] {
+  if (leafHashes.length === 0) {
+    return [];
+  }
+
+  const { hash, paths } = buildSubtree(leafHashes);
+  const root = hash.toString('hex');
+  return paths.map((path, leafIndex) => ({
+    leafIndex,
+    leafCount: leafHashes.length,
+    siblings: path.map(sibling => sibling.toString('hex')),
+    root,
+  }));
+}
+
+/**
+ * Check that a leaf hash is included in the tree described by the proof
+ */
+export function verifyInclusionProof(leafHash: Buffer, proof: MerkleInclusionProof): boolean {
+  if (proof.leafIndex < 0 || proof.leafIndex >= proof.leafCount) {
+    return false;
+  }
+
+  // RFC 9162 §2.1.3.2
+  let index = proof.leafIndex;
+  let lastIndex = proof.leafCount - 1;
+  let hash = leafHash;
+
+  for (const sibling of proof.siblings) {
+    if (lastIndex === 0) {
+      return false;
+    }
+
+    const siblingHash = Buffer.from(sibling, 'hex');
+    if (index % 2 === 1 || index === lastIndex) {
+      hash = hashNode(siblingHash, hash);
+      while (index % 2 === 0 && index !== 0) {
+        index >>= 1;
+        lastIndex >>= 1;
+      }
+    } else {
+      hash = hashNode(hash, siblingHash);
+    }
+    index >>= 1;
+    lastIndex >>= 1;
+  }
+
+  return lastIndex === 0 && hash.toString('hex') === proof.root;
+}
+
+function subtreeHash(leaves: Buffer[]): Buffer {
+  if (leaves.length === 1) {
+    return leaves[0] as Buffer;
+  }
+  const split = largestPowerOfTwoBelow(leaves.length);
+  return hashNode(subtreeHash(leaves.slice(0, split)), subtreeHash(leaves.slice(split)));
+}
+
+/**
+ * Hash a subtree and collect the audit path of each of its leaves
+ */
+function buildSubtree(leaves: Buffer[]): { hash: Buffer; paths: Buffer[][] } {
+  if (leaves.length === 1) {
+    return { hash: leaves[0] as Buffer, paths: [[]] };
+  }
+
+  const split = largestPowerOfTwoBelow(leaves.length);
+  const left = buildSubtree(leaves.slice(0, split));
+  const right = buildSubtree(leaves.slice(split));
+  return {
+    hash: hashNode(left.hash, right.hash),
+    paths: [
+      ...left.paths.map(path => [...path, right.hash]),
+      ...right.paths.map(path => [...path, left.hash]),
+    ],
+  };
+}
+
+function largestPowerOfTwoBelow(count: number): number {
+  let split = 1;
+  while (split * 2 < count) {
+    split *= 2;
+  }
+  return split;
+}
@@ -0,0 +1,166 @@
+import { promises as fs } from 'fs';
+import type { FileHandle } from 'fs/promises';
+
+/**
+ * A line in the spool file: a buffered log, the upload that committed some logs,
+ * or logs that were given up on
+ */
+type SpoolRecord<T> =
+  | { op: 'append'; id: string; entry: T }
+  | { op: 'commit'; ids: string[]; jobId: string }
+  | { op: 'discard'; ids: string[] };
+
+/**
+ * Options for the write-ahead spool
+ */
+export interface WriteAheadSpoolOptions {
+  /** Sync every write to disk before acknowledging it (default: true) */
+  fsync?: boolean;
+}
+
+/**
+ * Append-only file of buffered logs, so logs that were never uploaded survive a crash.
+ * Each log is appended before it is buffered; a commit line is appended once its upload
+ * has returned a job ID. On open, logs without a commit are returned for replay.
+ */
+export class WriteAheadSpool<T> {
+  private file?: FileHandle;
+  private readonly outstanding = new Set<string>();
+  private writes: Promise<void> = Promise.resolve();
+
+  constructor(
+    private readonly path: string,
+    private readonly options: WriteAheadSpoolOptions = {}
+  ) {}
+
+  /**
+   * Open the spool, compacting it to the logs that were never committed
+   * @returns The uncommitted logs, in the order they were appended
+   */
+  async open(): Promise<Array<{ id: string; entry: T }>> {
+    const pending = await this.readUncommitted();
+
+    // Rewrite atomically so a crash during compaction leaves the old spool intact
+    const tempPath = `${this.path}.tmp`;
+    const lines = pending.map(({ id, entry }) => this.serialize({ op: 'append', id, entry }));
+    await fs.writeFile(tempPath, lines.join(''));
+    await fs.rename(tempPath, this.path);
+
+    this.file = await fs.open(this.path, 'a');
+    pending.forEach(({ id }) => this.outstanding.add(id));
+    return pending;
+  }
+
+  /**
+   * Durably record a log before it is buffered
+   */
+  async append(id: string, entry: T): Promise<void> {
+    this.outstanding.add(id);
+    try {
+      await this.write({ op: 'append', id, entry });
+    } catch (error) {
+      this.outstanding.delete(id);
+      throw error;
+    }
+  }
+
+  /**
+   * Record that logs were uploaded, so they are not replayed
+   */
+  async commit(ids: string[], jobId: string): Promise<void> {
+    ids.forEach(id => this.outstanding.delete(id));
+    await this.write({ op: 'commit', ids, jobId });
+    await this.compactIfIdle();
+  }
+
+  /**
+   * Record that logs were given up on, so they are not replayed
+   */
+  async discard(ids: string[]): Promise<void> {
+    ids.forEach(id => this.outstanding.delete(id));
+    await this.write({ op: 'discard', ids });
+    await this.compactIfIdle();
+  }
+
+  /**
+   * Wait for pending writes and close the file
+   */
+  async close(): Promise<void> {
+    await this.writes;
+    await this.file?.close();
+    this.file = undefined;
+  }
+
+  private async compactIfIdle(): Promise<void> {
+    // Once nothing is outstanding the spool holds no information, so start it afresh
+    if (this.outstanding.size === 0) {
+      await this.enqueue(async file => {
+        if (this.outstanding.size === 0) {
+          await file.truncate(0);
+        }
+      });
+    }
+  }
+
+  private write(record: SpoolRecord<T>): Promise<void> {
+    const line = this.serialize(record);
+    return this.enqueue(async file => {
+      await file.appendFile(line);
+      if (this.options.fsync !== false) {
+        await file.datasync();
+      }
+    });
+  }
+
+  /**
+   * Run file operations one at a time, in the order they were requested
+   */
+  private enqueue(operation: (file: FileHandle) => Promise<void>): Promise<void> {
+    const run = this.writes.then(() => {
+      if (!this.file) {
+        throw new Error('Write-ahead spool is not open');
+      }
+      return operation(this.file);
+    });
+    // Keep the queue going after a failed write; the caller still sees the failure
+    this.writes = run.catch(() => undefined);
+    return run;
+  }
+
+  private serialize(record: SpoolRecord<T>): string {
+    return `${JSON.stringify(record)}\n`;
+  }
+
+  private async readUncommitted(): Promise<Array<{ id: string; entry: T }>> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.path, 'utf8');
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+
+    const pending = new Map<string, T>();
+    for (const line of contents.split('\n')) {
+      if (!line.trim()) continue;
+
+      let record: SpoolRecord<T>;
+      try {
+        record = JSON.parse(line);
+      } catch {
+        // A crash mid-write can leave a torn last line; nothing after it was acknowledged
+        continue;
+      }
+
+      if (record.op === 'append') {
+        pending.set(record.id, record.entry);
+      } else if (record.op === 'commit' || record.op === 'discard') {
+        record.ids.forEach(id => pending.delete(id));
+      }
+    }
+
+    return [...pending].map(([id, entry]) => ({ id, entry }));
+  }
+}
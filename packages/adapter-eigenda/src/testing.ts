@@ -0,0 +1,6 @@
+/**
+ * Local stand-ins for EigenDA, for integration tests and offline demos. Imported from
+ * `@layr-labs/agentkit-eigenda/testing`, so the main entry point does not load the test harness.
+ */
+export * from './local/LocalEigenDAClient';
+export * from './local/LocalEigenDAServer';
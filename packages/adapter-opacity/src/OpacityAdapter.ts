@@ -7,11 +7,38 @@ import {
   GenerateTextOptions,
   VerifiableInferenceResult,
   ProofGenerationError,
-  ProofVerificationError,
-  Proof
+  Proof,
+  VerifiableStreamChunk,
+  HttpStatusError,
+  OperationCancelledError,
+  RetryPolicy,
+  mergeRetryPolicy,
+  nonIdempotentRetryPolicy,
+  withRetry,
+  DASpanStatusCode,
+  SpanLike,
+  TypedEventEmitter
 } from '@layr-labs/agentkit';
-import { ModelProvider, OpacityAdapterConfig, ModelConfig, ChatMessage } from './types';
-import { generateProof, verifyProof } from './utils/api';
+import {
+  ModelProvider,
+  OpacityAdapterConfig,
+  ModelConfig,
+  ChatMessage,
+  OpacityVerificationResult
+} from './types';
+import { OpacityProofVerifier } from './OpacityProofVerifier';
+import { fetchProverLog, generateProof } from './utils/api';
+import { createCommitment } from './utils/commitment';
+import { readServerSentEvents } from './utils/stream';
+import { OpacityAdapterEvents, bindOpacityMetrics } from './events';
+
+/**
+ * Span attribute holding the gateway log ID that an inference's Opacity proof covers
+ */
+export const OPACITY_LOG_ID_ATTRIBUTE = 'opacity.log_id';
+
+// OpenTelemetry's SpanKind.CLIENT
+const SPAN_KIND_CLIENT = 2;
 
 const DEFAULT_MODELS: Record<ModelProvider, Record<string, ModelConfig>> = {
   [ModelProvider.OPENAI]: {
@@ -72,8 +99,49 @@ interface AnthropicResponse {
   content: string;
 }
 
+interface OpenAIStreamChunk {
+  choices?: Array<{
+    delta?: {
+      content?: string | null;
+    };
+  }>;
+}
+
+interface AnthropicStreamChunk {
+  type?: string;
+  delta?: {
+    text?: string;
+  };
+}
+
+/**
+ * Extract the text carried by a single streamed completion event
+ */
+function extractStreamedText(provider: ModelProvider, event: unknown): string | undefined {
+  if (provider === ModelProvider.OPENAI) {
+    return (event as OpenAIStreamChunk).choices?.[0]?.delta?.content ?? undefined;
+  }
+
+  const chunk = event as AnthropicStreamChunk;
+  return chunk.type === 'content_block_delta' ? chunk.delta?.text : undefined;
+}
+
+/**
+ * Record a failed inference on its span, as an exception and an error status
+ */
+function recordSpanError(span: SpanLike | undefined, error: unknown): void {
+  span?.recordException(error instanceof Error ? error : String(error));
+  span?.setStatus({
+    code: DASpanStatusCode.ERROR,
+    message: error instanceof Error ? error.message : String(error),
+  });
+}
+
 export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAdapter {
+  /** Lifecycle events: proofs generated or failed */
+  readonly events = new TypedEventEmitter<OpacityAdapterEvents>();
   private readonly config: OpacityAdapterConfig;
+  private readonly verifier: OpacityProofVerifier;
 
   constructor(config: OpacityAdapterConfig) {
     this.config = {
@@ -81,6 +149,10 @@ export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAd
       gatewayUrl: `https://gateway.ai.cloudflare.com/v1/${config.teamId}/${config.teamName}`,
       ...config,
     };
+    this.verifier = new OpacityProofVerifier(this.config);
+    if (config.metrics) {
+      bindOpacityMetrics(this.events, config.metrics);
+    }
   }
 
   async initialize(): Promise<void> {
@@ -110,23 +182,27 @@ export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAd
   }
 
   private async storeLog(data: unknown, options?: DALogOptions): Promise<string> {
-    const response = await fetch(`${this.config.gatewayUrl}/logs`, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${this.config.apiKey}`,
-      },
-      body: JSON.stringify({
-        data,
-        metadata: options?.metadata,
-        tags: options?.tags,
-        level: options?.level || 'info',
-      }),
-    });
+    const response = await withRetry(async ({ signal }) => {
+      const response = await fetch(`${this.config.gatewayUrl}/logs`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify({
+          data,
+          metadata: options?.metadata,
+          tags: options?.tags,
+          level: options?.level || 'info',
+        }),
+        signal,
+      });
 
-    if (!response.ok) {
-      throw new Error(`Failed to store log: ${response.statusText}`);
-    }
+      if (!response.ok) {
+        throw new HttpStatusError(`Failed to store log: ${response.statusText}`, response.status);
+      }
+      return response;
+    }, nonIdempotentRetryPolicy(this.retryPolicy(options?.timeout)), options?.signal);
 
     const logId = response.headers.get('cf-aig-log-id');
     if (!logId) {
@@ -163,22 +239,21 @@ export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAd
     }
 
     try {
-      const response = await fetch(`${proverUrl}/api/logs/${logId}`);
-      return response.ok;
+      await fetchProverLog(proverUrl, logId, 'Failed to fetch log', { retry: this.config.retry });
+      return true;
     } catch (error) {
-      console.error('Error checking log availability:', error);
+      if (!(error instanceof HttpStatusError)) {
+        console.error('Error checking log availability:', error);
+      }
       return false;
     }
   }
 
   async getLogEntry(id: string): Promise<DALogEntry | null> {
     try {
-      const response = await fetch(`${this.config.opacityProverUrl}/api/logs/${id}`);
-      if (!response.ok) {
-        return null;
-      }
-
-      const data = await response.json();
+      const data = (await fetchProverLog(this.config.opacityProverUrl, id, 'Failed to fetch log', {
+        retry: this.config.retry,
+      })) as Pick<DALogOptions, 'level' | 'metadata' | 'tags'> & { data: unknown; timestamp: number };
       return {
         id,
         content: data.data,
@@ -198,11 +273,20 @@ export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAd
         },
       };
     } catch (error) {
-      console.error('Error retrieving log entry:', error);
+      if (!(error instanceof HttpStatusError)) {
+        console.error('Error retrieving log entry:', error);
+      }
       return null;
     }
   }
 
+  /**
+   * The configured retry policy, with a per-call timeout applied to each attempt
+   */
+  private retryPolicy(timeout?: number): RetryPolicy {
+    return mergeRetryPolicy(this.config.retry, { timeout });
+  }
+
   async shutdown(): Promise<void> {
     // No cleanup needed for Opacity adapter
   }
@@ -211,98 +295,48 @@ export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAd
     prompt: string,
     options?: GenerateTextOptions
   ): Promise<VerifiableInferenceResult> {
-    try {
-      const provider = this.config.modelProvider ?? ModelProvider.OPENAI;
-      const model = options?.model || (provider === ModelProvider.OPENAI ? 'gpt-4o' : 'claude-3-sonnet');
-      const providerModels = DEFAULT_MODELS[provider];
-
-      if (!providerModels) {
-        throw new Error(`Unsupported model provider: ${provider}`);
-      }
-
-      const modelConfig = providerModels[model];
-      if (!modelConfig) {
-        throw new Error(`Unsupported model: ${model}`);
-      }
-
-      const endpoint = `${this.config.gatewayUrl}/${provider}/chat/completions`;
-      
-      console.log('Generating text with options:', {
-        modelProvider: provider,
-        model: model,
-        endpoint: endpoint
-      });
-
-      // Prepare the request body based on the provider
-      let body: any;
-      
-      if (provider === ModelProvider.OPENAI) {
-        body = {
-          model: modelConfig.name,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: options?.temperature ?? modelConfig.temperature,
-          max_tokens: options?.maxTokens ?? modelConfig.maxOutputTokens,
-          frequency_penalty: modelConfig.frequencyPenalty,
-          presence_penalty: modelConfig.presencePenalty,
-        };
-      } else if (provider === ModelProvider.ANTHROPIC) {
-        body = {
-          model: modelConfig.name,
-          messages: [
-            {
-              role: 'user',
-              content: prompt,
-            },
-          ],
-          temperature: options?.temperature ?? modelConfig.temperature,
-          max_tokens: options?.maxTokens ?? modelConfig.maxOutputTokens,
-          top_p: modelConfig.topP,
-          top_k: modelConfig.topK,
-        };
-      }
-
-      console.debug('Request body:', JSON.stringify(body, null, 2));
+    return this.complete([{ role: 'user', content: prompt }], options);
+  }
 
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify(body),
-      });
+  async generateChat(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions
+  ): Promise<VerifiableInferenceResult> {
+    if (messages.length === 0) {
+      throw new ProofGenerationError('At least one message is required');
+    }
+    return this.complete(messages, options);
+  }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error('API error response:', {
-          status: response.status,
-          statusText: response.statusText,
-          error: errorText
-        });
-        throw new Error(`API request failed: ${errorText}`);
-      }
+  streamText(
+    prompt: string,
+    options?: GenerateTextOptions
+  ): AsyncGenerator<VerifiableStreamChunk> {
+    return this.stream([{ role: 'user', content: prompt }], options);
+  }
 
-      // Log response details in a TypeScript-friendly way
-      const headers: Record<string, string> = {};
-      response.headers.forEach((value, key) => {
-        headers[key] = value;
-      });
+  /**
+   * Run a chat completion over the full conversation and prove the gateway log for it
+   */
+  private async complete(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions
+  ): Promise<VerifiableInferenceResult> {
+    if (options?.onProgress) {
+      return this.collectStream(this.stream(messages, options), options.onProgress);
+    }
 
-      console.debug('API response:', {
-        status: response.status,
-        statusText: response.statusText,
-        headers
-      });
+    const span = this.startSpan('opacity.generate');
+    try {
+      const { provider, endpoint, body } = this.buildRequest(messages, options, false);
+      span?.setAttribute('gen_ai.request.model', String(body.model));
+      const response = await this.sendRequest(endpoint, body, options);
 
       const logId = response.headers.get('cf-aig-log-id');
       if (!logId) {
         throw new ProofGenerationError('No log ID received from Cloudflare');
       }
+      span?.setAttribute(OPACITY_LOG_ID_ATTRIBUTE, logId);
 
       const result = await response.json();
       const content = provider === ModelProvider.OPENAI 
@@ -313,28 +347,291 @@ export class OpacityAdapter implements IVerifiableInferenceAdapter, IDALoggingAd
         throw new ProofGenerationError('No content returned from API');
       }
 
-      console.debug('Generating proof for log ID:', logId);
-      const proof = await generateProof(this.config.opacityProverUrl, logId);
-      console.debug('Proof generated successfully');
+      const proof = await this.proveLog(logId, body, content, options);
 
       return {
         content,
         proof,
       };
     } catch (error) {
-      console.error('Error in generateText:', error);
-      if (error instanceof ProofGenerationError) {
+      console.error('Error generating completion:', error);
+      recordSpanError(span, error);
+      if (error instanceof ProofGenerationError || error instanceof OperationCancelledError) {
         throw error;
       }
       throw new ProofGenerationError('Failed to generate text with proof', error);
+    } finally {
+      span?.end();
     }
   }
 
-  async verifyProof(proof: Proof): Promise<boolean> {
+  /**
+   * Stream a chat completion over SSE, then prove the gateway log once the stream ends
+   */
+  private async *stream(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions
+  ): AsyncGenerator<VerifiableStreamChunk> {
+    const span = this.startSpan('opacity.stream');
     try {
-      return await verifyProof(this.config.opacityProverUrl, proof);
+      const { provider, endpoint, body } = this.buildRequest(messages, options, true);
+      span?.setAttribute('gen_ai.request.model', String(body.model));
+      const response = await this.sendRequest(endpoint, body, options);
+
+      // The gateway assigns the log ID up front; the logged response covers the full stream
+      const logId = response.headers.get('cf-aig-log-id');
+      if (!logId) {
+        throw new ProofGenerationError('No log ID received from Cloudflare');
+      }
+      span?.setAttribute(OPACITY_LOG_ID_ATTRIBUTE, logId);
+
+      if (!response.body) {
+        throw new ProofGenerationError('No response body to stream');
+      }
+
+      let content = '';
+      for await (const data of readServerSentEvents(response.body, options?.signal)) {
+        if (data === '[DONE]') {
+          break;
+        }
+
+        let event: unknown;
+        try {
+          event = JSON.parse(data);
+        } catch (error) {
+          throw new ProofGenerationError(`Malformed stream event: ${data}`, error);
+        }
+        const text = extractStreamedText(provider, event);
+        if (text) {
+          content += text;
+          yield { type: 'text', text };
+        }
+      }
+
+      if (!content) {
+        throw new ProofGenerationError('No content returned from API');
+      }
+
+      const proof = await this.proveLog(logId, body, content, options);
+
+      yield { type: 'result', result: { content, proof } };
     } catch (error) {
-      throw new ProofVerificationError('Failed to verify proof', proof, error);
+      console.error('Error streaming completion:', error);
+      recordSpanError(span, error);
+      if (error instanceof ProofGenerationError || error instanceof OperationCancelledError) {
+        throw error;
+      }
+      throw new ProofGenerationError('Failed to stream text with proof', error);
+    } finally {
+      // Also runs when the caller stops iterating early
+      span?.end();
     }
   }
+
+  /**
+   * Prove the gateway log of a completion, reporting how long the prover took
+   */
+  private async proveLog(
+    logId: string,
+    body: Record<string, unknown>,
+    content: string,
+    options?: GenerateTextOptions
+  ): Promise<Proof> {
+    const model = String(body.model);
+    const started = Date.now();
+    console.debug('Generating proof for log ID:', logId);
+    try {
+      const proof = await generateProof(
+        this.config.opacityProverUrl,
+        logId,
+        createCommitment(body, content),
+        { retry: this.retryPolicy(options?.timeout), signal: options?.signal }
+      );
+      console.debug('Proof generated successfully');
+      this.events.emit('proof-generated', { logId, model, durationMs: Date.now() - started });
+      return proof;
+    } catch (error) {
+      this.events.emit('proof-failed', { logId, model, durationMs: Date.now() - started, error });
+      throw error;
+    }
+  }
+
+  /**
+   * Start an inference span when a tracer is configured
+   */
+  private startSpan(name: string): SpanLike | undefined {
+    return this.config.tracer?.startSpan(name, {
+      kind: SPAN_KIND_CLIENT,
+      attributes: { 'gen_ai.system': this.config.modelProvider ?? ModelProvider.OPENAI },
+    });
+  }
+
+  /**
+   * Consume a verifiable stream, reporting each text chunk and returning the final result
+   */
+  private async collectStream(
+    stream: AsyncIterable<VerifiableStreamChunk>,
+    onProgress: (chunk: string) => void
+  ): Promise<VerifiableInferenceResult> {
+    for await (const chunk of stream) {
+      if (chunk.type === 'text') {
+        onProgress(chunk.text);
+      } else {
+        return chunk.result;
+      }
+    }
+    throw new ProofGenerationError('Stream ended without a result');
+  }
+
+  /**
+   * Resolve the model and build the provider-specific chat completion request
+   */
+  private buildRequest(
+    messages: ChatMessage[],
+    options: GenerateTextOptions | undefined,
+    stream: boolean
+  ): { provider: ModelProvider; endpoint: string; body: Record<string, unknown> } {
+    const provider = this.config.modelProvider ?? ModelProvider.OPENAI;
+    const model = options?.model || (provider === ModelProvider.OPENAI ? 'gpt-4o' : 'claude-3-sonnet');
+    const providerModels = DEFAULT_MODELS[provider];
+
+    if (!providerModels) {
+      throw new Error(`Unsupported model provider: ${provider}`);
+    }
+
+    const modelConfig = providerModels[model];
+    if (!modelConfig) {
+      throw new Error(`Unsupported model: ${model}`);
+    }
+
+    const endpoint = `${this.config.gatewayUrl}/${provider}/chat/completions`;
+    
+    console.log('Generating text with options:', {
+      modelProvider: provider,
+      model: model,
+      endpoint: endpoint,
+      stream,
+    });
+
+    // Fall back to the configured system prompt when the conversation has none
+    const systemPrompt = options?.systemPrompt ?? modelConfig.systemPrompt;
+    const conversation: ChatMessage[] =
+      systemPrompt && !messages.some(message => message.role === 'system')
+        ? [{ role: 'system', content: systemPrompt }, ...messages]
+        : messages;
+
+    // Prepare the request body based on the provider
+    let body: Record<string, unknown> = {};
+    
+    if (provider === ModelProvider.OPENAI) {
+      body = {
+        model: modelConfig.name,
+        messages: conversation,
+        temperature: options?.temperature ?? modelConfig.temperature,
+        max_tokens: options?.maxTokens ?? modelConfig.maxOutputTokens,
+        frequency_penalty: modelConfig.frequencyPenalty,
+        presence_penalty: modelConfig.presencePenalty,
+      };
+    } else if (provider === ModelProvider.ANTHROPIC) {
+      // Anthropic takes the system prompt as a top-level field rather than a message
+      const system = conversation
+        .filter(message => message.role === 'system')
+        .map(message => message.content)
+        .join('\n\n');
+
+      body = {
+        model: modelConfig.name,
+        system: system || undefined,
+        messages: conversation.filter(message => message.role !== 'system'),
+        temperature: options?.temperature ?? modelConfig.temperature,
+        max_tokens: options?.maxTokens ?? modelConfig.maxOutputTokens,
+        top_p: modelConfig.topP,
+        top_k: modelConfig.topK,
+      };
+    }
+
+    if (stream) {
+      body.stream = true;
+    }
+
+    console.debug('Request body:', JSON.stringify(body, null, 2));
+
+    return { provider, endpoint, body };
+  }
+
+  /**
+   * Send a chat completion request to the gateway, retrying transient failures and
+   * throwing on a non-2xx response
+   * @param options The call's options, whose `timeout` overrides the configured policy's
+   * and whose `signal` cancels the request
+   */
+  private async sendRequest(
+    endpoint: string,
+    body: Record<string, unknown>,
+    options?: GenerateTextOptions
+  ): Promise<Response> {
+    const response = await withRetry(async ({ signal }) => {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${this.config.apiKey}`,
+        },
+        body: JSON.stringify(body),
+        signal,
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        console.error('API error response:', {
+          status: response.status,
+          statusText: response.statusText,
+          error: errorText
+        });
+        throw new HttpStatusError(`API request failed: ${errorText}`, response.status, errorText);
+      }
+      return response;
+    }, nonIdempotentRetryPolicy(this.retryPolicy(options?.timeout)), options?.signal);
+
+    // Log response details in a TypeScript-friendly way
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+      headers[key] = value;
+    });
+
+    console.debug('API response:', {
+      status: response.status,
+      statusText: response.statusText,
+      headers
+    });
+
+    return response;
+  }
+
+  async verifyProof(proof: Proof): Promise<boolean> {
+    return this.verifier.verifyProof(proof);
+  }
+
+  /**
+   * Verify a result's proof and check that it commits to the result's content
+   * @param result The result whose proof to verify
+   * @param input The prompt or messages the result was generated from, to check as well
+   */
+  async verifyResult(
+    result: VerifiableInferenceResult,
+    input?: string | ChatMessage[]
+  ): Promise<boolean> {
+    return this.verifier.verifyResult(result, input);
+  }
+
+  /**
+   * Verify a proof locally against the configured trusted notary keys, reporting every check.
+   * Pass the result instead of the bare proof to check its content commitment too.
+   */
+  verifyProofDetailed(
+    proofOrResult: Proof | VerifiableInferenceResult,
+    input?: string | ChatMessage[]
+  ): OpacityVerificationResult {
+    return this.verifier.verifyProofDetailed(proofOrResult, input);
+  }
 } 
\ No newline at end of file
@@ -0,0 +1,119 @@
+import {
+  ChatMessage,
+  IProofVerifier,
+  Proof,
+  ProofVerificationError,
+  RetryPolicy,
+  VerifiableInferenceResult,
+} from '@layr-labs/agentkit';
+import { OpacityTrustedKey, OpacityVerificationResult } from './types';
+import { fetchNotarisedLog, verifyProof } from './utils/api';
+import { checkCommitment } from './utils/commitment';
+import { validateNotaryThreshold, verifyProofOffline } from './utils/verify';
+
+/**
+ * Configuration for the standalone Opacity proof verifier
+ */
+export interface OpacityProofVerifierConfig {
+  /** The URL of the Opacity prover service, used when no trusted keys are configured */
+  opacityProverUrl?: string;
+  /** Notary keys to verify proofs against locally */
+  trustedNotaryKeys?: OpacityTrustedKey[];
+  /** Number of distinct trusted notaries that must sign a proof (default: 1) */
+  notaryThreshold?: number;
+  /** How requests to the prover are retried and timed out */
+  retry?: RetryPolicy;
+}
+
+/**
+ * Verifies Opacity proofs without gateway credentials, for use with a `ProofVerifierRegistry`
+ */
+export class OpacityProofVerifier implements IProofVerifier {
+  constructor(private readonly config: OpacityProofVerifierConfig) {
+    if (config.notaryThreshold !== undefined) {
+      validateNotaryThreshold(config.notaryThreshold);
+    }
+  }
+
+  /**
+   * Verify a proof, locally when trusted notary keys are configured and via the prover otherwise
+   */
+  async verifyProof(proof: Proof): Promise<boolean> {
+    if (this.config.trustedNotaryKeys?.length) {
+      return this.verifyProofDetailed(proof).valid;
+    }
+
+    if (!this.config.opacityProverUrl) {
+      throw new ProofVerificationError(
+        'Either trusted notary keys or a prover URL is required to verify proofs',
+        proof
+      );
+    }
+
+    try {
+      return await verifyProof(this.config.opacityProverUrl, proof, { retry: this.config.retry });
+    } catch (error) {
+      throw new ProofVerificationError('Failed to verify proof', proof, error);
+    }
+  }
+
+  /**
+   * Verify a result's proof and check that it commits to the result's content
+   * @param result The result whose proof to verify
+   * @param input The prompt or messages the result was generated from, to check as well
+   */
+  async verifyResult(
+    result: VerifiableInferenceResult,
+    input?: string | ChatMessage[]
+  ): Promise<boolean> {
+    if (this.config.trustedNotaryKeys?.length) {
+      return this.verifyProofDetailed(result, input).valid;
+    }
+
+    if (!this.config.opacityProverUrl) {
+      throw new ProofVerificationError(
+        'Either trusted notary keys or a prover URL is required to verify proofs',
+        result.proof
+      );
+    }
+
+    try {
+      // Without trusted keys the attestation carried in the proof can't be authenticated, so
+      // the commitment is checked against the prover's own record of the log instead
+      const record = await fetchNotarisedLog(this.config.opacityProverUrl, result.proof, {
+        retry: this.config.retry,
+      });
+      if (record.success !== true) {
+        return false;
+      }
+      return checkCommitment({ ...result, proof: { ...result.proof, data: record } }, input).length === 0;
+    } catch (error) {
+      throw new ProofVerificationError('Failed to verify proof', result.proof, error);
+    }
+  }
+
+  /**
+   * Verify a proof locally against the trusted notary keys, reporting every check.
+   * Pass the result instead of the bare proof to check its content commitment too.
+   */
+  verifyProofDetailed(
+    proofOrResult: Proof | VerifiableInferenceResult,
+    input?: string | ChatMessage[]
+  ): OpacityVerificationResult {
+    const proof = 'proof' in proofOrResult ? proofOrResult.proof : proofOrResult;
+    if (!this.config.trustedNotaryKeys?.length) {
+      throw new ProofVerificationError('No trusted notary keys configured', proof);
+    }
+
+    const verification = verifyProofOffline(proof, {
+      trustedKeys: this.config.trustedNotaryKeys,
+      threshold: this.config.notaryThreshold,
+    });
+
+    if ('proof' in proofOrResult) {
+      verification.errors.push(...checkCommitment(proofOrResult, input));
+      verification.valid = verification.errors.length === 0;
+    }
+    return verification;
+  }
+}
@@ -0,0 +1,213 @@
+import { ProofGenerationError, VerifiableStreamChunk } from '@layr-labs/agentkit';
+import { OpacityAdapter } from '../OpacityAdapter';
+import { LocalOpacityCompletionRequest, LocalOpacityServer } from '../local/LocalOpacityServer';
+import { ChatMessage, ModelProvider } from '../types';
+
+async function collect(stream: AsyncIterable<VerifiableStreamChunk>): Promise<VerifiableStreamChunk[]> {
+  const chunks: VerifiableStreamChunk[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function sseResponse(events: string[]): Response {
+  return new Response(events.map(event => `data: ${event}\n\n`).join(''), {
+    headers: { 'Content-Type': 'text/event-stream', 'cf-aig-log-id': 'log-1' },
+  });
+}
+
+describe('OpacityAdapter', () => {
+  let server: LocalOpacityServer;
+  let url: string;
+  let requests: LocalOpacityCompletionRequest[];
+
+  function createAdapter(modelProvider = ModelProvider.OPENAI): OpacityAdapter {
+    return new OpacityAdapter({
+      teamId: 'local',
+      teamName: 'local',
+      apiKey: 'test-key',
+      gatewayUrl: url,
+      opacityProverUrl: url,
+      modelProvider,
+      trustedNotaryKeys: [server.trustedKey],
+    });
+  }
+
+  beforeAll(async () => {
+    server = new LocalOpacityServer({
+      defaultResponse: request => {
+        requests.push(request);
+        return 'The answer is 42';
+      },
+    });
+    url = await server.start();
+  });
+
+  beforeEach(() => {
+    requests = [];
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+  });
+
+  describe('generateChat', () => {
+    const conversation: ChatMessage[] = [
+      { role: 'user', content: 'What is quantum computing?' },
+      { role: 'assistant', content: 'Computing with qubits.' },
+      { role: 'user', content: 'Explain entanglement.' },
+    ];
+
+    it('sends the whole conversation to OpenAI with the model parameters', async () => {
+      const adapter = createAdapter();
+
+      const result = await adapter.generateChat(conversation, { model: 'gpt-4o-mini', temperature: 0.2, maxTokens: 100 });
+
+      expect(requests).toHaveLength(1);
+      expect(requests[0]!.body).toEqual({
+        model: 'gpt-4o-mini',
+        messages: conversation,
+        temperature: 0.2,
+        max_tokens: 100,
+        frequency_penalty: 0,
+        presence_penalty: 0,
+      });
+      await expect(adapter.verifyResult(result, conversation)).resolves.toBe(true);
+    });
+
+    it('prepends the system prompt from the options unless the conversation has one', async () => {
+      const adapter = createAdapter();
+      const system: ChatMessage = { role: 'system', content: 'Be terse' };
+
+      await adapter.generateChat(conversation, { systemPrompt: 'Be verbose' });
+      await adapter.generateChat([system, ...conversation], { systemPrompt: 'Be verbose' });
+
+      expect(requests[0]!.body.messages).toEqual([{ role: 'system', content: 'Be verbose' }, ...conversation]);
+      expect(requests[1]!.body.messages).toEqual([system, ...conversation]);
+    });
+
+    it('sends system messages to Anthropic as the top-level system prompt', async () => {
+      const adapter = createAdapter(ModelProvider.ANTHROPIC);
+      const messages: ChatMessage[] = [
+        { role: 'system', content: 'Be terse' },
+        { role: 'system', content: 'Answer in English' },
+        ...conversation,
+      ];
+
+      const result = await adapter.generateChat(messages);
+
+      expect(requests[0]!.body).toEqual({
+        model: 'claude-3-sonnet',
+        system: 'Be terse\n\nAnswer in English',
+        messages: conversation,
+        temperature: 0.7,
+        max_tokens: 4096,
+        top_p: 0.9,
+      });
+      await expect(adapter.verifyResult(result, [{ role: 'system', content: 'Be terse\n\nAnswer in English' }, ...conversation]))
+        .resolves.toBe(true);
+    });
+
+    it('rejects an empty conversation without calling the gateway', async () => {
+      const adapter = createAdapter();
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      await expect(adapter.generateChat([])).rejects.toThrow(new ProofGenerationError('At least one message is required'));
+      expect(fetchSpy).not.toHaveBeenCalled();
+      expect(requests).toEqual([]);
+    });
+  });
+
+  describe('logs', () => {
+    it("reads a stored log back from the prover's record", async () => {
+      const adapter = createAdapter();
+      const entry = await adapter.log({ step: 'plan' }, { level: 'warn', metadata: { run: 1 }, tags: ['agent'] });
+
+      await expect(adapter.checkAvailability(entry.status)).resolves.toBe(true);
+      await expect(adapter.getLogEntry(entry.id)).resolves.toMatchObject({
+        id: entry.id,
+        content: { step: 'plan' },
+        status: { type: 'opacity', data: { logId: entry.id, proverUrl: url } },
+        options: { level: 'warn', metadata: { run: 1 }, tags: ['agent'] },
+      });
+    });
+
+    it('reports a log the prover does not know as unavailable', async () => {
+      const adapter = createAdapter();
+
+      await expect(adapter.getLogEntry('missing')).resolves.toBeNull();
+      await expect(
+        adapter.checkAvailability({ type: 'opacity', data: { logId: 'missing', proverUrl: url }, timestamp: 0 })
+      ).resolves.toBe(false);
+      await expect(adapter.checkAvailability({ type: 'eigenda', data: {}, timestamp: 0 })).resolves.toBe(false);
+    });
+  });
+
+  describe('streaming', () => {
+    it.each([ModelProvider.OPENAI, ModelProvider.ANTHROPIC])(
+      'yields the %s text as it arrives, then a result proving all of it',
+      async provider => {
+        const adapter = createAdapter(provider);
+        const chunks = await collect(adapter.streamText('What is the meaning of life?'));
+
+        const last = chunks.pop();
+        expect(chunks.map(chunk => chunk.type === 'text' && chunk.text)).toEqual(['The ', 'answer ', 'is ', '42']);
+        expect(last?.type).toBe('result');
+        const { result } = last as Extract<VerifiableStreamChunk, { type: 'result' }>;
+        expect(result.content).toBe('The answer is 42');
+        await expect(adapter.verifyResult(result, 'What is the meaning of life?')).resolves.toBe(true);
+        expect(requests[0]!.body.stream).toBe(true);
+      }
+    );
+
+    it('streams generateText through the same path when given onProgress', async () => {
+      const adapter = createAdapter();
+      const progress: string[] = [];
+
+      const result = await adapter.generateText('What is the meaning of life?', {
+        onProgress: chunk => progress.push(chunk),
+      });
+
+      expect(progress.join('')).toBe('The answer is 42');
+      expect(progress.length).toBeGreaterThan(1);
+      expect(result.content).toBe('The answer is 42');
+      expect(requests[0]!.body.stream).toBe(true);
+      await expect(adapter.verifyResult(result, 'What is the meaning of life?')).resolves.toBe(true);
+    });
+
+    it('rejects a malformed stream event with the event in the error', async () => {
+      const adapter = createAdapter();
+      jest.spyOn(global, 'fetch').mockResolvedValueOnce(
+        sseResponse(['{"choices":[{"delta":{"content":"The "}}]}', '{"choices":[{"delta":'])
+      );
+
+      const chunks: VerifiableStreamChunk[] = [];
+      const error = await (async () => {
+        for await (const chunk of adapter.streamText('What is the meaning of life?')) {
+          chunks.push(chunk);
+        }
+      })().catch(caught => caught);
+
+      expect(chunks).toEqual([{ type: 'text', text: 'The ' }]);
+      expect(error).toBeInstanceOf(ProofGenerationError);
+      expect(error.message).toBe('Malformed stream event: {"choices":[{"delta":');
+      expect(error.details).toBeInstanceOf(SyntaxError);
+    });
+
+    it('rejects a stream without content', async () => {
+      const adapter = createAdapter();
+      jest.spyOn(global, 'fetch').mockResolvedValueOnce(sseResponse(['[DONE]']));
+
+      await expect(adapter.generateText('What is the meaning of life?', { onProgress: () => undefined }))
+        .rejects.toThrow(new ProofGenerationError('No content returned from API'));
+    });
+  });
+});
@@ -0,0 +1,38 @@
+import { IMetricsRegistry, TypedEventEmitter } from '@layr-labs/agentkit';
+
+// Proof generation waits on the prover's notarization, which takes seconds
+const PROOF_DURATION_BUCKETS = [0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60];
+
+/**
+ * Events emitted by `OpacityAdapter`, keyed by name
+ */
+export interface OpacityAdapterEvents {
+  /** The prover returned a proof for an inference's gateway log */
+  'proof-generated': { logId: string; model: string; durationMs: number };
+  /** The prover failed to prove an inference's gateway log */
+  'proof-failed': { logId: string; model: string; durationMs: number; error: unknown };
+}
+
+/**
+ * Record an adapter's events as metrics:
+ * - `opacity_proofs_total{result}` (counter): proofs by `success` or `failure`
+ * - `opacity_proof_duration_seconds{result}` (histogram)
+ */
+export function bindOpacityMetrics(events: TypedEventEmitter<OpacityAdapterEvents>, registry: IMetricsRegistry): void {
+  const proofs = registry.counter({ name: 'opacity_proofs_total', help: 'Proofs generated by result', labelNames: ['result'] });
+  const proofDuration = registry.histogram({
+    name: 'opacity_proof_duration_seconds',
+    help: 'Time taken to generate each proof',
+    labelNames: ['result'],
+    buckets: PROOF_DURATION_BUCKETS,
+  });
+
+  events.on('proof-generated', event => {
+    proofs.inc({ result: 'success' });
+    proofDuration.observe({ result: 'success' }, event.durationMs / 1000);
+  });
+  events.on('proof-failed', event => {
+    proofs.inc({ result: 'failure' });
+    proofDuration.observe({ result: 'failure' }, event.durationMs / 1000);
+  });
+}
@@ -1,3 +1,7 @@
 export * from './OpacityAdapter';
+export * from './OpacityProofVerifier';
+export * from './events';
 export * from './types';
-export * from './utils/api'; 
\ No newline at end of file
+export * from './utils/api';
+export * from './utils/commitment';
+export * from './utils/verify'; 
\ No newline at end of file
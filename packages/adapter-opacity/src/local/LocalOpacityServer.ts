@@ -0,0 +1,329 @@
+import { IncomingMessage, OutgoingHttpHeaders, ServerResponse } from 'http';
+import { createHash, createPrivateKey, createPublicKey, generateKeyPairSync, KeyObject, randomUUID, sign } from 'crypto';
+import { ChatMessage, HttpStatusError, canonicalJson } from '@layr-labs/agentkit';
+import {
+  LocalHttpFault,
+  LocalHttpServer,
+  LocalHttpServerOptions,
+  readJsonBody,
+  requestPath,
+} from '@layr-labs/agentkit-testing';
+import { ModelProvider, OpacityAttestation, OpacityTrustedKey } from '../types';
+import { requestMessages } from '../utils/commitment';
+
+/**
+ * An operation of the local gateway or prover, used to target injected faults
+ */
+export type LocalOpacityOperation = 'completion' | 'log' | 'prover';
+
+/**
+ * A failure the server returns instead of handling a request
+ */
+export interface LocalOpacityFault extends LocalHttpFault<LocalOpacityOperation> {
+  /** Handle the request but leave out the `cf-aig-log-id` header, instead of failing with `status` */
+  omitLogId?: boolean;
+}
+
+/**
+ * A chat completion request received by the local gateway
+ */
+export interface LocalOpacityCompletionRequest {
+  provider: ModelProvider;
+  model?: string;
+  /** The conversation, including any system prompt */
+  messages: ChatMessage[];
+  /** The request body as sent */
+  body: Record<string, unknown>;
+}
+
+/**
+ * A completion the gateway returns: fixed text, or text computed from the request
+ */
+export type LocalOpacityResponse = string | ((request: LocalOpacityCompletionRequest) => string);
+
+/**
+ * A gateway log, as the local prover serves it
+ */
+export interface LocalOpacityLog {
+  logId: string;
+  timestamp: number;
+  /** Whether the log was written by a chat completion or by `POST /logs` */
+  kind: 'completion' | 'log';
+  /** For completions, the request and the returned content; otherwise the logged data */
+  data: unknown;
+  level?: string;
+  metadata?: Record<string, unknown>;
+  tags?: string[];
+  /** The notary-signed record of the log */
+  attestation: OpacityAttestation;
+}
+
+/**
+ * Options for the local Opacity server
+ */
+export interface LocalOpacityServerOptions extends LocalHttpServerOptions {
+  /** Bearer token gateway requests must carry (default: any is accepted) */
+  apiKey?: string;
+  /** Completions to return in order, one per request */
+  responses?: LocalOpacityResponse[];
+  /** Completion returned once `responses` runs out (default: the last user message, echoed) */
+  defaultResponse?: LocalOpacityResponse;
+  /** Private key the notary signs attestations with, as PEM (default: a new Ed25519 key) */
+  notaryPrivateKey?: string;
+  /** Identifier the notary signs with (default: 'local-notary') */
+  notaryKeyId?: string;
+  /** Faults to inject from the start */
+  faults?: LocalOpacityFault[];
+}
+
+interface LocalOpacityReply {
+  body?: unknown;
+  /** Sent as the `cf-aig-log-id` header */
+  logId?: string;
+  /** Sent as server-sent events instead of `body` */
+  events?: unknown[];
+}
+
+/**
+ * Local stand-in for the Cloudflare AI Gateway and the Opacity prover, for integration tests
+ * and offline demos. The gateway answers chat completions with canned or echoed text and logs
+ * each request under a `cf-aig-log-id`; the prover serves those logs with attestations signed
+ * by a local notary key. Point both `gatewayUrl` and `opacityProverUrl` at the server's URL.
+ */
+export class LocalOpacityServer extends LocalHttpServer<LocalOpacityOperation, LocalOpacityFault> {
+  private readonly logs = new Map<string, LocalOpacityLog>();
+  private readonly responses: LocalOpacityResponse[];
+  private readonly notaryKey: KeyObject;
+  private readonly notaryKeyId: string;
+
+  constructor(private readonly options: LocalOpacityServerOptions = {}) {
+    super('Local Opacity server', options);
+    this.responses = [...(options.responses ?? [])];
+    this.notaryKey = options.notaryPrivateKey
+      ? createPrivateKey(options.notaryPrivateKey)
+      : generateKeyPairSync('ed25519').privateKey;
+    this.notaryKeyId = options.notaryKeyId ?? 'local-notary';
+    options.faults?.forEach(fault => this.injectFault(fault));
+  }
+
+  /**
+   * The notary's public key, for an adapter's `trustedNotaryKeys`
+   */
+  get trustedKey(): OpacityTrustedKey {
+    return {
+      keyId: this.notaryKeyId,
+      publicKey: createPublicKey(this.notaryKey).export({ type: 'spki', format: 'pem' }).toString(),
+    };
+  }
+
+  /**
+   * Queue completions to return before the default response
+   */
+  enqueueResponses(...responses: LocalOpacityResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Get a gateway log by ID
+   */
+  getLog(logId: string): LocalOpacityLog | undefined {
+    return this.logs.get(logId);
+  }
+
+  /**
+   * Get every gateway log, oldest first
+   */
+  getLogs(): LocalOpacityLog[] {
+    return [...this.logs.values()];
+  }
+
+  protected async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const { pathname, segments } = requestPath(request);
+    const route = this.route(request.method ?? 'GET', segments);
+    if (!route) {
+      this.respond(response, 404, { error: `No route for ${request.method} ${pathname}` });
+      return;
+    }
+
+    const fault = await this.takeFault(route.operation);
+    if (fault && !fault.omitLogId) {
+      this.respond(response, fault.status, { error: `Injected ${route.operation} failure` });
+      return;
+    }
+
+    if (route.operation !== 'prover') {
+      this.authorize(request);
+    }
+    const body = request.method === 'POST' ? await readJsonBody(request) : {};
+    const reply = await route.handler(body);
+    const headers: OutgoingHttpHeaders =
+      reply.logId && !fault?.omitLogId ? { 'cf-aig-log-id': reply.logId } : {};
+
+    if (reply.events) {
+      this.streamEvents(response, reply.events, headers);
+    } else {
+      this.respond(response, 200, reply.body, headers);
+    }
+  }
+
+  private route(
+    method: string,
+    segments: string[]
+  ): {
+    operation: LocalOpacityOperation;
+    handler: (body: Record<string, unknown>) => LocalOpacityReply | Promise<LocalOpacityReply>;
+  } | null {
+    const [first, second, third] = segments;
+
+    if (method === 'POST' && segments.length === 3 && second === 'chat' && third === 'completions') {
+      const provider = Object.values(ModelProvider).find(value => value === first);
+      if (provider) {
+        return { operation: 'completion', handler: body => this.complete(provider, body) };
+      }
+    }
+
+    if (method === 'POST' && segments.length === 1 && first === 'logs') {
+      return { operation: 'log', handler: body => this.storeLog(body) };
+    }
+
+    if (method === 'GET' && segments.length === 3 && first === 'api' && second === 'logs' && third) {
+      return { operation: 'prover', handler: () => ({ body: this.proverRecord(third) }) };
+    }
+
+    return null;
+  }
+
+  private complete(provider: ModelProvider, body: Record<string, unknown>): LocalOpacityReply {
+    if (!Array.isArray(body.messages) || body.messages.length === 0) {
+      throw new HttpStatusError('messages must be a non-empty array', 400);
+    }
+
+    const request: LocalOpacityCompletionRequest = {
+      provider,
+      model: typeof body.model === 'string' ? body.model : undefined,
+      messages: requestMessages(body),
+      body,
+    };
+    const content = this.nextResponse(request);
+
+    const log = this.record('completion', { request: body, response: content }, {
+      provider,
+      model: request.model,
+      messagesHash: sha256(canonicalJson(request.messages)),
+      requestHash: sha256(canonicalJson(body)),
+      contentHash: sha256(content),
+    });
+
+    if (body.stream === true) {
+      return { logId: log.logId, events: streamEvents(provider, content) };
+    }
+
+    // In the shape the adapter reads for each provider
+    const result = provider === ModelProvider.OPENAI
+      ? { choices: [{ message: { role: 'assistant', content } }] }
+      : { content };
+    return { logId: log.logId, body: result };
+  }
+
+  private storeLog(body: Record<string, unknown>): LocalOpacityReply {
+    const { data, level, metadata, tags } = body;
+    const log = this.record('log', data, { dataHash: sha256(canonicalJson({ data, level, metadata, tags })) });
+    log.level = typeof level === 'string' ? level : undefined;
+    log.metadata = metadata as Record<string, unknown> | undefined;
+    log.tags = tags as string[] | undefined;
+    return { logId: log.logId, body: { success: true } };
+  }
+
+  /**
+   * The prover's response for a log: the log record, its attestation and a success flag
+   */
+  private proverRecord(logId: string): Record<string, unknown> {
+    const log = this.logs.get(logId);
+    if (!log) {
+      throw new HttpStatusError(`Unknown log ${logId}`, 404);
+    }
+
+    return {
+      success: true,
+      logId,
+      timestamp: log.timestamp,
+      data: log.data,
+      level: log.level,
+      metadata: log.metadata,
+      tags: log.tags,
+      ...log.attestation,
+    };
+  }
+
+  /**
+   * Store a log with an attestation signed by the local notary
+   */
+  private record(
+    kind: LocalOpacityLog['kind'],
+    data: unknown,
+    attested: Record<string, unknown>
+  ): LocalOpacityLog {
+    const logId = randomUUID();
+    const timestamp = Date.now();
+    const payload = { logId, timestamp, kind, ...attested };
+
+    // Ed25519 keys sign the message directly; ECDSA and RSA keys sign its SHA-256 digest
+    const edwards = this.notaryKey.asymmetricKeyType === 'ed25519' || this.notaryKey.asymmetricKeyType === 'ed448';
+    const signature = sign(edwards ? null : 'sha256', Buffer.from(canonicalJson(payload)), this.notaryKey);
+
+    const log: LocalOpacityLog = {
+      logId,
+      timestamp,
+      kind,
+      data,
+      attestation: {
+        payload,
+        signatures: [{ keyId: this.notaryKeyId, signature: signature.toString('base64') }],
+      },
+    };
+    this.logs.set(logId, log);
+    return log;
+  }
+
+  private nextResponse(request: LocalOpacityCompletionRequest): string {
+    const response = this.responses.shift() ?? this.options.defaultResponse ?? echoLastUserMessage;
+    return typeof response === 'function' ? response(request) : response;
+  }
+
+  private authorize(request: IncomingMessage): void {
+    if (this.options.apiKey !== undefined && request.headers.authorization !== `Bearer ${this.options.apiKey}`) {
+      throw new HttpStatusError('Invalid API key', 401);
+    }
+  }
+
+  private streamEvents(response: ServerResponse, events: unknown[], headers: OutgoingHttpHeaders): void {
+    response.writeHead(200, { ...headers, 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache' });
+    for (const event of events) {
+      response.write(`data: ${typeof event === 'string' ? event : JSON.stringify(event)}\n\n`);
+    }
+    response.end();
+  }
+}
+
+/**
+ * Split a completion into word-sized stream events in the provider's format
+ */
+function streamEvents(provider: ModelProvider, content: string): unknown[] {
+  const words = content.match(/\S+\s*|\s+/g) ?? [];
+  if (provider === ModelProvider.OPENAI) {
+    return [...words.map(text => ({ choices: [{ delta: { content: text } }] })), '[DONE]'];
+  }
+  return [
+    ...words.map(text => ({ type: 'content_block_delta', delta: { type: 'text_delta', text } })),
+    { type: 'message_stop' },
+  ];
+}
+
+function echoLastUserMessage(request: LocalOpacityCompletionRequest): string {
+  const message = [...request.messages].reverse().find(candidate => candidate.role === 'user');
+  return message?.content ?? '';
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
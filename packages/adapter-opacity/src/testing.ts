@@ -0,0 +1,6 @@
+/**
+ * A local stand-in for the AI Gateway and the Opacity prover, for integration tests and offline
+ * demos. Imported from `@layr-labs/agentkit-opacity/testing`, so the main entry point does not
+ * load the test harness.
+ */
+export * from './local/LocalOpacityServer';
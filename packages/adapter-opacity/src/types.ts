@@ -1,3 +1,5 @@
+import type { IMetricsRegistry, RetryPolicy, TracerLike } from '@layr-labs/agentkit';
+
 /**
  * Supported model providers
  */
@@ -23,22 +25,22 @@ export interface OpacityAdapterConfig {
   modelProvider?: ModelProvider;
   /** Base URL for the Cloudflare AI Gateway (optional) */
   gatewayUrl?: string;
+  /** Notary keys to verify proofs against locally instead of asking the prover (optional) */
+  trustedNotaryKeys?: OpacityTrustedKey[];
+  /** Number of distinct trusted notaries that must sign a proof (default: 1) */
+  notaryThreshold?: number;
+  /** How gateway and prover requests are retried and timed out (optional) */
+  retry?: RetryPolicy;
+  /** OpenTelemetry tracer to record a span for each inference, carrying the gateway log ID (optional) */
+  tracer?: TracerLike;
+  /** Record proof counts and durations as metrics, e.g. in a PrometheusMetricsRegistry (optional) */
+  metrics?: IMetricsRegistry;
 }
 
 /**
- * Role of a chat message
- */
-export type MessageRole = 'system' | 'user' | 'assistant';
-
-/**
- * A single message in a chat conversation
+ * Chat message types, shared with the core interfaces
  */
-export interface ChatMessage {
-  /** The role of who sent the message */
-  role: MessageRole;
-  /** The content of the message */
-  content: string;
-}
+export type { ChatMessage, MessageRole } from '@layr-labs/agentkit';
 
 /**
  * Model configuration
@@ -72,4 +74,83 @@ export interface OpacityProverResponse {
   error?: string;
   /** Additional verification details */
   details?: unknown;
-} 
\ No newline at end of file
+} 
+/**
+ * A notary public key trusted to sign Opacity attestations
+ */
+export interface OpacityTrustedKey {
+  /** Identifier the notary signs with */
+  keyId: string;
+  /** Public key as PEM or base64-encoded DER (SPKI); Ed25519, ECDSA and RSA keys are supported */
+  publicKey: string;
+}
+
+/**
+ * Hashes binding a proof to the prompt, request and content it was generated for
+ */
+export interface OpacityCommitment {
+  /** Hash algorithm used for every field */
+  algorithm: 'sha256';
+  /** Hash of the canonical JSON encoding of the conversation sent, including any system prompt */
+  messagesHash: string;
+  /** Hash of the canonical JSON encoding of the request body sent to the gateway */
+  requestHash: string;
+  /** Hash of the returned content */
+  contentHash: string;
+}
+
+/**
+ * A notary signature over an Opacity attestation payload
+ */
+export interface OpacityNotarySignature {
+  /** Identifier of the notary key that produced the signature */
+  keyId: string;
+  /** Base64-encoded signature over the canonical JSON encoding of the payload */
+  signature: string;
+}
+
+/**
+ * Signed proof data returned by the Opacity prover
+ */
+export interface OpacityAttestation {
+  /** The notarised gateway log record */
+  payload: {
+    /** The Cloudflare log ID the attestation covers */
+    logId?: string;
+    [key: string]: unknown;
+  };
+  /** Notary signatures over the payload */
+  signatures: OpacityNotarySignature[];
+}
+
+/**
+ * Outcome of checking a single notary signature
+ */
+export interface OpacitySignatureCheck {
+  /** Identifier of the notary key */
+  keyId: string;
+  /** Whether the key is in the trusted set */
+  trusted: boolean;
+  /** Whether the signature verified against the trusted key */
+  valid: boolean;
+  /** Why the signature was rejected */
+  error?: string;
+}
+
+/**
+ * Detailed result of verifying an Opacity proof locally
+ */
+export interface OpacityVerificationResult {
+  /** Whether the proof passed every check */
+  valid: boolean;
+  /** The log ID from the proof metadata */
+  logId?: string;
+  /** Number of distinct trusted notaries required */
+  threshold: number;
+  /** Number of distinct trusted notaries with a valid signature */
+  validSignatures: number;
+  /** Per-signature results */
+  signatures: OpacitySignatureCheck[];
+  /** Reasons the proof was rejected */
+  errors: string[];
+}
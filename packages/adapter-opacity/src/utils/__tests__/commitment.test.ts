@@ -0,0 +1,218 @@
+import { ProofVerificationError, VerifiableInferenceResult } from '@layr-labs/agentkit';
+import { hashMockValue, signMockProof } from '@layr-labs/agentkit-testing';
+import { OpacityAdapter } from '../../OpacityAdapter';
+import { OpacityProofVerifier } from '../../OpacityProofVerifier';
+import { LocalOpacityServer } from '../../local/LocalOpacityServer';
+import { OpacityAttestation, OpacityCommitment } from '../../types';
+import { checkCommitment, createCommitment, requestMessages } from '../commitment';
+
+const PROMPT = 'What is the meaning of life?';
+const ANSWER = 'The answer is 42';
+
+function commitmentOf(result: VerifiableInferenceResult): OpacityCommitment {
+  return result.proof.metadata!.commitment as OpacityCommitment;
+}
+
+function attestationOf(result: VerifiableInferenceResult): OpacityAttestation {
+  return result.proof.data as OpacityAttestation;
+}
+
+function withCommitment(result: VerifiableInferenceResult, change: Partial<OpacityCommitment>): VerifiableInferenceResult {
+  return {
+    ...result,
+    proof: { ...result.proof, metadata: { ...result.proof.metadata, commitment: { ...commitmentOf(result), ...change } } },
+  };
+}
+
+function withAttestedPayload(result: VerifiableInferenceResult, payload: Record<string, unknown>): VerifiableInferenceResult {
+  return { ...result, proof: { ...result.proof, data: { ...attestationOf(result), payload } } };
+}
+
+describe('createCommitment', () => {
+  it('hashes equal requests identically whatever their key order', () => {
+    const messages = [{ role: 'user' as const, content: PROMPT }];
+    expect(createCommitment({ model: 'gpt-4o', messages }, ANSWER)).toEqual(
+      createCommitment({ messages, model: 'gpt-4o' }, ANSWER)
+    );
+    expect(createCommitment({ model: 'gpt-4o', messages }, ANSWER).requestHash).not.toBe(
+      createCommitment({ model: 'gpt-4o-mini', messages }, ANSWER).requestHash
+    );
+  });
+
+  it('hashes the conversation with an Anthropic system prompt as its leading message', () => {
+    const system = 'Be terse';
+    const messages = [{ role: 'user' as const, content: PROMPT }];
+    const conversation = [{ role: 'system' as const, content: system }, ...messages];
+
+    expect(requestMessages({ model: 'claude-3-sonnet', system, messages })).toEqual(conversation);
+    expect(createCommitment({ model: 'claude-3-sonnet', system, messages }, ANSWER).messagesHash).toBe(
+      createCommitment({ model: 'gpt-4o', messages: conversation }, ANSWER).messagesHash
+    );
+  });
+});
+
+describe('Opacity content commitments', () => {
+  let server: LocalOpacityServer;
+  let url: string;
+  let adapter: OpacityAdapter;
+  let result: VerifiableInferenceResult;
+
+  beforeAll(async () => {
+    jest.spyOn(console, 'debug').mockImplementation(() => undefined);
+    server = new LocalOpacityServer({ defaultResponse: ANSWER });
+    url = await server.start();
+    adapter = new OpacityAdapter({
+      teamId: 'local',
+      teamName: 'local',
+      apiKey: 'test-key',
+      gatewayUrl: url,
+      opacityProverUrl: url,
+      trustedNotaryKeys: [server.trustedKey],
+    });
+    result = await adapter.generateText(PROMPT);
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    jest.restoreAllMocks();
+  });
+
+  describe('with trusted notary keys', () => {
+    it('accepts an untampered result, with and without its prompt', async () => {
+      expect(result.content).toBe(ANSWER);
+      expect(checkCommitment(result, PROMPT)).toEqual([]);
+      await expect(adapter.verifyResult(result)).resolves.toBe(true);
+      await expect(adapter.verifyResult(result, PROMPT)).resolves.toBe(true);
+      await expect(adapter.verifyResult(result, [{ role: 'user', content: PROMPT }])).resolves.toBe(true);
+    });
+
+    it('rejects tampered content', async () => {
+      const tampered = { ...result, content: 'The answer is 43' };
+      await expect(adapter.verifyResult(tampered, PROMPT)).resolves.toBe(false);
+      expect(adapter.verifyProofDetailed(tampered).errors).toEqual(['Content does not match the proof commitment']);
+    });
+
+    it('rejects another prompt', async () => {
+      await expect(adapter.verifyResult(result, 'What is the meaning of death?')).resolves.toBe(false);
+      expect(checkCommitment(result, [{ role: 'system', content: 'Be terse' }, { role: 'user', content: PROMPT }])).toEqual([
+        'Prompt does not match the proof commitment',
+      ]);
+    });
+
+    it('rejects tampered content with a commitment rewritten to match it', async () => {
+      const content = 'The answer is 43';
+      const tampered = withCommitment({ ...result, content }, { contentHash: hashMockValue(content) });
+
+      await expect(adapter.verifyResult(tampered, PROMPT)).resolves.toBe(false);
+      expect(adapter.verifyProofDetailed(tampered, PROMPT).errors).toEqual([
+        'Attested contentHash does not match the proof commitment',
+      ]);
+    });
+
+    it('rejects another prompt with a commitment rewritten to match it', async () => {
+      const prompt = 'What is the meaning of death?';
+      const tampered = withCommitment(result, { messagesHash: hashMockValue([{ role: 'user', content: prompt }]) });
+
+      await expect(adapter.verifyResult(tampered, prompt)).resolves.toBe(false);
+      expect(adapter.verifyProofDetailed(tampered, prompt).errors).toEqual([
+        'Attested messagesHash does not match the proof commitment',
+      ]);
+    });
+
+    it('rejects a rewritten request hash', async () => {
+      const tampered = withCommitment(result, { requestHash: hashMockValue({ model: 'gpt-4o-mini' }) });
+      expect(adapter.verifyProofDetailed(tampered).errors).toEqual([
+        'Attested requestHash does not match the proof commitment',
+      ]);
+    });
+
+    it('rejects an attestation payload rewritten to match tampered content', async () => {
+      const content = 'The answer is 43';
+      const contentHash = hashMockValue(content);
+      const tampered = withAttestedPayload(
+        withCommitment({ ...result, content }, { contentHash }),
+        { ...attestationOf(result).payload, contentHash }
+      );
+
+      expect(checkCommitment(tampered)).toEqual([]);
+      await expect(adapter.verifyResult(tampered)).resolves.toBe(false);
+    });
+
+    it.each(['messagesHash', 'requestHash', 'contentHash'])('rejects an attestation that does not carry a %s', field => {
+      const payload = { ...attestationOf(result).payload };
+      delete payload[field];
+      expect(checkCommitment(withAttestedPayload(result, payload))).toEqual([`Attestation does not carry a ${field}`]);
+    });
+
+    it('rejects a proof without a commitment or with an unknown algorithm', async () => {
+      const metadata = { ...result.proof.metadata };
+      delete metadata.commitment;
+      const uncommitted = { ...result, proof: { ...result.proof, metadata } };
+
+      expect(checkCommitment(uncommitted)).toEqual(['Proof has no content commitment']);
+      await expect(adapter.verifyResult(uncommitted)).resolves.toBe(false);
+      expect(checkCommitment(withCommitment(result, { algorithm: 'md5' as 'sha256' }))).toEqual([
+        'Unsupported commitment algorithm: md5',
+      ]);
+    });
+
+    it('rejects a proof of another type for the same content', async () => {
+      const proof = signMockProof({
+        inputHash: hashMockValue([{ role: 'user', content: PROMPT }]),
+        contentHash: hashMockValue(ANSWER),
+        model: 'gpt-4o',
+        sequence: 1,
+      });
+
+      await expect(adapter.verifyResult({ content: ANSWER, proof }, PROMPT)).resolves.toBe(false);
+      expect(checkCommitment({ content: ANSWER, proof })).toEqual(['Proof has no content commitment']);
+    });
+
+    it('rejects a proof signed by an untrusted notary', async () => {
+      const other = new LocalOpacityServer();
+      const verifier = new OpacityProofVerifier({ trustedNotaryKeys: [other.trustedKey] });
+      await expect(verifier.verifyResult(result, PROMPT)).resolves.toBe(false);
+    });
+  });
+
+  describe("against the prover's record, without trusted keys", () => {
+    let verifier: OpacityProofVerifier;
+
+    beforeAll(() => {
+      verifier = new OpacityProofVerifier({ opacityProverUrl: url });
+    });
+
+    it('accepts an untampered result', async () => {
+      await expect(verifier.verifyResult(result, PROMPT)).resolves.toBe(true);
+    });
+
+    it('rejects tampered content, prompt or commitment', async () => {
+      const content = 'The answer is 43';
+      await expect(verifier.verifyResult({ ...result, content }, PROMPT)).resolves.toBe(false);
+      await expect(verifier.verifyResult(result, 'What is the meaning of death?')).resolves.toBe(false);
+      await expect(
+        verifier.verifyResult(withCommitment({ ...result, content }, { contentHash: hashMockValue(content) }))
+      ).resolves.toBe(false);
+
+      const prompt = 'What is the meaning of death?';
+      await expect(
+        verifier.verifyResult(withCommitment(result, { messagesHash: hashMockValue([{ role: 'user', content: prompt }]) }), prompt)
+      ).resolves.toBe(false);
+    });
+
+    it("ignores an attestation rewritten in the proof, checking the prover's own", async () => {
+      const content = 'The answer is 43';
+      const contentHash = hashMockValue(content);
+      const tampered = withAttestedPayload(
+        withCommitment({ ...result, content }, { contentHash }),
+        { ...attestationOf(result).payload, contentHash }
+      );
+      await expect(verifier.verifyResult(tampered)).resolves.toBe(false);
+    });
+
+    it('fails on a proof whose log the prover does not know', async () => {
+      const unknown = { ...result, proof: { ...result.proof, metadata: { ...result.proof.metadata, logId: 'missing' } } };
+      await expect(verifier.verifyResult(unknown)).rejects.toThrow(ProofVerificationError);
+    });
+  });
+});
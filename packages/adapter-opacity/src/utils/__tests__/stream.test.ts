@@ -0,0 +1,83 @@
+import { OperationCancelledError } from '@layr-labs/agentkit';
+import { readServerSentEvents } from '../stream';
+
+function body(chunks: Array<string | Uint8Array>): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) {
+        controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+      }
+      controller.close();
+    },
+  });
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>, signal?: AbortSignal): Promise<string[]> {
+  const events: string[] = [];
+  for await (const data of readServerSentEvents(stream, signal)) {
+    events.push(data);
+  }
+  return events;
+}
+
+describe('readServerSentEvents', () => {
+  it('reads one payload per event', async () => {
+    await expect(readAll(body(['data: {"a":1}\n\ndata: {"a":2}\n\ndata: [DONE]\n\n']))).resolves.toEqual([
+      '{"a":1}',
+      '{"a":2}',
+      '[DONE]',
+    ]);
+  });
+
+  it('reassembles events, blank-line separators and characters split across chunks', async () => {
+    const bytes = new TextEncoder().encode('data: {"text":"héllo"}\n\ndata: {"text":"wörld"}\n\n');
+    const split = bytes.indexOf(0xc3) + 1;
+    const separator = bytes.indexOf(0x0a) + 1;
+
+    await expect(readAll(body([
+      bytes.subarray(0, 3),
+      bytes.subarray(3, split),
+      bytes.subarray(split, separator),
+      bytes.subarray(separator),
+    ]))).resolves.toEqual(['{"text":"héllo"}', '{"text":"wörld"}']);
+  });
+
+  it('joins the lines of a multi-line data field', async () => {
+    await expect(readAll(body(['data: {"text":\ndata:"multi\ndata:  line"}\n\n']))).resolves.toEqual([
+      '{"text":\n"multi\n line"}',
+    ]);
+  });
+
+  it('accepts CRLF line endings and skips comments, other fields and events without data', async () => {
+    await expect(readAll(body([
+      ': keep-alive\r\n\r\n',
+      'event: message_start\r\nid: 1\r\ndata: {"a":1}\r\n\r\n',
+      'retry: 1000\r\n\r\n',
+    ]))).resolves.toEqual(['{"a":1}']);
+  });
+
+  it('reads a last event that is not followed by a blank line', async () => {
+    await expect(readAll(body(['data: first\n\n', 'data: last']))).resolves.toEqual(['first', 'last']);
+  });
+
+  it('stops with an OperationCancelledError while waiting for data', async () => {
+    const controller = new AbortController();
+    const stream = new ReadableStream<Uint8Array>({
+      start(streamController) {
+        streamController.enqueue(new TextEncoder().encode('data: first\n\n'));
+      },
+    });
+    const events: string[] = [];
+
+    const reading = (async () => {
+      for await (const data of readServerSentEvents(stream, controller.signal)) {
+        events.push(data);
+        controller.abort();
+      }
+    })();
+
+    await expect(reading).rejects.toThrow(OperationCancelledError);
+    expect(events).toEqual(['first']);
+  });
+});
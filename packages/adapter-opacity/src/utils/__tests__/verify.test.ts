@@ -0,0 +1,155 @@
+import { generateKeyPairSync, KeyObject, sign } from 'crypto';
+import { Proof, canonicalJson } from '@layr-labs/agentkit';
+import { OpacityAttestation, OpacityTrustedKey } from '../../types';
+import { validateOpacityProofData, verifyProofOffline } from '../verify';
+
+interface Notary {
+  trustedKey: OpacityTrustedKey;
+  privateKey: KeyObject;
+}
+
+function notary(keyId: string, type: 'ed25519' | 'ec' = 'ed25519'): Notary {
+  const { publicKey, privateKey } = type === 'ec'
+    ? generateKeyPairSync('ec', { namedCurve: 'P-256' })
+    : generateKeyPairSync('ed25519');
+  return {
+    trustedKey: { keyId, publicKey: publicKey.export({ type: 'spki', format: 'der' }).toString('base64') },
+    privateKey,
+  };
+}
+
+function signPayload(payload: OpacityAttestation['payload'], signer: Notary, keyId = signer.trustedKey.keyId) {
+  const algorithm = signer.privateKey.asymmetricKeyType === 'ed25519' ? null : 'sha256';
+  return { keyId, signature: sign(algorithm, Buffer.from(canonicalJson(payload)), signer.privateKey).toString('base64') };
+}
+
+function attestedProof(signers: Notary[], payload: OpacityAttestation['payload'] = { logId: 'log-1', contentHash: 'abc' }): Proof {
+  return {
+    type: 'opacity',
+    data: { payload, signatures: signers.map(signer => signPayload(payload, signer)) },
+    timestamp: 0,
+    metadata: { logId: 'log-1' },
+  };
+}
+
+describe('verifyProofOffline', () => {
+  const first = notary('notary-1');
+  const second = notary('notary-2', 'ec');
+  const untrusted = notary('notary-3');
+  const trustedKeys = [first.trustedKey, second.trustedKey];
+
+  it('accepts a proof signed by enough trusted notaries', () => {
+    const result = verifyProofOffline(attestedProof([first, second]), { trustedKeys, threshold: 2 });
+
+    expect(result).toEqual({
+      valid: true,
+      logId: 'log-1',
+      threshold: 2,
+      validSignatures: 2,
+      signatures: [
+        { keyId: 'notary-1', trusted: true, valid: true },
+        { keyId: 'notary-2', trusted: true, valid: true },
+      ],
+      errors: [],
+    });
+  });
+
+  it('accepts PEM public keys', () => {
+    const { publicKey, privateKey } = generateKeyPairSync('ed25519');
+    const pem = { trustedKey: { keyId: 'pem', publicKey: publicKey.export({ type: 'spki', format: 'pem' }).toString() }, privateKey };
+
+    expect(verifyProofOffline(attestedProof([pem]), { trustedKeys: [pem.trustedKey] }).valid).toBe(true);
+  });
+
+  it('rejects a proof with fewer valid trusted signatures than the threshold', () => {
+    const result = verifyProofOffline(attestedProof([first]), { trustedKeys, threshold: 2 });
+
+    expect(result.valid).toBe(false);
+    expect(result.validSignatures).toBe(1);
+    expect(result.errors).toEqual(['Found 1 valid trusted signature(s), 2 required']);
+  });
+
+  it('does not count a signature from an unknown key', () => {
+    const result = verifyProofOffline(attestedProof([untrusted]), { trustedKeys });
+
+    expect(result.valid).toBe(false);
+    expect(result.signatures).toEqual([
+      { keyId: 'notary-3', trusted: false, valid: false, error: 'Signature is not from a trusted notary' },
+    ]);
+    expect(result.errors).toEqual(['Found 0 valid trusted signature(s), 1 required']);
+  });
+
+  it('does not count a signature made with another key under a trusted key ID', () => {
+    const payload = { logId: 'log-1' };
+    const proof = attestedProof([], payload);
+    (proof.data as OpacityAttestation).signatures.push(signPayload(payload, untrusted, 'notary-1'));
+
+    const result = verifyProofOffline(proof, { trustedKeys });
+
+    expect(result.signatures).toEqual([
+      { keyId: 'notary-1', trusted: true, valid: false, error: 'Signature does not match the attested payload' },
+    ]);
+    expect(result.valid).toBe(false);
+  });
+
+  it('counts a notary that signed more than once towards the threshold only once', () => {
+    const result = verifyProofOffline(attestedProof([first, first]), { trustedKeys, threshold: 2 });
+
+    expect(result.signatures.map(check => check.valid)).toEqual([true, true]);
+    expect(result.validSignatures).toBe(1);
+    expect(result.errors).toEqual(['Found 1 valid trusted signature(s), 2 required']);
+  });
+
+  it('rejects a payload changed after signing', () => {
+    const proof = attestedProof([first]);
+    const attestation = proof.data as OpacityAttestation;
+    attestation.payload = { ...attestation.payload, contentHash: 'def' };
+
+    const result = verifyProofOffline(proof, { trustedKeys });
+
+    expect(result.valid).toBe(false);
+    expect(result.signatures[0]!.error).toBe('Signature does not match the attested payload');
+  });
+
+  it('rejects an attestation signed for another log', () => {
+    const proof = attestedProof([first], { logId: 'log-2' });
+
+    const result = verifyProofOffline(proof, { trustedKeys });
+
+    expect(result.valid).toBe(false);
+    expect(result.validSignatures).toBe(1);
+    expect(result.errors).toEqual(['Attested log ID log-2 does not match proof log ID log-1']);
+  });
+
+  it('rejects a proof without a log ID in its metadata', () => {
+    const proof = { ...attestedProof([first]), metadata: {} };
+
+    expect(verifyProofOffline(proof, { trustedKeys }).errors).toEqual(['Proof metadata has no log ID']);
+  });
+
+  it('rejects proofs of another type or without an attestation', () => {
+    expect(verifyProofOffline({ ...attestedProof([first]), type: 'mock' }, { trustedKeys }).errors).toEqual([
+      'Invalid proof type: mock',
+    ]);
+    expect(verifyProofOffline({ ...attestedProof([first]), data: { success: true } }, { trustedKeys }).errors).toEqual([
+      'Proof data is not a signed Opacity attestation',
+    ]);
+  });
+
+  it.each([0, -1, 1.5, NaN])('refuses a threshold of %s', threshold => {
+    expect(() => verifyProofOffline(attestedProof([first]), { trustedKeys, threshold })).toThrow(
+      `Notary threshold must be a positive integer, got ${threshold}`
+    );
+  });
+});
+
+describe('validateOpacityProofData', () => {
+  it.each([
+    ['a signed attestation', { payload: {}, signatures: [{ keyId: 'a', signature: 'b' }] }, []],
+    ['a non-object', 'proof', ['must be an object']],
+    ['missing fields', {}, ['payload must be an object', 'signatures must be an array']],
+    ['a malformed signature', { payload: {}, signatures: [{ keyId: 1 }] }, ['signatures[0] must have a string keyId and signature']],
+  ])('checks %s', (_name, data, errors) => {
+    expect(validateOpacityProofData(data)).toEqual(errors);
+  });
+});
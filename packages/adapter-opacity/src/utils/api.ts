@@ -1,21 +1,27 @@
-import { Proof } from '@layr-labs/agentkit';
+import { HttpStatusError, Proof, RetryPolicy, withRetry } from '@layr-labs/agentkit';
+import { OpacityCommitment, OpacityProverResponse } from '../types';
 
 /**
- * Generate a proof for a log ID using the Opacity prover service
+ * Options for requests to the Opacity prover service
  */
-export async function generateProof(proverUrl: string, logId: string): Promise<Proof> {
-  const response = await fetch(`${proverUrl}/api/logs/${logId}`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    }
-  });
-
-  if (!response.ok) {
-    throw new Error(`Failed to generate proof: ${response.statusText}`);
-  }
+export interface ProverRequestOptions {
+  /** How the request is retried and timed out */
+  retry?: RetryPolicy;
+  /** Cancels the request with an `OperationCancelledError` */
+  signal?: AbortSignal;
+}
 
-  const result = await response.json();
+/**
+ * Generate a proof for a log ID using the Opacity prover service
+ * @param commitment Optional hashes binding the proof to the prompt and content it covers
+ */
+export async function generateProof(
+  proverUrl: string,
+  logId: string,
+  commitment?: OpacityCommitment,
+  options: ProverRequestOptions = {}
+): Promise<Proof> {
+  const result = await fetchProverLog(proverUrl, logId, 'Failed to generate proof', options);
   return {
     type: 'opacity',
     data: result,
@@ -23,14 +29,34 @@ export async function generateProof(proverUrl: string, logId: string): Promise<P
     metadata: {
       logId,
       proverUrl,
+      ...(commitment && { commitment }),
     },
   };
 }
 
 /**
- * Verify a proof using the Opacity prover service
+ * Verify a proof using the Opacity prover service. Use `verifyProofOffline` to verify
+ * without contacting the prover.
  */
-export async function verifyProof(proverUrl: string, proof: Proof): Promise<boolean> {
+export async function verifyProof(
+  proverUrl: string,
+  proof: Proof,
+  options: ProverRequestOptions = {}
+): Promise<boolean> {
+  const result = await fetchNotarisedLog(proverUrl, proof, options);
+  // Only an explicit success from the prover counts as valid
+  return result.success === true;
+}
+
+/**
+ * Fetch the prover's own record of a proof's log, with its attestation. Checking a commitment
+ * against this record rather than the proof's copy of it needs no trusted notary keys.
+ */
+export async function fetchNotarisedLog(
+  proverUrl: string,
+  proof: Proof,
+  options: ProverRequestOptions = {}
+): Promise<Partial<OpacityProverResponse> & { payload?: unknown }> {
   if (proof.type !== 'opacity') {
     throw new Error('Invalid proof type');
   }
@@ -40,17 +66,38 @@ export async function verifyProof(proverUrl: string, proof: Proof): Promise<bool
     throw new Error('Missing log ID in proof metadata');
   }
 
-  const response = await fetch(`${proverUrl}/api/logs/${logId}`, {
-    method: 'GET',
-    headers: {
-      'Content-Type': 'application/json',
-    }
-  });
+  return (await fetchProverLog(
+    proverUrl,
+    logId,
+    'Failed to verify proof',
+    options
+  )) as Partial<OpacityProverResponse> & { payload?: unknown };
+}
 
-  if (!response.ok) {
-    throw new Error(`Failed to verify proof: ${response.statusText}`);
-  }
+/**
+ * Fetch the prover's record of a log, retrying transient failures
+ * @param errorMessage Prefixes the status text of an error response
+ * @throws {HttpStatusError} If the prover responds with an error status
+ */
+export async function fetchProverLog(
+  proverUrl: string,
+  logId: string,
+  errorMessage: string,
+  options: ProverRequestOptions
+): Promise<unknown> {
+  return withRetry(async ({ signal }) => {
+    const response = await fetch(`${proverUrl}/api/logs/${logId}`, {
+      method: 'GET',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      signal,
+    });
+
+    if (!response.ok) {
+      throw new HttpStatusError(`${errorMessage}: ${response.statusText}`, response.status);
+    }
 
-  const result = await response.json();
-  return result.success ?? true; // Default to true if success field is not present
+    return response.json();
+  }, options.retry, options.signal);
 } 
\ No newline at end of file
@@ -0,0 +1,82 @@
+import { createHash } from 'crypto';
+import { ChatMessage, VerifiableInferenceResult, canonicalJson } from '@layr-labs/agentkit';
+import { OpacityCommitment } from '../types';
+
+/**
+ * Commit to the conversation, the exact request body and the returned content,
+ * so a proof cannot be reattached to a different prompt or output
+ */
+export function createCommitment(
+  requestBody: Record<string, unknown>,
+  content: string
+): OpacityCommitment {
+  return {
+    algorithm: 'sha256',
+    messagesHash: sha256(canonicalJson(requestMessages(requestBody))),
+    requestHash: sha256(canonicalJson(requestBody)),
+    contentHash: sha256(content),
+  };
+}
+
+/**
+ * Check that a result's proof commits to its content and, when given, to the prompt or messages.
+ * The commitment in the proof metadata is unsigned, so its messages, request and content hashes
+ * must also appear in the notary-signed attestation payload; proofs whose attestation lacks them fail.
+ * @returns The reasons the commitment does not hold; empty if it does
+ */
+export function checkCommitment(
+  result: VerifiableInferenceResult,
+  input?: string | ChatMessage[]
+): string[] {
+  const commitment = result.proof.metadata?.commitment as Partial<OpacityCommitment> | undefined;
+  if (!commitment || typeof commitment !== 'object') {
+    return ['Proof has no content commitment'];
+  }
+
+  if (commitment.algorithm !== 'sha256') {
+    return [`Unsupported commitment algorithm: ${String(commitment.algorithm)}`];
+  }
+
+  const errors: string[] = [];
+  if (commitment.contentHash !== sha256(result.content)) {
+    errors.push('Content does not match the proof commitment');
+  }
+
+  if (input !== undefined) {
+    const messages: ChatMessage[] =
+      typeof input === 'string' ? [{ role: 'user', content: input }] : input;
+    if (commitment.messagesHash !== sha256(canonicalJson(messages))) {
+      errors.push('Prompt does not match the proof commitment');
+    }
+  }
+
+  const attested = (result.proof.data as { payload?: Partial<OpacityCommitment> } | null)?.payload;
+  if (!attested || typeof attested !== 'object') {
+    errors.push('Proof has no signed attestation payload to check the commitment against');
+    return errors;
+  }
+  for (const field of ['messagesHash', 'requestHash', 'contentHash'] as const) {
+    if (typeof attested[field] !== 'string') {
+      errors.push(`Attestation does not carry a ${field}`);
+    } else if (attested[field] !== commitment[field]) {
+      errors.push(`Attested ${field} does not match the proof commitment`);
+    }
+  }
+
+  return errors;
+}
+
+/**
+ * The conversation a chat completion request sends, with a top-level Anthropic system prompt
+ * as the leading system message, so both providers' requests hash the same way
+ */
+export function requestMessages(requestBody: Record<string, unknown>): ChatMessage[] {
+  const messages = Array.isArray(requestBody.messages) ? (requestBody.messages as ChatMessage[]) : [];
+  return typeof requestBody.system === 'string'
+    ? [{ role: 'system', content: requestBody.system }, ...messages]
+    : messages;
+}
+
+function sha256(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
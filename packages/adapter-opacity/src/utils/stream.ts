@@ -0,0 +1,68 @@
+import { throwIfCancelled } from '@layr-labs/agentkit';
+
+/**
+ * Read the `data:` payloads of a server-sent events stream, one event at a time
+ * @param signal Stops reading with an `OperationCancelledError`, even while waiting for data
+ */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let finished = false;
+
+  // Cancelling the reader ends a pending read, which then sees the aborted signal
+  const onAbort = () => {
+    reader.cancel().catch(() => undefined);
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    throwIfCancelled(signal);
+    while (true) {
+      const { done, value } = await reader.read();
+      throwIfCancelled(signal);
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+
+      // Events are separated by a blank line
+      let boundary = buffer.search(/\r?\n\r?\n/);
+      while (boundary !== -1) {
+        const rawEvent = buffer.slice(0, boundary);
+        buffer = buffer.slice(boundary).replace(/^\r?\n\r?\n/, '');
+
+        const data = parseEventData(rawEvent);
+        if (data !== null) {
+          yield data;
+        }
+        boundary = buffer.search(/\r?\n\r?\n/);
+      }
+
+      if (done) {
+        const data = parseEventData(buffer);
+        if (data !== null) {
+          yield data;
+        }
+        finished = true;
+        return;
+      }
+    }
+  } finally {
+    signal?.removeEventListener('abort', onAbort);
+    // Stop the underlying request if the consumer stopped reading early
+    if (!finished) {
+      await reader.cancel().catch(() => undefined);
+    }
+    reader.releaseLock();
+  }
+}
+
+function parseEventData(rawEvent: string): string | null {
+  const dataLines = rawEvent
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''));
+
+  return dataLines.length > 0 ? dataLines.join('\n') : null;
+}
@@ -0,0 +1,162 @@
+import { createPublicKey, verify, KeyObject } from 'crypto';
+import { Proof, canonicalJson } from '@layr-labs/agentkit';
+import {
+  OpacityAttestation,
+  OpacitySignatureCheck,
+  OpacityTrustedKey,
+  OpacityVerificationResult,
+} from '../types';
+
+/**
+ * Options for verifying an Opacity proof locally
+ */
+export interface OfflineVerificationOptions {
+  /** Notary keys whose signatures are accepted */
+  trustedKeys: OpacityTrustedKey[];
+  /** Number of distinct trusted notaries that must have signed (default: 1) */
+  threshold?: number;
+}
+
+/**
+ * Verify an Opacity proof locally, checking its notary signatures against a set of trusted keys.
+ * Needs no network access, so stored proofs can be audited offline.
+ * @throws {Error} If the threshold is not a positive integer
+ */
+export function verifyProofOffline(
+  proof: Proof,
+  options: OfflineVerificationOptions
+): OpacityVerificationResult {
+  const threshold = options.threshold ?? 1;
+  validateNotaryThreshold(threshold);
+  const logId = typeof proof.metadata?.logId === 'string' ? proof.metadata.logId : undefined;
+  const result: OpacityVerificationResult = {
+    valid: false,
+    logId,
+    threshold,
+    validSignatures: 0,
+    signatures: [],
+    errors: [],
+  };
+
+  if (proof.type !== 'opacity') {
+    result.errors.push(`Invalid proof type: ${proof.type}`);
+    return result;
+  }
+
+  if (!isAttestation(proof.data)) {
+    result.errors.push('Proof data is not a signed Opacity attestation');
+    return result;
+  }
+
+  const attestation = proof.data;
+  const attestedLogId = attestation.payload.logId;
+  if (!logId) {
+    result.errors.push('Proof metadata has no log ID');
+  } else if (attestedLogId !== logId) {
+    result.errors.push(`Attested log ID ${String(attestedLogId)} does not match proof log ID ${logId}`);
+  }
+
+  const trustedKeys = new Map(options.trustedKeys.map(key => [key.keyId, key]));
+  const signedPayload = Buffer.from(canonicalJson(attestation.payload));
+  const validNotaries = new Set<string>();
+
+  for (const signature of attestation.signatures) {
+    const check: OpacitySignatureCheck = {
+      keyId: signature.keyId,
+      trusted: trustedKeys.has(signature.keyId),
+      valid: false,
+    };
+
+    const trustedKey = trustedKeys.get(signature.keyId);
+    if (!trustedKey) {
+      check.error = 'Signature is not from a trusted notary';
+    } else {
+      try {
+        check.valid = verifySignature(
+          signedPayload,
+          Buffer.from(signature.signature, 'base64'),
+          toKeyObject(trustedKey.publicKey)
+        );
+        if (!check.valid) {
+          check.error = 'Signature does not match the attested payload';
+        }
+      } catch (error) {
+        check.error = error instanceof Error ? error.message : String(error);
+      }
+    }
+
+    if (check.valid) {
+      validNotaries.add(check.keyId);
+    }
+    result.signatures.push(check);
+  }
+
+  result.validSignatures = validNotaries.size;
+  if (result.validSignatures < threshold) {
+    result.errors.push(
+      `Found ${result.validSignatures} valid trusted signature(s), ${threshold} required`
+    );
+  }
+
+  result.valid = result.errors.length === 0;
+  return result;
+}
+
+/**
+ * Check that a notary threshold is a positive integer, as a threshold of 0 would accept unsigned proofs
+ */
+export function validateNotaryThreshold(threshold: number): void {
+  if (!Number.isInteger(threshold) || threshold < 1) {
+    throw new Error(`Notary threshold must be a positive integer, got ${threshold}`);
+  }
+}
+
+function isAttestation(data: unknown): data is OpacityAttestation {
+  return validateOpacityProofData(data).length === 0;
+}
+
+/**
+ * Check that proof data is a signed Opacity attestation, for use as a `ProofDataValidator`
+ * @returns The problems found; empty if the data is well-formed
+ */
+export function validateOpacityProofData(data: unknown): string[] {
+  if (!data || typeof data !== 'object') {
+    return ['must be an object'];
+  }
+
+  const { payload, signatures } = data as Partial<OpacityAttestation>;
+  const errors: string[] = [];
+  if (!payload || typeof payload !== 'object') {
+    errors.push('payload must be an object');
+  }
+  if (!Array.isArray(signatures)) {
+    errors.push('signatures must be an array');
+  } else {
+    signatures.forEach((signature, index) => {
+      if (
+        !signature ||
+        typeof signature.keyId !== 'string' ||
+        typeof signature.signature !== 'string'
+      ) {
+        errors.push(`signatures[${index}] must have a string keyId and signature`);
+      }
+    });
+  }
+  return errors;
+}
+
+/**
+ * Accept PEM or base64-encoded DER (SPKI) public keys
+ */
+function toKeyObject(publicKey: string): KeyObject {
+  if (publicKey.includes('-----BEGIN')) {
+    return createPublicKey(publicKey);
+  }
+  return createPublicKey({ key: Buffer.from(publicKey, 'base64'), format: 'der', type: 'spki' });
+}
+
+function verifySignature(data: Buffer, signature: Buffer, key: KeyObject): boolean {
+  // Edwards-curve keys sign the message directly; ECDSA and RSA keys sign its SHA-256 digest
+  const edwards = key.asymmetricKeyType === 'ed25519' || key.asymmetricKeyType === 'ed448';
+  return verify(edwards ? null : 'sha256', data, key, signature);
+}
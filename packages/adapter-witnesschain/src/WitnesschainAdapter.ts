@@ -3,23 +3,36 @@ import * as fs from "fs";
 import * as path from "path";
 import FormData from "form-data";
 import * as ethers from "ethers";
+import {
+  OperationCancelledError,
+  RetryPolicy,
+  mergeRetryPolicy,
+  nonIdempotentRetryPolicy,
+  withRetry,
+} from "@layr-labs/agentkit";
 import { WitnesschainError, APIError, NetworkError } from "./errorHandler";
 
+// Time limit for each blockchain API request unless the retry policy sets one
+const DEFAULT_REQUEST_TIMEOUT = 10000;
+
 export class WitnesschainAdapter {
   private apiUrl: string;
   private blockchainApiUrl: string;
   private wallet;
   private cookies: string;
+  private retryPolicy: RetryPolicy;
 
   constructor(
     apiUrl: string = "http://localhost:8000/classify-photos/",
     blockchainApiUrl: string = "https://testnet.witnesschain.com/proof/v1/pol",
-    privateKey: string = ""
+    privateKey: string = "",
+    retryPolicy: RetryPolicy = {}
   ) {
     this.apiUrl = apiUrl;
     this.blockchainApiUrl = blockchainApiUrl;
     this.wallet = privateKey ? new ethers.Wallet(privateKey) : null;
     this.cookies = "";
+    this.retryPolicy = retryPolicy;
 
     if (!privateKey) {
       console.error("'privateKey' is not defined!");
@@ -28,10 +41,15 @@ export class WitnesschainAdapter {
 
   async doPost(api: string, data: object): Promise<any> {
     try {
-      const response = await axios.post(`${this.blockchainApiUrl}/${api}`, data, {
-        headers: { "Content-Type": "application/json", "Cookie": this.cookies },
-        timeout: 10000,
-      });
+      const response = await withRetry(
+        ({ signal }) =>
+          axios.post(`${this.blockchainApiUrl}/${api}`, data, {
+            headers: { "Content-Type": "application/json", "Cookie": this.cookies },
+            signal,
+          }),
+        // Requests such as accepting a photo change state, so only unsent ones are retried
+        nonIdempotentRetryPolicy(mergeRetryPolicy({ timeout: DEFAULT_REQUEST_TIMEOUT }, this.retryPolicy))
+      );
 
       const all_cookies = response.headers['set-cookie'] ?? [];
 
@@ -60,27 +78,38 @@ export class WitnesschainAdapter {
     }
   }
 
-  async classifyPhotos(imagePaths: string[], task: string): Promise<any> {
+  async classifyPhotos(
+    imagePaths: string[],
+    task: string,
+    options: { signal?: AbortSignal } = {}
+  ): Promise<any> {
     if (!imagePaths.length) {
       throw new WitnesschainError("At least one image path must be provided.");
     }
 
-    const formData = new FormData();
     try {
       for (const imgPath of imagePaths) {
         if (!fs.existsSync(imgPath)) {
           throw new WitnesschainError(`Image file not found: ${imgPath}`);
         }
-        formData.append("photos", fs.createReadStream(imgPath), {
-          filename: path.basename(imgPath),
-          contentType: "image/jpeg",
-        });
       }
-      formData.append("task", task);
-      const response = await axios.post(this.apiUrl, formData, { headers: formData.getHeaders() });
+
+      const response = await withRetry(({ signal }) => {
+        // File streams are consumed by a request, so each attempt builds its own form
+        const formData = new FormData();
+        for (const imgPath of imagePaths) {
+          formData.append("photos", fs.createReadStream(imgPath), {
+            filename: path.basename(imgPath),
+            contentType: "image/jpeg",
+          });
+        }
+        formData.append("task", task);
+        return axios.post(this.apiUrl, formData, { headers: formData.getHeaders(), signal });
+      }, nonIdempotentRetryPolicy(this.retryPolicy), options.signal);
 
       return response.data;
     } catch (error: any) {
+      if (error instanceof OperationCancelledError) throw error;
       throw new WitnesschainError(error.message);
     }
   }
@@ -0,0 +1,67 @@
+/**
+ * Emits events whose names and payloads are checked against an event map, e.g.
+ * `{ 'flush:start': { logs: number } }`. A listener that throws is reported to the console
+ * rather than to the emitter, so observing an adapter can never break it.
+ */
+export class TypedEventEmitter<Events extends object> {
+  private readonly listeners = new Map<keyof Events, Set<(event: never) => void>>();
+
+  /**
+   * Call the listener for every event with this name
+   * @returns A function that removes the listener
+   */
+  on<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): () => void {
+    let listeners = this.listeners.get(name);
+    if (!listeners) {
+      listeners = new Set();
+      this.listeners.set(name, listeners);
+    }
+    listeners.add(listener);
+    return () => this.off(name, listener);
+  }
+
+  /**
+   * Call the listener for the next event with this name only
+   * @returns A function that removes the listener
+   */
+  once<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): () => void {
+    const remove = this.on(name, event => {
+      remove();
+      listener(event);
+    });
+    return remove;
+  }
+
+  /**
+   * Remove a listener added with `on()`
+   */
+  off<K extends keyof Events>(name: K, listener: (event: Events[K]) => void): void {
+    const listeners = this.listeners.get(name);
+    listeners?.delete(listener);
+    if (listeners?.size === 0) {
+      this.listeners.delete(name);
+    }
+  }
+
+  /**
+   * Call every listener for the event, in the order they were added
+   */
+  emit<K extends keyof Events>(name: K, event: Events[K]): void {
+    const listeners = this.listeners.get(name) as Set<(event: Events[K]) => void> | undefined;
+    // Copy first, so listeners that remove themselves don't affect this emit
+    for (const listener of [...(listeners ?? [])]) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error(`Error in ${String(name)} event listener:`, error);
+      }
+    }
+  }
+
+  /**
+   * Number of listeners for an event
+   */
+  listenerCount(name: keyof Events): number {
+    return this.listeners.get(name)?.size ?? 0;
+  }
+}
@@ -0,0 +1,93 @@
+import { TypedEventEmitter } from '../TypedEventEmitter';
+
+interface TestEvents {
+  'job:start': { id: string };
+  'job:done': { id: string; durationMs: number };
+}
+
+describe('TypedEventEmitter', () => {
+  let events: TypedEventEmitter<TestEvents>;
+
+  beforeEach(() => {
+    events = new TypedEventEmitter<TestEvents>();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('calls the listeners for an event in the order they were added', () => {
+    const calls: string[] = [];
+    events.on('job:done', ({ id }) => calls.push(`first ${id}`));
+    events.on('job:done', ({ id }) => calls.push(`second ${id}`));
+    events.on('job:start', ({ id }) => calls.push(`start ${id}`));
+
+    events.emit('job:done', { id: 'a', durationMs: 12 });
+
+    expect(calls).toEqual(['first a', 'second a']);
+    expect(events.listenerCount('job:done')).toBe(2);
+    expect(events.listenerCount('job:start')).toBe(1);
+  });
+
+  it('removes a listener through off() or the function returned by on()', () => {
+    const listener = jest.fn();
+    const other = jest.fn();
+    events.on('job:start', listener);
+    const stop = events.on('job:start', other);
+
+    events.off('job:start', listener);
+    stop();
+    events.emit('job:start', { id: 'a' });
+
+    expect(listener).not.toHaveBeenCalled();
+    expect(other).not.toHaveBeenCalled();
+    expect(events.listenerCount('job:start')).toBe(0);
+  });
+
+  it('calls a once() listener for the next event only, unless removed first', () => {
+    const listener = jest.fn();
+    const removed = jest.fn();
+    events.once('job:start', listener);
+    events.once('job:start', removed)();
+
+    events.emit('job:start', { id: 'a' });
+    events.emit('job:start', { id: 'b' });
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener).toHaveBeenCalledWith({ id: 'a' });
+    expect(removed).not.toHaveBeenCalled();
+    expect(events.listenerCount('job:start')).toBe(0);
+  });
+
+  it('finishes an emit unchanged when a listener removes another', () => {
+    const second = jest.fn();
+    events.on('job:start', () => events.off('job:start', second));
+    events.on('job:start', second);
+
+    events.emit('job:start', { id: 'a' });
+    events.emit('job:start', { id: 'b' });
+
+    expect(second).toHaveBeenCalledTimes(1);
+    expect(second).toHaveBeenCalledWith({ id: 'a' });
+  });
+
+  it('reports a listener that throws to the console and still calls the others', () => {
+    const consoleError = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const error = new Error('listener failed');
+    const next = jest.fn();
+    events.on('job:start', () => {
+      throw error;
+    });
+    events.on('job:start', next);
+
+    expect(() => events.emit('job:start', { id: 'a' })).not.toThrow();
+
+    expect(next).toHaveBeenCalledWith({ id: 'a' });
+    expect(consoleError).toHaveBeenCalledWith('Error in job:start event listener:', error);
+  });
+
+  it('emits without listeners', () => {
+    expect(() => events.emit('job:start', { id: 'a' })).not.toThrow();
+    expect(events.listenerCount('job:start')).toBe(0);
+  });
+});
@@ -1,6 +1,38 @@
 // Export interfaces
 export * from './interfaces/IVerifiableInferenceAdapter';
 export * from './interfaces/IDALoggingAdapter';
+export * from './interfaces/IProofVerifier';
+export * from './interfaces/IMetricsRegistry';
+
+// Export verification
+export * from './verification/ProofVerifierRegistry';
+
+// Export logging
+export * from './logging/ChainedDALoggingAdapter';
+export * from './logging/logChain';
+export * from './logging/RedactingDALoggingAdapter';
+export * from './logging/redaction';
+export * from './logging/CompositeDALoggingAdapter';
+export * from './logging/ThrottledDALoggingAdapter';
+export * from './logging/DALogTransport';
+export * from './logging/PinoDALogTransport';
+export * from './logging/WinstonDALogTransport';
+
+// Export retry
+export * from './retry/retryPolicy';
+
+// Export serialization
+export * from './serialization/canonicalJson';
+export * from './serialization/cbor';
+export * from './serialization/proofEnvelope';
+
+// Export tracing
+export * from './tracing/otel';
+export * from './tracing/DASpanExporter';
+
+// Export events and metrics
+export * from './events/TypedEventEmitter';
+export * from './metrics/PrometheusMetricsRegistry';
 
 // Export types
 export * from './types'; 
\ No newline at end of file
@@ -0,0 +1,57 @@
+/**
+ * Label values of a metric sample, e.g. `{ result: 'success' }`
+ */
+export type MetricLabels = Record<string, string>;
+
+/**
+ * Options for creating a metric
+ */
+export interface MetricOptions {
+  /** Metric name, e.g. 'eigenda_flushes_total' */
+  name: string;
+  /** Description shown in the exporter's output */
+  help: string;
+  /** Names of the labels the metric is recorded with */
+  labelNames?: string[];
+}
+
+/**
+ * Options for creating a histogram
+ */
+export interface HistogramOptions extends MetricOptions {
+  /** Upper bounds of the buckets, in increasing order */
+  buckets?: number[];
+}
+
+/**
+ * A value that only goes up, such as a count of uploads
+ */
+export interface MetricCounter {
+  inc(labels?: MetricLabels, value?: number): void;
+}
+
+/**
+ * A value that goes up and down, such as the number of buffered logs
+ */
+export interface MetricGauge {
+  set(labels: MetricLabels, value: number): void;
+}
+
+/**
+ * A distribution of observed values, such as flush durations
+ */
+export interface MetricHistogram {
+  observe(labels: MetricLabels, value: number): void;
+}
+
+/**
+ * Interface for metrics backends that adapters record their metrics with. Each method creates
+ * a metric, or returns the one already registered under its name. `PrometheusMetricsRegistry`
+ * implements it in memory; other backends, such as prom-client, need a wrapper that maps these
+ * calls onto their own metric objects.
+ */
+export interface IMetricsRegistry {
+  counter(options: MetricOptions): MetricCounter;
+  gauge(options: MetricOptions): MetricGauge;
+  histogram(options: HistogramOptions): MetricHistogram;
+}
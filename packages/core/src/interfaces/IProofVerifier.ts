@@ -0,0 +1,14 @@
+import { Proof } from '../types';
+
+/**
+ * Interface for verifiers that check proofs of a single proof type
+ */
+export interface IProofVerifier {
+  /**
+   * Verify a proof
+   * @param proof The proof to verify
+   * @returns True if the proof is valid
+   * @throws {ProofVerificationError} If verification fails
+   */
+  verifyProof(proof: Proof): Promise<boolean>;
+}
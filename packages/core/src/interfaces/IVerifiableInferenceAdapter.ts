@@ -1,4 +1,10 @@
-import { Proof, VerifiableInferenceResult, VerifiableOptions } from '../types';
+import {
+  ChatMessage,
+  Proof,
+  VerifiableInferenceResult,
+  VerifiableOptions,
+  VerifiableStreamChunk,
+} from '../types';
 
 /**
  * Configuration for text generation
@@ -12,6 +18,10 @@ export interface GenerateTextOptions extends VerifiableOptions {
   maxTokens?: number;
   /** Stop sequences that will halt generation */
   stop?: string[];
+  /** System prompt to use when the conversation does not start with one */
+  systemPrompt?: string;
+  /** Called with each piece of text as it arrives when the adapter supports streaming */
+  onProgress?: (chunk: string) => void;
 }
 
 /**
@@ -30,6 +40,31 @@ export interface IVerifiableInferenceAdapter {
     options?: GenerateTextOptions,
   ): Promise<VerifiableInferenceResult>;
 
+  /**
+   * Generate text with a cryptographic proof, streaming the output as it is produced
+   * @param prompt The input prompt
+   * @param options Generation options
+   * @returns Text chunks as they arrive, followed by a single `result` chunk
+   * holding the full content and its proof
+   * @throws {ProofGenerationError} If generation or proof generation fails
+   */
+  streamText(
+    prompt: string,
+    options?: GenerateTextOptions,
+  ): AsyncIterable<VerifiableStreamChunk>;
+
+  /**
+   * Generate the next assistant message for a conversation with a cryptographic proof
+   * @param messages The conversation so far, including any system message
+   * @param options Generation options
+   * @returns The generated reply and a proof covering the whole conversation
+   * @throws {ProofGenerationError} If proof generation fails
+   */
+  generateChat(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions,
+  ): Promise<VerifiableInferenceResult>;
+
   /**
    * Verify a proof from a previous generation
    * @param proof The proof to verify
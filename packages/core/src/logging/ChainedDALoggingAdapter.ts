@@ -0,0 +1,117 @@
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogEntry, DALogOptions, DALogStatus } from '../types';
+import { ChainedLogRecord, GENESIS_HASH, hashChainedRecord } from './logChain';
+
+/**
+ * Position of a chain, persisted so a stream can continue after a restart
+ */
+export interface LogChainState {
+  /** Sequence number the next record will get */
+  nextSequence: number;
+  /** Hash of the last record written */
+  previousHash: string;
+}
+
+/**
+ * Configuration for the chained logging adapter
+ */
+export interface ChainedDALoggingAdapterConfig {
+  /** Identifies the stream, e.g. one agent's history */
+  streamId: string;
+  /** Where to continue an existing chain from (default: a new chain) */
+  initialState?: LogChainState;
+}
+
+/**
+ * Wraps any `IDALoggingAdapter` so every entry carries a sequence number and the hash of
+ * the entry before it. Use `verifyLogChain` on the retrieved entries to detect dropped,
+ * reordered or edited records.
+ */
+export class ChainedDALoggingAdapter implements IDALoggingAdapter {
+  private readonly streamId: string;
+  private state: LogChainState;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly adapter: IDALoggingAdapter,
+    config: ChainedDALoggingAdapterConfig,
+  ) {
+    this.streamId = config.streamId;
+    this.state = config.initialState ?? { nextSequence: 0, previousHash: GENESIS_HASH };
+  }
+
+  async initialize(): Promise<void> {
+    await this.adapter.initialize();
+  }
+
+  /**
+   * Chain the data to the previous entry and store it with the wrapped adapter.
+   * Writes run one at a time in call order, and the chain only advances once the wrapped
+   * adapter has stored a record, so a failed write leaves no gap for the next to link over.
+   * The returned entry's content is the `ChainedLogRecord` that was stored.
+   */
+  log(data: unknown, options?: DALogOptions): Promise<DALogEntry> {
+    const write = this.writes.then(async () => {
+      const record = this.chain(data, options);
+      const entry = await this.adapter.log(record, options);
+      this.state = { nextSequence: record.sequence + 1, previousHash: record.hash };
+      return entry;
+    });
+    // Keep the queue going after a failed write; the caller still sees the failure
+    this.writes = write.catch(() => undefined);
+    return write;
+  }
+
+  async info(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'info', metadata });
+  }
+
+  async warn(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'warn', metadata });
+  }
+
+  async error(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'error', metadata });
+  }
+
+  async debug(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'debug', metadata });
+  }
+
+  async checkAvailability(status: DALogStatus): Promise<boolean> {
+    return this.adapter.checkAvailability(status);
+  }
+
+  async getLogEntry(id: string): Promise<DALogEntry | null> {
+    return this.adapter.getLogEntry(id);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.adapter.shutdown();
+  }
+
+  /**
+   * Get the chain position after the last stored record, to persist and pass as
+   * `initialState` after a restart
+   */
+  getState(): LogChainState {
+    return { ...this.state };
+  }
+
+  private chain(data: unknown, options?: DALogOptions): ChainedLogRecord {
+    // Normalise through JSON so the hash matches the record as it is read back
+    const fields: Omit<ChainedLogRecord, 'hash'> = JSON.parse(
+      JSON.stringify({
+        streamId: this.streamId,
+        sequence: this.state.nextSequence,
+        previousHash: this.state.previousHash,
+        timestamp: Date.now(),
+        data: data ?? null,
+        level: options?.level,
+        tags: options?.tags,
+        metadata: options?.metadata,
+      }),
+    );
+    return { ...fields, hash: hashChainedRecord(fields) };
+  }
+}
@@ -0,0 +1,330 @@
+import { TypedEventEmitter } from '../events/TypedEventEmitter';
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogEntry, DALogOptions, DALogStatus, DALogStorageError, OperationCancelledError } from '../types';
+
+/**
+ * How many backends must store a log for it to count as stored:
+ * every backend, at least one, or at least the given number
+ */
+export type DALogQuorum = 'all' | 'any' | number;
+
+/**
+ * A named logging backend
+ */
+export interface CompositeDABackend {
+  /** Identifies the backend in statuses and entry IDs, e.g. 'eigenda' */
+  name: string;
+  adapter: IDALoggingAdapter;
+}
+
+/**
+ * Configuration for the composite logging adapter
+ */
+export interface CompositeDALoggingAdapterConfig {
+  /** Backends to write to; reads fall back across them in this order */
+  backends: CompositeDABackend[];
+  /** Backends that must store each log (default: 'all') */
+  quorum?: DALogQuorum;
+}
+
+/**
+ * The outcome of writing a log to one backend
+ */
+export interface CompositeBackendResult {
+  name: string;
+  stored: boolean;
+  /** The backend was still writing the log when the quorum was decided; see the `log:settled` event */
+  pending?: boolean;
+  /** The backend's own entry ID and status, when stored */
+  id?: string;
+  status?: DALogStatus;
+  /** Why the backend failed to store the log */
+  error?: string;
+}
+
+/**
+ * Data of a composite entry's status
+ */
+export interface CompositeDALogStatusData {
+  /** Number of backends that had to store the log */
+  quorum: number;
+  /** Number of backends that have stored it so far */
+  stored: number;
+  backends: CompositeBackendResult[];
+}
+
+/**
+ * Events emitted by `CompositeDALoggingAdapter`, keyed by name
+ */
+export interface CompositeDALoggingEvents {
+  /**
+   * Every backend has finished writing a log. `id` is the ID `log()` returned, or undefined if
+   * it threw; `storedId` names every backend that stored the log in the end, including slow ones.
+   */
+  'log:settled': { id?: string; storedId: string; status: CompositeDALogStatusData };
+}
+
+/**
+ * Writes each log to several `IDALoggingAdapter`s at once, e.g. EigenDA and Opacity, so logging
+ * keeps working while one DA layer is degraded. A log is stored once the quorum of backends
+ * has stored it; reads and availability checks fall back across backends in order.
+ */
+export class CompositeDALoggingAdapter implements IDALoggingAdapter {
+  readonly events = new TypedEventEmitter<CompositeDALoggingEvents>();
+  private readonly backends: CompositeDABackend[];
+  private readonly quorum: number;
+
+  constructor(config: CompositeDALoggingAdapterConfig) {
+    if (config.backends.length === 0) {
+      throw new Error('At least one backend is required');
+    }
+    const names = new Set(config.backends.map(backend => backend.name));
+    if (names.size !== config.backends.length || names.has('')) {
+      throw new Error('Backend names must be unique and non-empty');
+    }
+
+    this.backends = config.backends;
+    this.quorum = resolveQuorum(config.quorum ?? 'all', config.backends.length);
+  }
+
+  /**
+   * Initialize every backend. Backends that fail are reported but tolerated, as long as
+   * enough remain to meet the quorum.
+   */
+  async initialize(): Promise<void> {
+    const results = await Promise.allSettled(this.backends.map(({ adapter }) => adapter.initialize()));
+    const failures = this.collectFailures(results);
+    if (this.backends.length - failures.length < this.quorum) {
+      throw new Error(`Too few backends initialized to meet the quorum: ${failures.join('; ')}`);
+    }
+    failures.forEach(failure => console.error('Error initializing logging backend:', failure));
+  }
+
+  /**
+   * Write the log to every backend, resolving as soon as the quorum has stored it and
+   * rejecting as soon as too many have failed for it to be met. The returned entry's status
+   * is a frozen snapshot of each backend's outcome at that moment, with backends still writing
+   * marked `pending`; the `log:settled` event reports the outcome once every backend finishes.
+   * @throws {DALogStorageError} If fewer backends than the quorum stored the log
+   * @throws {OperationCancelledError} If the signal was aborted before the quorum was met
+   */
+  async log(data: unknown, options?: DALogOptions): Promise<DALogEntry> {
+    const timestamp = Date.now();
+    const backends: CompositeBackendResult[] = this.backends.map(({ name }) => ({ name, stored: false, pending: true }));
+    const entries: Array<DALogEntry | undefined> = [];
+    let stored = 0;
+    let failed = 0;
+    let decided: DALogEntry | DALogStorageError | OperationCancelledError | undefined;
+
+    const outcome = await new Promise<DALogEntry | DALogStorageError | OperationCancelledError>(resolve => {
+      const settle = () => {
+        if (!decided && (stored >= this.quorum || failed > this.backends.length - this.quorum)) {
+          decided = this.decide(data, options, timestamp, backends, entries, stored);
+          resolve(decided);
+        }
+        if (stored + failed === this.backends.length) {
+          this.events.emit('log:settled', {
+            id: decided instanceof Error ? undefined : decided?.id,
+            storedId: formatCompositeId(storedIds(backends)),
+            status: snapshot(this.quorum, stored, backends),
+          });
+        }
+      };
+      this.backends.forEach(({ adapter }, index) => {
+        const result = backends[index]!;
+        adapter.log(data, options).then(
+          entry => {
+            entries[index] = entry;
+            Object.assign(result, { stored: true, id: entry.id, status: entry.status });
+            delete result.pending;
+            stored++;
+            settle();
+          },
+          error => {
+            result.error = errorMessage(error);
+            delete result.pending;
+            failed++;
+            settle();
+          },
+        );
+      });
+    });
+
+    if (outcome instanceof Error) {
+      throw outcome;
+    }
+    return outcome;
+  }
+
+  async info(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'info', metadata });
+  }
+
+  async warn(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'warn', metadata });
+  }
+
+  async error(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'error', metadata });
+  }
+
+  async debug(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'debug', metadata });
+  }
+
+  /**
+   * Check each backend that stored the log in turn, until one reports it available.
+   * Statuses from a single backend are offered to every backend.
+   */
+  async checkAvailability(status: DALogStatus): Promise<boolean> {
+    const candidates = status.type === 'composite'
+      ? this.storedBackends(status)
+      : this.backends.map(backend => ({ backend, status }));
+
+    for (const candidate of candidates) {
+      try {
+        if (await candidate.backend.adapter.checkAvailability(candidate.status)) {
+          return true;
+        }
+      } catch (error) {
+        console.error(`Error checking availability in ${candidate.backend.name}:`, error);
+      }
+    }
+    return false;
+  }
+
+  /**
+   * Read an entry from the first backend that has it. Composite IDs name each backend's own
+   * ID; failing those, the ID is tried as is on every backend, since a backend's own ID may
+   * also contain '='.
+   */
+  async getLogEntry(id: string): Promise<DALogEntry | null> {
+    const ids = parseCompositeId(id);
+    const candidates = [
+      ...this.backends.flatMap(backend => {
+        const backendId = ids[backend.name];
+        return backendId !== undefined ? [{ backend, id: backendId }] : [];
+      }),
+      ...this.backends.map(backend => ({ backend, id })),
+    ];
+
+    for (const candidate of candidates) {
+      try {
+        const entry = await candidate.backend.adapter.getLogEntry(candidate.id);
+        if (entry) {
+          return entry;
+        }
+      } catch (error) {
+        console.error(`Error retrieving log entry from ${candidate.backend.name}:`, error);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Shut down every backend, even if some fail
+   */
+  async shutdown(): Promise<void> {
+    const results = await Promise.allSettled(this.backends.map(({ adapter }) => adapter.shutdown()));
+    const failures = this.collectFailures(results);
+    if (failures.length > 0) {
+      throw new Error(`Failed to shut down logging backends: ${failures.join('; ')}`);
+    }
+  }
+
+  /**
+   * Build the entry, or the error, for a log once the quorum is met or can no longer be
+   */
+  private decide(
+    data: unknown,
+    options: DALogOptions | undefined,
+    timestamp: number,
+    backends: CompositeBackendResult[],
+    entries: Array<DALogEntry | undefined>,
+    stored: number,
+  ): DALogEntry | DALogStorageError | OperationCancelledError {
+    const statusData = snapshot(this.quorum, stored, backends);
+
+    if (stored < this.quorum) {
+      if (options?.signal?.aborted) {
+        return new OperationCancelledError('Log was cancelled before the quorum stored it', options.signal.reason);
+      }
+      const failures = statusData.backends
+        .filter(backend => backend.error !== undefined)
+        .map(backend => `${backend.name}: ${backend.error}`);
+      return new DALogStorageError(
+        `Log was stored by ${stored} of ${this.backends.length} backends, ${this.quorum} required (${failures.join('; ')})`,
+        { backends: statusData.backends },
+      );
+    }
+
+    // Content, options and proof come from the first backend that stored the log
+    const first = entries.find((entry): entry is DALogEntry => entry !== undefined)!;
+    return {
+      // The ID names the backends that had stored the log when the quorum was met
+      id: formatCompositeId(storedIds(backends)),
+      content: first.content,
+      timestamp,
+      status: { type: 'composite', data: statusData, timestamp: Date.now() },
+      options: first.options,
+      proof: first.proof,
+    };
+  }
+
+  private storedBackends(status: DALogStatus): Array<{ backend: CompositeDABackend; status: DALogStatus }> {
+    const results = (status.data as Partial<CompositeDALogStatusData> | null)?.backends ?? [];
+    return this.backends.flatMap(backend => {
+      const result = results.find(candidate => candidate.name === backend.name);
+      return result?.stored && result.status ? [{ backend, status: result.status }] : [];
+    });
+  }
+
+  private collectFailures(results: PromiseSettledResult<void>[]): string[] {
+    return results.flatMap((result, index) =>
+      result.status === 'rejected' ? [`${this.backends[index]!.name}: ${errorMessage(result.reason)}`] : [],
+    );
+  }
+}
+
+function resolveQuorum(quorum: DALogQuorum, backendCount: number): number {
+  if (quorum === 'all') {
+    return backendCount;
+  }
+  if (quorum === 'any') {
+    return 1;
+  }
+  if (!Number.isInteger(quorum) || quorum < 1 || quorum > backendCount) {
+    throw new Error(`Quorum must be 'all', 'any' or an integer from 1 to ${backendCount}, got ${quorum}`);
+  }
+  return quorum;
+}
+
+/**
+ * Copy the backends' outcomes so far into a status that later outcomes cannot change
+ */
+function snapshot(quorum: number, stored: number, backends: CompositeBackendResult[]): CompositeDALogStatusData {
+  return Object.freeze({
+    quorum,
+    stored,
+    backends: Object.freeze(backends.map(backend => Object.freeze({ ...backend }))) as CompositeBackendResult[],
+  });
+}
+
+function storedIds(backends: CompositeBackendResult[]): Record<string, string> {
+  return Object.fromEntries(backends.filter(backend => backend.stored).map(backend => [backend.name, backend.id!]));
+}
+
+/**
+ * Combine each backend's entry ID into one, as a query string such as `eigenda=abc%3A0&opacity=def`
+ */
+function formatCompositeId(ids: Record<string, string>): string {
+  return new URLSearchParams(ids).toString();
+}
+
+function parseCompositeId(id: string): Record<string, string> {
+  return id.includes('=') ? Object.fromEntries(new URLSearchParams(id)) : {};
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
@@ -0,0 +1,163 @@
+import { Writable } from 'stream';
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogLevel, DALogOptions } from '../types';
+import { DALogDroppedError } from './ThrottledDALoggingAdapter';
+
+const LEVEL_ORDER: Record<DALogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+const DEFAULT_MAX_PENDING = 10000;
+
+/**
+ * A log from another logging library, mapped onto `IDALoggingAdapter.log` arguments
+ */
+export interface DALogRecord {
+  data: unknown;
+  options: DALogOptions & { level: DALogLevel };
+}
+
+/**
+ * Configuration shared by the logging library transports
+ */
+export interface DALogTransportOptions {
+  /** Only mirror logs at or above this level (default: every level) */
+  minLevel?: DALogLevel;
+  /** Only mirror logs this returns true for */
+  filter?: (record: DALogRecord) => boolean;
+  /** Tags added to every mirrored log */
+  tags?: string[];
+  /**
+   * Most logs handed to the adapter and not yet stored (default: 10000). Adapters that batch,
+   * such as `EigenDAAdapter`, only store a log at their next flush, so a busy service has many
+   * waiting at once. Past the limit logs are dropped and counted in `dropped` rather than held:
+   * pino ignores a stream's backpressure, so holding them would grow memory without bound.
+   */
+  maxPending?: number;
+  /** Called for each log dropped because `maxPending` logs are waiting to be stored */
+  onDrop?: (record: DALogRecord) => void;
+  /** Chunks buffered in the stream before `write()` returns false (default: the stream default) */
+  highWaterMark?: number;
+  /** Shut down the adapter once the stream ends (default: false) */
+  shutdownAdapter?: boolean;
+  /**
+   * Called when the adapter fails to store a log (default: log to the console).
+   * Failures never break the stream, so the service's own logging carries on. Logs a
+   * `ThrottledDALoggingAdapter` drops on purpose are not failures, and are not reported.
+   */
+  onError?: (error: unknown, record: DALogRecord) => void;
+}
+
+/**
+ * Writable stream that mirrors another logging library's records to an `IDALoggingAdapter`.
+ * Each write hands its logs to the adapter without waiting for them to be stored, so the
+ * logger is never held up by the DA layer. Ending the stream waits for every log in flight.
+ */
+export abstract class DALogTransport extends Writable {
+  private readonly inFlight = new Set<Promise<void>>();
+  private readonly maxPending: number;
+  private droppedCount = 0;
+
+  protected constructor(
+    private readonly adapter: IDALoggingAdapter,
+    private readonly transportOptions: DALogTransportOptions,
+    objectMode: boolean,
+  ) {
+    super({ objectMode, highWaterMark: transportOptions.highWaterMark });
+    this.maxPending = transportOptions.maxPending ?? DEFAULT_MAX_PENDING;
+    if (!Number.isInteger(this.maxPending) || this.maxPending < 1) {
+      throw new Error(`maxPending must be a positive integer, got ${this.maxPending}`);
+    }
+  }
+
+  /**
+   * Map a chunk written by the logging library onto the records to store
+   */
+  protected abstract toRecords(chunk: unknown): DALogRecord[];
+
+  /**
+   * Records still held by the transport when the stream ends
+   */
+  protected flushRecords(): DALogRecord[] {
+    return [];
+  }
+
+  /**
+   * Number of logs handed to the adapter and not yet stored
+   */
+  get pending(): number {
+    return this.inFlight.size;
+  }
+
+  /**
+   * Number of logs dropped because `maxPending` logs were waiting to be stored
+   */
+  get dropped(): number {
+    return this.droppedCount;
+  }
+
+  override _write(chunk: unknown, _encoding: BufferEncoding, callback: (error?: Error | null) => void): void {
+    try {
+      this.toRecords(chunk).forEach(record => this.send(record));
+      callback();
+    } catch (error) {
+      callback(error as Error);
+    }
+  }
+
+  override _final(callback: (error?: Error | null) => void): void {
+    try {
+      this.flushRecords().forEach(record => this.send(record));
+    } catch (error) {
+      callback(error as Error);
+      return;
+    }
+    Promise.all(this.inFlight)
+      .then(() => (this.transportOptions.shutdownAdapter ? this.adapter.shutdown() : undefined))
+      .then(() => callback(), callback);
+  }
+
+  private send(record: DALogRecord): void {
+    const { minLevel, filter, tags } = this.transportOptions;
+    if (minLevel && LEVEL_ORDER[record.options.level] < LEVEL_ORDER[minLevel]) {
+      return;
+    }
+    if (filter && !filter(record)) {
+      return;
+    }
+    if (tags?.length) {
+      record = { ...record, options: { ...record.options, tags: [...(record.options.tags ?? []), ...tags] } };
+    }
+    if (this.inFlight.size >= this.maxPending) {
+      this.drop(record);
+      return;
+    }
+
+    const logged = this.adapter
+      .log(record.data, record.options)
+      .then(
+        () => undefined,
+        error => (error instanceof DALogDroppedError ? undefined : this.reportError(error, record)),
+      )
+      .finally(() => this.inFlight.delete(logged));
+    this.inFlight.add(logged);
+  }
+
+  private drop(record: DALogRecord): void {
+    this.droppedCount++;
+    try {
+      this.transportOptions.onDrop?.(record);
+    } catch (handlerError) {
+      console.error('Error in DA log transport drop handler:', handlerError);
+    }
+  }
+
+  private reportError(error: unknown, record: DALogRecord): void {
+    try {
+      if (this.transportOptions.onError) {
+        this.transportOptions.onError(error, record);
+      } else {
+        console.error('Error mirroring log to the DA layer:', error);
+      }
+    } catch (handlerError) {
+      console.error('Error in DA log transport error handler:', handlerError);
+    }
+  }
+}
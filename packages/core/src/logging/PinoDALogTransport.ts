@@ -0,0 +1,85 @@
+import { StringDecoder } from 'string_decoder';
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogLevel } from '../types';
+import { DALogRecord, DALogTransport, DALogTransportOptions } from './DALogTransport';
+
+/**
+ * Configuration for the pino transport
+ */
+export interface PinoDALogTransportOptions extends DALogTransportOptions {
+  /** Key of the log message, matching pino's `messageKey` (default: 'msg') */
+  messageKey?: string;
+}
+
+/**
+ * Destination stream for pino that mirrors its logs to an `IDALoggingAdapter`.
+ * Pass it to `pino()`, or to `pino.multistream()` alongside the existing destination.
+ * The message becomes the log's data, and the level maps to the nearest DA log level
+ * (`trace` to debug, `fatal` to error). Every other field, including `time`, bindings from
+ * child loggers and serialized errors under `err`, becomes metadata.
+ */
+export class PinoDALogTransport extends DALogTransport {
+  private readonly messageKey: string;
+  // Keeps a multi-byte character split across chunks until the rest of it arrives
+  private readonly decoder = new StringDecoder('utf8');
+  // Text after the last newline, awaiting the rest of its line
+  private partial = '';
+
+  constructor(adapter: IDALoggingAdapter, options: PinoDALogTransportOptions = {}) {
+    super(adapter, options, false);
+    this.messageKey = options.messageKey ?? 'msg';
+  }
+
+  protected toRecords(chunk: unknown): DALogRecord[] {
+    const text = typeof chunk === 'string' ? chunk : this.decoder.write(chunk as Buffer);
+    const lines = (this.partial + text).split('\n');
+    this.partial = lines.pop()!;
+    return lines.filter(line => line.trim()).map(line => this.toRecord(line));
+  }
+
+  protected override flushRecords(): DALogRecord[] {
+    const line = this.partial + this.decoder.end();
+    this.partial = '';
+    return line.trim() ? [this.toRecord(line)] : [];
+  }
+
+  private toRecord(line: string): DALogRecord {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(line);
+    } catch {
+      // Not a pino record, e.g. output of a pretty-printer; keep the text as it is
+    }
+    if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      return { data: line, options: { level: 'info' } };
+    }
+
+    const { level, [this.messageKey]: message, ...metadata } = parsed as Record<string, unknown>;
+    const error = metadata.err as { message?: unknown } | undefined;
+    return {
+      data: message ?? error?.message ?? '',
+      options: { level: pinoLevel(level), metadata },
+    };
+  }
+}
+
+/**
+ * Map a pino level, as a number or a label from a level formatter, onto a DA log level
+ */
+function pinoLevel(level: unknown): DALogLevel {
+  if (typeof level === 'number') {
+    return level >= 50 ? 'error' : level >= 40 ? 'warn' : level >= 30 ? 'info' : 'debug';
+  }
+  switch (level) {
+    case 'fatal':
+    case 'error':
+      return 'error';
+    case 'warn':
+      return 'warn';
+    case 'debug':
+    case 'trace':
+      return 'debug';
+    default:
+      return 'info';
+  }
+}
@@ -0,0 +1,73 @@
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogEntry, DALogOptions, DALogStatus } from '../types';
+import { REDACTIONS_METADATA_KEY, RedactedField, RedactionConfig, redactLog } from './redaction';
+
+/**
+ * Wraps any `IDALoggingAdapter` so secrets and personal data are redacted from each log's
+ * data, metadata and tags before the wrapped adapter sees them. When anything is redacted,
+ * the stored metadata lists it under `_redactions`, so readers know the content is incomplete.
+ * Wrap it around any other wrappers, such as `ChainedDALoggingAdapter`, so they only see
+ * redacted logs.
+ */
+export class RedactingDALoggingAdapter implements IDALoggingAdapter {
+  constructor(
+    private readonly adapter: IDALoggingAdapter,
+    private readonly config: RedactionConfig = {},
+  ) {}
+
+  async initialize(): Promise<void> {
+    await this.adapter.initialize();
+  }
+
+  /**
+   * Redact the data and options, then store them with the wrapped adapter.
+   * The returned entry's content is the redacted data.
+   */
+  async log(data: unknown, options?: DALogOptions): Promise<DALogEntry> {
+    const redacted = redactLog({ data, metadata: options?.metadata, tags: options?.tags }, this.config);
+    if (!options && redacted.redactions.length === 0) {
+      return this.adapter.log(redacted.data);
+    }
+
+    const metadata = redacted.redactions.length > 0
+      ? { ...redacted.metadata, [REDACTIONS_METADATA_KEY]: mergeRedactions(redacted.metadata, redacted.redactions) }
+      : redacted.metadata;
+    return this.adapter.log(redacted.data, { ...options, metadata, tags: redacted.tags });
+  }
+
+  async info(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'info', metadata });
+  }
+
+  async warn(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'warn', metadata });
+  }
+
+  async error(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'error', metadata });
+  }
+
+  async debug(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'debug', metadata });
+  }
+
+  async checkAvailability(status: DALogStatus): Promise<boolean> {
+    return this.adapter.checkAvailability(status);
+  }
+
+  async getLogEntry(id: string): Promise<DALogEntry | null> {
+    return this.adapter.getLogEntry(id);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.adapter.shutdown();
+  }
+}
+
+/**
+ * Add to any redactions already listed, e.g. by another redacting adapter, rather than replace them
+ */
+function mergeRedactions(metadata: Record<string, unknown> | undefined, redactions: RedactedField[]): unknown[] {
+  const existing = metadata?.[REDACTIONS_METADATA_KEY];
+  return Array.isArray(existing) ? [...existing, ...redactions] : redactions;
+}
@@ -0,0 +1,248 @@
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogEntry, DALogLevel, DALogOptions, DALogStatus, DALogStorageError } from '../types';
+
+/**
+ * Metadata key under which a stored log counts the logs dropped since the previous stored log
+ */
+export const DROPPED_METADATA_KEY = 'dropped';
+
+const LEVEL_ORDER: Record<DALogLevel, number> = { debug: 0, info: 1, warn: 2, error: 3 };
+
+/**
+ * Why a log was dropped:
+ * - `level`: below the minimum level
+ * - `sampled`: not picked by its level's sample rate
+ * - `rateLimited`: no tokens left in the rate limiter
+ */
+export type DALogDropReason = 'level' | 'sampled' | 'rateLimited';
+
+/**
+ * Thrown for a log the throttled adapter dropped rather than stored
+ */
+export class DALogDroppedError extends DALogStorageError {
+  constructor(
+    public readonly reason: DALogDropReason,
+    public readonly level: DALogLevel,
+  ) {
+    super(`Dropped ${level} log: ${DROP_REASON_MESSAGES[reason]}`, { reason, level });
+    this.name = 'DALogDroppedError';
+  }
+}
+
+const DROP_REASON_MESSAGES: Record<DALogDropReason, string> = {
+  level: 'below the minimum level',
+  sampled: 'not sampled',
+  rateLimited: 'rate limited',
+};
+
+/**
+ * A token bucket: each stored log takes a token, and tokens refill at a steady rate up to the capacity
+ */
+export interface DALogRateLimit {
+  /** Most logs stored in a burst */
+  capacity: number;
+  /** Tokens added per second */
+  refillPerSecond: number;
+}
+
+/**
+ * Configuration for the throttled logging adapter
+ */
+export interface ThrottledDALoggingAdapterConfig {
+  /**
+   * Drop logs below this level (default: keep every level). Logs without a level, or with one
+   * that is not a `DALogLevel`, count as 'info'.
+   */
+  minLevel?: DALogLevel;
+  /** Fraction of each level's logs to keep, from 0 to 1 (default: 1) */
+  sampleRates?: Partial<Record<DALogLevel, number>>;
+  /** Limit on how many logs are stored (default: no limit) */
+  rateLimit?: DALogRateLimit;
+  /** Logs with any of these tags are always stored, bypassing every other setting */
+  alwaysKeepTags?: string[];
+}
+
+/**
+ * Counts of dropped logs
+ */
+export interface DALogDropCounts {
+  total: number;
+  byReason: Record<DALogDropReason, number>;
+  byLevel: Record<DALogLevel, number>;
+}
+
+/**
+ * Wraps any `IDALoggingAdapter` to cut how many logs are uploaded, by minimum level, per-level
+ * sampling and a token-bucket rate limit. Dropped logs are rejected with a `DALogDroppedError`
+ * and never passed to the wrapped adapter; instead, the next stored log counts them under
+ * `dropped` in its metadata, so gaps in the record stay visible. `getDropCounts()` reports the totals since the adapter was created.
+ */
+export class ThrottledDALoggingAdapter implements IDALoggingAdapter {
+  private readonly alwaysKeepTags: Set<string>;
+  private tokens: number;
+  private lastRefill = Date.now();
+  private readonly totals = emptyDropCounts();
+  // Drops not yet reported in a stored log
+  private pending = emptyDropCounts();
+
+  constructor(
+    private readonly adapter: IDALoggingAdapter,
+    private readonly config: ThrottledDALoggingAdapterConfig = {},
+  ) {
+    if (config.minLevel !== undefined && !isLogLevel(config.minLevel)) {
+      throw new Error(`Unknown minimum log level: ${config.minLevel}`);
+    }
+    for (const [level, rate] of Object.entries(config.sampleRates ?? {})) {
+      if (!isLogLevel(level)) {
+        throw new Error(`Unknown log level in sample rates: ${level}`);
+      }
+      if (!(rate >= 0 && rate <= 1)) {
+        throw new Error(`Sample rate for ${level} must be between 0 and 1, got ${rate}`);
+      }
+    }
+    if (config.rateLimit && !(config.rateLimit.capacity >= 1 && config.rateLimit.refillPerSecond >= 0)) {
+      throw new Error('Rate limit capacity must be at least 1 and refillPerSecond non-negative');
+    }
+
+    this.alwaysKeepTags = new Set(config.alwaysKeepTags ?? []);
+    this.tokens = config.rateLimit?.capacity ?? 0;
+  }
+
+  async initialize(): Promise<void> {
+    await this.adapter.initialize();
+  }
+
+  /**
+   * Store the log with the wrapped adapter, unless it is dropped
+   * @throws {DALogDroppedError} If the log was dropped, with the reason
+   */
+  async log(data: unknown, options?: DALogOptions): Promise<DALogEntry> {
+    const level = isLogLevel(options?.level) ? options.level : 'info';
+    if (options?.level !== undefined && options.level !== level) {
+      // Store the level the log was counted under, rather than one readers cannot interpret
+      options = { ...options, level };
+    }
+    const reason = this.dropReason(level, options?.tags);
+    if (reason) {
+      this.recordDrop(reason, level);
+      throw new DALogDroppedError(reason, level);
+    }
+
+    if (this.pending.total === 0) {
+      return this.adapter.log(data, options);
+    }
+
+    const dropped = this.pending;
+    this.pending = emptyDropCounts();
+    try {
+      return await this.adapter.log(data, {
+        ...options,
+        metadata: { ...options?.metadata, [DROPPED_METADATA_KEY]: dropped },
+      });
+    } catch (error) {
+      // Report the drops with the next log that is stored instead
+      this.pending = mergeDropCounts(dropped, this.pending);
+      throw error;
+    }
+  }
+
+  async info(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'info', metadata });
+  }
+
+  async warn(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'warn', metadata });
+  }
+
+  async error(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'error', metadata });
+  }
+
+  async debug(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'debug', metadata });
+  }
+
+  async checkAvailability(status: DALogStatus): Promise<boolean> {
+    return this.adapter.checkAvailability(status);
+  }
+
+  async getLogEntry(id: string): Promise<DALogEntry | null> {
+    return this.adapter.getLogEntry(id);
+  }
+
+  async shutdown(): Promise<void> {
+    await this.adapter.shutdown();
+  }
+
+  /**
+   * Counts of every log dropped since the adapter was created
+   */
+  getDropCounts(): DALogDropCounts {
+    return mergeDropCounts(this.totals, emptyDropCounts());
+  }
+
+  private dropReason(level: DALogLevel, tags: string[] = []): DALogDropReason | undefined {
+    if (tags.some(tag => this.alwaysKeepTags.has(tag))) {
+      return undefined;
+    }
+    if (this.config.minLevel && LEVEL_ORDER[level] < LEVEL_ORDER[this.config.minLevel]) {
+      return 'level';
+    }
+    const rate = this.config.sampleRates?.[level] ?? 1;
+    if (rate < 1 && Math.random() >= rate) {
+      return 'sampled';
+    }
+    if (this.config.rateLimit && !this.takeToken(this.config.rateLimit)) {
+      return 'rateLimited';
+    }
+    return undefined;
+  }
+
+  private takeToken(limit: DALogRateLimit): boolean {
+    const now = Date.now();
+    this.tokens = Math.min(limit.capacity, this.tokens + ((now - this.lastRefill) / 1000) * limit.refillPerSecond);
+    this.lastRefill = now;
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  private recordDrop(reason: DALogDropReason, level: DALogLevel): void {
+    for (const counts of [this.totals, this.pending]) {
+      counts.total++;
+      counts.byReason[reason]++;
+      counts.byLevel[level]++;
+    }
+  }
+}
+
+function isLogLevel(level: unknown): level is DALogLevel {
+  return typeof level === 'string' && Object.prototype.hasOwnProperty.call(LEVEL_ORDER, level);
+}
+
+function emptyDropCounts(): DALogDropCounts {
+  return {
+    total: 0,
+    byReason: { level: 0, sampled: 0, rateLimited: 0 },
+    byLevel: { debug: 0, info: 0, warn: 0, error: 0 },
+  };
+}
+
+function mergeDropCounts(a: DALogDropCounts, b: DALogDropCounts): DALogDropCounts {
+  return {
+    total: a.total + b.total,
+    byReason: {
+      level: a.byReason.level + b.byReason.level,
+      sampled: a.byReason.sampled + b.byReason.sampled,
+      rateLimited: a.byReason.rateLimited + b.byReason.rateLimited,
+    },
+    byLevel: {
+      debug: a.byLevel.debug + b.byLevel.debug,
+      info: a.byLevel.info + b.byLevel.info,
+      warn: a.byLevel.warn + b.byLevel.warn,
+      error: a.byLevel.error + b.byLevel.error,
+    },
+  };
+}
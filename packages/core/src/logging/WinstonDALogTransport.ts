@@ -0,0 +1,64 @@
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogLevel } from '../types';
+import { DALogRecord, DALogTransport, DALogTransportOptions } from './DALogTransport';
+
+// Where winston keeps the level before formats such as `colorize` change `info.level`
+const LEVEL = Symbol.for('level');
+
+/**
+ * Object-mode stream for winston that mirrors its logs to an `IDALoggingAdapter`.
+ * Pass it to `new winston.transports.Stream({ stream })`.
+ * The message becomes the log's data, and the level maps to the nearest DA log level
+ * (`http` to info, `verbose` and `silly` to debug). Every other field becomes metadata,
+ * with `Error` objects serialized to their name, message and stack.
+ */
+export class WinstonDALogTransport extends DALogTransport {
+  constructor(adapter: IDALoggingAdapter, options: DALogTransportOptions = {}) {
+    super(adapter, options, true);
+  }
+
+  protected toRecords(chunk: unknown): DALogRecord[] {
+    const info = chunk as Record<string | symbol, unknown>;
+    const { level, message, ...fields } = info as Record<string, unknown>;
+
+    const metadata: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(fields)) {
+      metadata[key] = value instanceof Error ? serializeError(value) : value;
+    }
+    // `logger.error(new Error(...))` passes the error itself as the info object
+    if (info instanceof Error && metadata.stack === undefined) {
+      metadata.stack = info.stack;
+    }
+
+    return [{
+      data: message instanceof Error ? message.message : message ?? '',
+      options: { level: winstonLevel(info[LEVEL] ?? level), metadata },
+    }];
+  }
+}
+
+/**
+ * Map a winston level onto a DA log level
+ */
+function winstonLevel(level: unknown): DALogLevel {
+  switch (level) {
+    case 'emerg':
+    case 'alert':
+    case 'crit':
+    case 'error':
+      return 'error';
+    case 'warning':
+    case 'warn':
+      return 'warn';
+    case 'verbose':
+    case 'debug':
+    case 'silly':
+      return 'debug';
+    default:
+      return 'info';
+  }
+}
+
+function serializeError(error: Error): Record<string, unknown> {
+  return { ...error, type: error.name, message: error.message, stack: error.stack };
+}
@@ -0,0 +1,137 @@
+import { DALogStorageError } from '../../types';
+import { CompositeDALoggingAdapter, CompositeDALoggingEvents, CompositeDALogStatusData } from '../CompositeDALoggingAdapter';
+import { RecordingDALoggingAdapter } from './RecordingDALoggingAdapter';
+
+function composite(quorum: 'all' | 'any' | number, count = 3): {
+  logger: CompositeDALoggingAdapter;
+  backends: RecordingDALoggingAdapter[];
+  settled: Array<CompositeDALoggingEvents['log:settled']>;
+} {
+  const names = ['eigenda', 'opacity', 'archive'].slice(0, count);
+  const backends = names.map(name => new RecordingDALoggingAdapter(name));
+  const logger = new CompositeDALoggingAdapter({
+    backends: names.map((name, index) => ({ name, adapter: backends[index]! })),
+    quorum,
+  });
+  const settled: Array<CompositeDALoggingEvents['log:settled']> = [];
+  logger.events.on('log:settled', event => settled.push(event));
+  return { logger, backends, settled };
+}
+
+describe('CompositeDALoggingAdapter', () => {
+  it('resolves once every backend has stored the log by default', async () => {
+    const { logger, settled } = composite('all', 2);
+
+    const entry = await logger.info('Trade executed', { pair: 'ETH/USDC' });
+
+    expect(entry.id).toBe('eigenda=eigenda-1&opacity=opacity-1');
+    expect(entry.content).toBe('Trade executed');
+    expect(entry.status.type).toBe('composite');
+    expect(entry.status.data).toEqual({
+      quorum: 2,
+      stored: 2,
+      backends: [
+        { name: 'eigenda', stored: true, id: 'eigenda-1', status: expect.objectContaining({ type: 'eigenda' }) },
+        { name: 'opacity', stored: true, id: 'opacity-1', status: expect.objectContaining({ type: 'opacity' }) },
+      ],
+    });
+    expect(settled).toEqual([{ id: entry.id, storedId: entry.id, status: entry.status.data }]);
+  });
+
+  it('resolves at the quorum without waiting for a slow backend, and reports it once it finishes', async () => {
+    const { logger, backends, settled } = composite(2);
+    backends[2]!.hold();
+
+    const entry = await logger.info('Trade executed');
+    const status = entry.status.data as CompositeDALogStatusData;
+
+    expect(entry.id).toBe('eigenda=eigenda-1&opacity=opacity-1');
+    expect(status).toMatchObject({ quorum: 2, stored: 2 });
+    expect(status.backends[2]).toEqual({ name: 'archive', stored: false, pending: true });
+    expect(settled).toEqual([]);
+
+    backends[2]!.release();
+    await new Promise(resolve => setImmediate(resolve));
+
+    // The returned entry is a snapshot, and is never changed after it resolves
+    expect(Object.isFrozen(status)).toBe(true);
+    expect(status.stored).toBe(2);
+    expect(status.backends[2]).toEqual({ name: 'archive', stored: false, pending: true });
+
+    expect(settled).toHaveLength(1);
+    expect(settled[0]).toMatchObject({
+      id: entry.id,
+      storedId: 'eigenda=eigenda-1&opacity=opacity-1&archive=archive-1',
+      status: { quorum: 2, stored: 3 },
+    });
+    expect(settled[0]!.status.backends[2]).toMatchObject({ name: 'archive', stored: true, id: 'archive-1' });
+  });
+
+  it('tolerates failed backends as long as the quorum stores the log', async () => {
+    const { logger, backends, settled } = composite(2);
+    backends[1]!.failNext();
+
+    const entry = await logger.warn('Low balance');
+
+    expect(entry.id).toBe('eigenda=eigenda-1&archive=archive-1');
+    expect((entry.status.data as CompositeDALogStatusData).backends[1]).toEqual({
+      name: 'opacity',
+      stored: false,
+      error: 'Injected opacity failure',
+    });
+    expect(settled[0]).toMatchObject({ id: entry.id, storedId: entry.id });
+  });
+
+  it('stores a log with a single backend under the any quorum', async () => {
+    const { logger, backends } = composite('any');
+    backends[0]!.failNext();
+    backends[1]!.failNext();
+
+    const entry = await logger.info('Heartbeat');
+    expect(entry.id).toBe('archive=archive-1');
+    expect(entry.status.data).toMatchObject({ quorum: 1, stored: 1 });
+  });
+
+  it('throws as soon as the quorum can no longer be met', async () => {
+    const { logger, backends, settled } = composite('all');
+    backends[0]!.failNext();
+    backends[2]!.hold();
+
+    const error = await logger.info('Trade executed').catch(error => error);
+
+    expect(error).toBeInstanceOf(DALogStorageError);
+    expect(error.message).toBe('Log was stored by 0 of 3 backends, 3 required (eigenda: Injected eigenda failure)');
+    expect(error.details.backends).toEqual([
+      { name: 'eigenda', stored: false, error: 'Injected eigenda failure' },
+      { name: 'opacity', stored: false, pending: true },
+      { name: 'archive', stored: false, pending: true },
+    ]);
+
+    backends[2]!.release();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(settled).toEqual([
+      expect.objectContaining({ id: undefined, storedId: 'opacity=opacity-1&archive=archive-1' }),
+    ]);
+  });
+
+  it('throws when every backend fails, listing each error', async () => {
+    const { logger, backends, settled } = composite('any', 2);
+    backends.forEach(backend => backend.failNext());
+
+    await expect(logger.info('Trade executed')).rejects.toThrow(
+      'Log was stored by 0 of 2 backends, 1 required (eigenda: Injected eigenda failure; opacity: Injected opacity failure)'
+    );
+    expect(settled).toEqual([expect.objectContaining({ id: undefined, storedId: '', status: expect.objectContaining({ stored: 0 }) })]);
+  });
+
+  it('rejects an invalid quorum or backend list', () => {
+    const adapter = new RecordingDALoggingAdapter();
+    expect(() => new CompositeDALoggingAdapter({ backends: [] })).toThrow('At least one backend is required');
+    expect(() => new CompositeDALoggingAdapter({ backends: [{ name: 'a', adapter }, { name: 'a', adapter }] })).toThrow(
+      'Backend names must be unique and non-empty'
+    );
+    expect(() => new CompositeDALoggingAdapter({ backends: [{ name: 'a', adapter }], quorum: 2 })).toThrow(
+      "Quorum must be 'all', 'any' or an integer from 1 to 1, got 2"
+    );
+  });
+});
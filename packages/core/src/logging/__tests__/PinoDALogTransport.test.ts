@@ -0,0 +1,132 @@
+import { Writable } from 'stream';
+import { PinoDALogTransport } from '../PinoDALogTransport';
+import { DALogDroppedError } from '../ThrottledDALoggingAdapter';
+import { RecordingDALoggingAdapter } from './RecordingDALoggingAdapter';
+
+function pinoLine(msg: string, level = 30, fields: Record<string, unknown> = {}): string {
+  return `${JSON.stringify({ level, time: 1700000000000, pid: 1, hostname: 'test', msg, ...fields })}\n`;
+}
+
+function end(transport: Writable): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transport.once('error', reject);
+    transport.end(() => resolve());
+  });
+}
+
+describe('PinoDALogTransport', () => {
+  let adapter: RecordingDALoggingAdapter;
+
+  beforeEach(() => {
+    adapter = new RecordingDALoggingAdapter();
+  });
+
+  it('mirrors every log written while the adapter is busy without pushing back on pino', async () => {
+    const transport = new PinoDALogTransport(adapter);
+    const messages = Array.from({ length: 100 }, (_, i) => `request ${i}`);
+    adapter.hold();
+
+    for (const message of messages) {
+      expect(transport.write(pinoLine(message))).toBe(true);
+    }
+    await new Promise(resolve => setImmediate(resolve));
+    expect(transport.pending).toBe(messages.length);
+
+    adapter.release();
+    await end(transport);
+    expect(transport.pending).toBe(0);
+    expect(transport.dropped).toBe(0);
+    expect(adapter.logs.map(log => log.data)).toEqual(messages);
+  });
+
+  it('maps the message, level and other fields of a pino record', async () => {
+    const transport = new PinoDALogTransport(adapter);
+    transport.write(pinoLine('disk almost full', 40, { service: 'api' }));
+    transport.write(pinoLine('crashed', 60));
+    transport.write(`${JSON.stringify({ level: 50, err: { type: 'Error', message: 'boom' } })}\n`);
+    transport.write('not json\n');
+    await end(transport);
+
+    expect(adapter.logs).toEqual([
+      {
+        data: 'disk almost full',
+        options: { level: 'warn', metadata: { time: 1700000000000, pid: 1, hostname: 'test', service: 'api' } },
+      },
+      { data: 'crashed', options: expect.objectContaining({ level: 'error' }) },
+      { data: 'boom', options: { level: 'error', metadata: { err: { type: 'Error', message: 'boom' } } } },
+      { data: 'not json', options: { level: 'info' } },
+    ]);
+  });
+
+  it('reassembles lines and multi-byte characters split across chunks', async () => {
+    const transport = new PinoDALogTransport(adapter);
+    const bytes = Buffer.from(pinoLine('héllo wörld \u{1f600}') + pinoLine('second'));
+    const split = bytes.indexOf(Buffer.from('\u{1f600}')) + 2;
+
+    transport.write(bytes.subarray(0, split));
+    transport.write(bytes.subarray(split, split + 5));
+    transport.write(bytes.subarray(split + 5));
+    await end(transport);
+
+    expect(adapter.logs.map(log => log.data)).toEqual(['héllo wörld \u{1f600}', 'second']);
+  });
+
+  it('stores a last line without a trailing newline when the stream ends', async () => {
+    const transport = new PinoDALogTransport(adapter);
+    transport.write(pinoLine('last').trimEnd());
+    await new Promise(resolve => setImmediate(resolve));
+    expect(adapter.logs).toEqual([]);
+
+    await end(transport);
+    expect(adapter.logs.map(log => log.data)).toEqual(['last']);
+  });
+
+  it('drops and counts logs past maxPending', async () => {
+    const onDrop = jest.fn();
+    const transport = new PinoDALogTransport(adapter, { maxPending: 10, onDrop });
+    adapter.hold();
+
+    for (let i = 0; i < 15; i++) {
+      expect(transport.write(pinoLine(`request ${i}`))).toBe(true);
+    }
+    await new Promise(resolve => setImmediate(resolve));
+    adapter.release();
+    await end(transport);
+
+    expect(transport.dropped).toBe(5);
+    expect(onDrop).toHaveBeenCalledTimes(5);
+    expect(onDrop).toHaveBeenNthCalledWith(
+      1,
+      expect.objectContaining({ data: 'request 10', options: expect.objectContaining({ level: 'info' }) })
+    );
+  });
+
+  it('skips logs below minLevel and adds tags', async () => {
+    const transport = new PinoDALogTransport(adapter, { minLevel: 'warn', tags: ['api'] });
+    transport.write(pinoLine('debugging', 20));
+    transport.write(pinoLine('disk almost full', 40));
+    await end(transport);
+
+    expect(adapter.logs).toEqual([
+      { data: 'disk almost full', options: expect.objectContaining({ level: 'warn', tags: ['api'] }) },
+    ]);
+  });
+
+  it('reports failures to store a log without breaking the stream, but not deliberate drops', async () => {
+    const onError = jest.fn();
+    const transport = new PinoDALogTransport(adapter, { onError });
+    adapter.failNext().failNext(new DALogDroppedError('sampled', 'info'));
+
+    transport.write(pinoLine('lost'));
+    transport.write(pinoLine('sampled out'));
+    transport.write(pinoLine('stored'));
+    await end(transport);
+
+    expect(onError).toHaveBeenCalledTimes(1);
+    expect(onError).toHaveBeenCalledWith(
+      expect.objectContaining({ message: 'Injected recording failure' }),
+      expect.objectContaining({ data: 'lost' })
+    );
+    expect(adapter.logs.map(log => log.data)).toEqual(['stored']);
+  });
+});
@@ -0,0 +1,83 @@
+import { IDALoggingAdapter } from '../../interfaces/IDALoggingAdapter';
+import { DALogEntry, DALogOptions, DALogStatus, DALogStorageError } from '../../types';
+
+/**
+ * A logging adapter for tests of the logging wrappers: it keeps what it is given, can fail
+ * or hold back the next logs, and resolves each log with an entry whose ID counts up
+ */
+export class RecordingDALoggingAdapter implements IDALoggingAdapter {
+  readonly logs: Array<{ data: unknown; options?: DALogOptions }> = [];
+  private readonly failures: Error[] = [];
+  private held: Array<() => void> | undefined;
+  private nextId = 1;
+
+  constructor(private readonly name = 'recording') {}
+
+  async initialize(): Promise<void> {}
+
+  async log(data: unknown, options?: DALogOptions): Promise<DALogEntry> {
+    if (this.held) {
+      await new Promise<void>(resolve => this.held!.push(resolve));
+    }
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    this.logs.push({ data, options });
+    const id = `${this.name}-${this.nextId++}`;
+    const timestamp = Date.now();
+    return { id, content: data, timestamp, status: { type: this.name, data: { id }, timestamp }, options };
+  }
+
+  async info(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'info', metadata });
+  }
+
+  async warn(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'warn', metadata });
+  }
+
+  async error(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'error', metadata });
+  }
+
+  async debug(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'debug', metadata });
+  }
+
+  async checkAvailability(status: DALogStatus): Promise<boolean> {
+    return status.type === this.name;
+  }
+
+  async getLogEntry(): Promise<DALogEntry | null> {
+    return null;
+  }
+
+  async shutdown(): Promise<void> {}
+
+  /**
+   * Make the next log fail with the given error
+   */
+  failNext(error: Error = new DALogStorageError(`Injected ${this.name} failure`)): this {
+    this.failures.push(error);
+    return this;
+  }
+
+  /**
+   * Hold logs back until `release` is called
+   */
+  hold(): this {
+    this.held = [];
+    return this;
+  }
+
+  /**
+   * Let held logs finish, in the order they were made
+   */
+  release(): void {
+    const held = this.held ?? [];
+    this.held = undefined;
+    held.forEach(resolve => resolve());
+  }
+}
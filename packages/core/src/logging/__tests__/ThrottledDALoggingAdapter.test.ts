@@ -0,0 +1,124 @@
+import { DALogLevel, DALogStorageError } from '../../types';
+import { DALogDroppedError, ThrottledDALoggingAdapter } from '../ThrottledDALoggingAdapter';
+import { RecordingDALoggingAdapter } from './RecordingDALoggingAdapter';
+
+describe('ThrottledDALoggingAdapter', () => {
+  let inner: RecordingDALoggingAdapter;
+
+  beforeEach(() => {
+    inner = new RecordingDALoggingAdapter();
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  it('rejects logs below the minimum level with a DALogDroppedError', async () => {
+    const logger = new ThrottledDALoggingAdapter(inner, { minLevel: 'info' });
+
+    const error = await logger.debug('Cache miss').catch(error => error);
+
+    expect(error).toBeInstanceOf(DALogDroppedError);
+    expect(error).toBeInstanceOf(DALogStorageError);
+    expect(error).toMatchObject({ reason: 'level', level: 'debug', message: 'Dropped debug log: below the minimum level' });
+    expect(inner.logs).toEqual([]);
+    await expect(logger.info('Cache filled')).resolves.toMatchObject({ content: 'Cache filled' });
+  });
+
+  it('counts drops in the next stored log and in the totals', async () => {
+    const logger = new ThrottledDALoggingAdapter(inner, { minLevel: 'warn' });
+
+    await expect(logger.debug('one')).rejects.toThrow(DALogDroppedError);
+    await expect(logger.info('two')).rejects.toThrow(DALogDroppedError);
+    await logger.warn('Low balance', { balance: 3 });
+    await logger.error('Out of funds');
+
+    expect(inner.logs.map(log => log.options?.metadata)).toEqual([
+      {
+        balance: 3,
+        dropped: {
+          total: 2,
+          byReason: { level: 2, sampled: 0, rateLimited: 0 },
+          byLevel: { debug: 1, info: 1, warn: 0, error: 0 },
+        },
+      },
+      undefined,
+    ]);
+    expect(logger.getDropCounts()).toMatchObject({ total: 2, byLevel: { debug: 1, info: 1 } });
+  });
+
+  it('carries drops over to the next log when the wrapped adapter fails', async () => {
+    const logger = new ThrottledDALoggingAdapter(inner, { minLevel: 'warn' });
+    await expect(logger.info('dropped')).rejects.toThrow(DALogDroppedError);
+
+    inner.failNext();
+    await expect(logger.warn('lost')).rejects.toThrow('Injected recording failure');
+    await logger.warn('stored');
+
+    expect(inner.logs[0]!.options?.metadata?.dropped).toMatchObject({ total: 1 });
+  });
+
+  it('samples each level at its rate', async () => {
+    const random = jest.spyOn(Math, 'random');
+    const logger = new ThrottledDALoggingAdapter(inner, { sampleRates: { info: 0.25 } });
+
+    random.mockReturnValue(0.1);
+    await logger.info('kept');
+    random.mockReturnValue(0.5);
+    await expect(logger.info('sampled out')).rejects.toMatchObject({ reason: 'sampled', level: 'info' });
+    await logger.warn('always kept');
+
+    expect(inner.logs.map(log => log.data)).toEqual(['kept', 'always kept']);
+  });
+
+  it('limits bursts and refills tokens over time', async () => {
+    jest.useFakeTimers({ now: 0 });
+    const logger = new ThrottledDALoggingAdapter(inner, { rateLimit: { capacity: 2, refillPerSecond: 1 } });
+
+    await logger.info('one');
+    await logger.info('two');
+    await expect(logger.info('three')).rejects.toMatchObject({ reason: 'rateLimited' });
+
+    jest.advanceTimersByTime(1000);
+    await logger.info('four');
+    expect(inner.logs.map(log => log.data)).toEqual(['one', 'two', 'four']);
+  });
+
+  it('always stores logs with a keep tag', async () => {
+    const logger = new ThrottledDALoggingAdapter(inner, { minLevel: 'error', alwaysKeepTags: ['audit'] });
+
+    await logger.log('Withdrawal', { level: 'debug', tags: ['audit'] });
+    expect(inner.logs).toHaveLength(1);
+  });
+
+  it('counts a log with an unknown level as info', async () => {
+    const logger = new ThrottledDALoggingAdapter(inner, { minLevel: 'warn' });
+
+    await expect(logger.log('Verbose', { level: 'verbose' as DALogLevel })).rejects.toMatchObject({ level: 'info' });
+    await expect(logger.log('Fatal', { level: 'fatal' as DALogLevel })).rejects.toThrow(DALogDroppedError);
+
+    const counts = logger.getDropCounts();
+    expect(counts).toMatchObject({ total: 2, byLevel: { debug: 0, info: 2, warn: 0, error: 0 } });
+    expect(Object.values(counts.byLevel).every(Number.isInteger)).toBe(true);
+
+    const keeping = new ThrottledDALoggingAdapter(inner);
+    await keeping.log('Trace', { level: 'trace' as DALogLevel });
+    expect(inner.logs[0]!.options?.level).toBe('info');
+  });
+
+  it('rejects an invalid configuration', () => {
+    expect(() => new ThrottledDALoggingAdapter(inner, { minLevel: 'verbose' as DALogLevel })).toThrow(
+      'Unknown minimum log level: verbose'
+    );
+    expect(() => new ThrottledDALoggingAdapter(inner, { sampleRates: { trace: 0.5 } as never })).toThrow(
+      'Unknown log level in sample rates: trace'
+    );
+    expect(() => new ThrottledDALoggingAdapter(inner, { sampleRates: { info: 1.5 } })).toThrow(
+      'Sample rate for info must be between 0 and 1, got 1.5'
+    );
+    expect(() => new ThrottledDALoggingAdapter(inner, { rateLimit: { capacity: 0, refillPerSecond: 1 } })).toThrow(
+      'Rate limit capacity must be at least 1 and refillPerSecond non-negative'
+    );
+  });
+});
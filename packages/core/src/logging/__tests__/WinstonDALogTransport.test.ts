@@ -0,0 +1,86 @@
+import { WinstonDALogTransport } from '../WinstonDALogTransport';
+import { RecordingDALoggingAdapter } from './RecordingDALoggingAdapter';
+
+const LEVEL = Symbol.for('level');
+
+function end(transport: WinstonDALogTransport): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transport.once('error', reject);
+    transport.end(() => resolve());
+  });
+}
+
+describe('WinstonDALogTransport', () => {
+  let adapter: RecordingDALoggingAdapter;
+  let transport: WinstonDALogTransport;
+
+  beforeEach(() => {
+    adapter = new RecordingDALoggingAdapter();
+    transport = new WinstonDALogTransport(adapter);
+  });
+
+  it('maps the message, level and other fields of a winston info object', async () => {
+    transport.write({ level: 'warn', message: 'disk almost full', [LEVEL]: 'warn', service: 'api' });
+    await end(transport);
+
+    expect(adapter.logs).toEqual([{ data: 'disk almost full', options: { level: 'warn', metadata: { service: 'api' } } }]);
+  });
+
+  it.each([
+    ['emerg', 'error'],
+    ['crit', 'error'],
+    ['warning', 'warn'],
+    ['http', 'info'],
+    ['notice', 'info'],
+    ['verbose', 'debug'],
+    ['silly', 'debug'],
+  ])('maps the %s level to %s', async (level, expected) => {
+    transport.write({ level, message: 'hello', [LEVEL]: level });
+    await end(transport);
+
+    expect(adapter.logs[0]!.options?.level).toBe(expected);
+  });
+
+  it('reads the level winston kept before colorize changed it', async () => {
+    transport.write({ level: '\u001b[31merror\u001b[39m', message: 'boom', [LEVEL]: 'error' });
+    await end(transport);
+
+    expect(adapter.logs[0]!.options?.level).toBe('error');
+  });
+
+  it('serializes errors in the message and the fields', async () => {
+    const cause = new Error('connection reset');
+    transport.write({ level: 'error', message: new Error('request failed'), [LEVEL]: 'error', cause });
+    await end(transport);
+
+    expect(adapter.logs[0]).toEqual({
+      data: 'request failed',
+      options: {
+        level: 'error',
+        metadata: { cause: { type: 'Error', message: 'connection reset', stack: cause.stack } },
+      },
+    });
+  });
+
+  it('keeps the stack of an error logged as the info object itself', async () => {
+    const error = Object.assign(new Error('boom'), { level: 'error', [LEVEL]: 'error' });
+    transport.write(error);
+    await end(transport);
+
+    expect(adapter.logs[0]).toEqual({ data: 'boom', options: { level: 'error', metadata: { stack: error.stack } } });
+  });
+
+  it('skips logs below minLevel and waits for logs in flight when ending', async () => {
+    transport = new WinstonDALogTransport(adapter, { minLevel: 'info' });
+    adapter.hold();
+    transport.write({ level: 'debug', message: 'debugging', [LEVEL]: 'debug' });
+    transport.write({ level: 'info', message: 'started', [LEVEL]: 'info' });
+    await new Promise(resolve => setImmediate(resolve));
+    expect(transport.pending).toBe(1);
+
+    const ended = end(transport);
+    adapter.release();
+    await ended;
+    expect(adapter.logs.map(log => log.data)).toEqual(['started']);
+  });
+});
@@ -0,0 +1,140 @@
+import { DALogEntry } from '../../types';
+import { ChainedDALoggingAdapter } from '../ChainedDALoggingAdapter';
+import { ChainedLogRecord, GENESIS_HASH, hashChainedRecord, verifyLogChain } from '../logChain';
+import { RecordingDALoggingAdapter } from './RecordingDALoggingAdapter';
+
+async function writeChain(
+  count: number
+): Promise<{ entries: DALogEntry[]; records: ChainedLogRecord[]; logger: ChainedDALoggingAdapter }> {
+  const logger = new ChainedDALoggingAdapter(new RecordingDALoggingAdapter(), { streamId: 'agent-42' });
+  const entries = await Promise.all(Array.from({ length: count }, (_, i) => logger.info(`step ${i}`, { i })));
+  return { entries, records: entries.map(entry => entry.content as ChainedLogRecord), logger };
+}
+
+/**
+ * Change a record's data and recompute its own hash, as a forger would
+ */
+function rewrite(record: ChainedLogRecord, data: unknown): ChainedLogRecord {
+  const fields: Omit<ChainedLogRecord, 'hash'> & { hash?: string } = { ...record, data };
+  delete fields.hash;
+  return { ...fields, hash: hashChainedRecord(fields) };
+}
+
+describe('verifyLogChain', () => {
+  it('accepts a valid chain, as entries or as bare records', async () => {
+    const { entries, records, logger } = await writeChain(4);
+    const expectedHead = { sequence: 3, hash: logger.getState().previousHash };
+
+    const report = verifyLogChain(entries, { streamId: 'agent-42', expectedHead });
+    expect(report).toEqual({ valid: true, count: 4, firstSequence: 0, lastSequence: 3, headHash: records[3]!.hash, issues: [] });
+    expect(verifyLogChain(records, { streamId: 'agent-42', expectedHead })).toEqual(report);
+    expect(records[0]!.previousHash).toBe(GENESIS_HASH);
+  });
+
+  it('reports a record whose content was edited', async () => {
+    const { records } = await writeChain(3);
+    records[1] = { ...records[1]!, data: 'step 1, edited' };
+
+    expect(verifyLogChain(records).issues).toEqual([
+      { type: 'edit', sequence: 1, message: 'Record 1 does not match its hash' },
+    ]);
+  });
+
+  it('reports a record rehashed after an edit, since the next record no longer links to it', async () => {
+    const { records } = await writeChain(3);
+    records[1] = rewrite(records[1]!, 'step 1, edited');
+
+    expect(verifyLogChain(records).issues).toEqual([
+      { type: 'edit', sequence: 2, message: 'Record 2 does not link to record 1' },
+    ]);
+  });
+
+  it('reports reordered records', async () => {
+    const { records } = await writeChain(3);
+    [records[1], records[2]] = [records[2]!, records[1]!];
+
+    expect(verifyLogChain(records).issues).toEqual([
+      { type: 'reorder', sequence: 1, message: 'Record 1 appears after record 2' },
+    ]);
+  });
+
+  it('reports records dropped from the start, the middle and the head', async () => {
+    const { records, logger } = await writeChain(6);
+    const expectedHead = { sequence: 5, hash: logger.getState().previousHash };
+
+    expect(verifyLogChain([records[1]!, records[2]!, records[4]!], { expectedHead }).issues).toEqual([
+      { type: 'gap', sequence: 0, message: 'Records 0 to 0 are missing' },
+      { type: 'gap', sequence: 3, message: 'Records 3 to 3 are missing' },
+      { type: 'gap', sequence: 5, message: 'Records 5 to 5 are missing from the head' },
+    ]);
+  });
+
+  it('reports duplicates, conflicting records and entries from another stream', async () => {
+    const { records } = await writeChain(2);
+    const other = rewrite(records[0]!, 'forged');
+
+    expect(verifyLogChain([records[0]!, records[1]!, records[1]!]).issues).toEqual([
+      { type: 'duplicate', sequence: 1, message: 'Record 1 appears more than once' },
+    ]);
+    expect(verifyLogChain([other, ...records]).issues).toEqual([
+      { type: 'edit', sequence: 0, message: 'Conflicting records share sequence number 0' },
+    ]);
+    expect(verifyLogChain([{ ...records[0]!, streamId: 'agent-7' }, ...records], { streamId: 'agent-42' }).issues).toEqual([
+      { type: 'malformed', sequence: 0, message: 'Entry 0 belongs to stream agent-7' },
+    ]);
+  });
+});
+
+describe('ChainedDALoggingAdapter', () => {
+  it('chains concurrent logs in call order', async () => {
+    const inner = new RecordingDALoggingAdapter().hold();
+    const logger = new ChainedDALoggingAdapter(inner, { streamId: 'agent-42' });
+
+    const writes = Promise.all([logger.info('first'), logger.info('second'), logger.info('third')]);
+    inner.release();
+    const entries = await writes;
+
+    expect(entries.map(entry => (entry.content as ChainedLogRecord).data)).toEqual(['first', 'second', 'third']);
+    expect(verifyLogChain(entries).valid).toBe(true);
+  });
+
+  it('does not advance the chain past a record the wrapped adapter failed to store', async () => {
+    const inner = new RecordingDALoggingAdapter();
+    const logger = new ChainedDALoggingAdapter(inner, { streamId: 'agent-42' });
+    const first = await logger.info('first');
+    const state = logger.getState();
+
+    inner.failNext();
+    const lost = logger.info('lost');
+    const next = logger.info('second');
+
+    await expect(lost).rejects.toThrow('Injected recording failure');
+    const second = await next;
+    expect(second.content).toMatchObject({ sequence: 1, previousHash: state.previousHash, data: 'second' });
+    expect(verifyLogChain([first, second], { expectedHead: { sequence: 1, hash: logger.getState().previousHash } }).valid).toBe(true);
+  });
+
+  it('keeps the chain head while a write is under way', async () => {
+    const inner = new RecordingDALoggingAdapter().hold();
+    const logger = new ChainedDALoggingAdapter(inner, { streamId: 'agent-42' });
+
+    const write = logger.info('first');
+    await new Promise(resolve => setImmediate(resolve));
+    expect(logger.getState()).toEqual({ nextSequence: 0, previousHash: GENESIS_HASH });
+
+    inner.release();
+    const entry = await write;
+    expect(logger.getState()).toEqual({ nextSequence: 1, previousHash: (entry.content as ChainedLogRecord).hash });
+  });
+
+  it('continues a chain from a persisted state', async () => {
+    const { records, logger } = await writeChain(2);
+    const resumed = new ChainedDALoggingAdapter(new RecordingDALoggingAdapter(), {
+      streamId: 'agent-42',
+      initialState: logger.getState(),
+    });
+    const next = await resumed.info('after restart');
+
+    expect(verifyLogChain([...records, next]).valid).toBe(true);
+  });
+});
@@ -0,0 +1,132 @@
+import { RedactingDALoggingAdapter } from '../RedactingDALoggingAdapter';
+import { DEFAULT_REDACTION_DETECTORS, REDACTIONS_METADATA_KEY, redactLog } from '../redaction';
+import { RecordingDALoggingAdapter } from './RecordingDALoggingAdapter';
+
+const KEY = `0x${'ab'.repeat(32)}`;
+const TX_HASH = `0x${'cd'.repeat(32)}`;
+
+describe('redactLog', () => {
+  it('masks detector matches inside strings and records each once per field', () => {
+    const result = redactLog({ data: 'Emailed alice@example.com and bob@example.com with Bearer abc.def' });
+
+    expect(result.data).toBe('Emailed [REDACTED:email] and [REDACTED:email] with [REDACTED:bearerToken]');
+    expect(result.redactions).toEqual([
+      { path: 'data', rule: 'email', mode: 'mask' },
+      { path: 'data', rule: 'bearerToken', mode: 'mask' },
+    ]);
+  });
+
+  it('redacts a private key only where it is labelled as one', () => {
+    const result = redactLog({
+      data: {
+        config: `privateKey: ${KEY}`,
+        env: `SIGNING_KEY=${KEY.slice(2)}`,
+        json: JSON.stringify({ secret_key: KEY }),
+        receipt: `Sent in ${TX_HASH}`,
+        hash: TX_HASH,
+      },
+    });
+
+    expect(result.data).toEqual({
+      config: 'privateKey: [REDACTED:privateKey]',
+      env: 'SIGNING_KEY=[REDACTED:privateKey]',
+      json: '{"secret_key":"[REDACTED:privateKey]"}',
+      receipt: `Sent in ${TX_HASH}`,
+      hash: TX_HASH,
+    });
+    expect(result.redactions.map(redaction => redaction.path)).toEqual(['data.config', 'data.env', 'data.json']);
+  });
+
+  it('redacts key fields through a field rule', () => {
+    const result = redactLog({ data: { wallet: { privateKey: KEY, address: TX_HASH.slice(0, 42) } } }, {
+      rules: [{ path: '**.privateKey' }],
+    });
+
+    expect(result.data).toEqual({ wallet: { privateKey: '[REDACTED]', address: TX_HASH.slice(0, 42) } });
+    expect(result.redactions).toEqual([{ path: 'data.wallet.privateKey', rule: '**.privateKey', mode: 'mask' }]);
+  });
+
+  it('applies each rule and detector mode', () => {
+    const result = redactLog(
+      {
+        data: { users: [{ wallet: 'w1', password: 'hunter2' }], note: 'alice@example.com' },
+        metadata: { user: { email: 'alice@example.com' } },
+        tags: ['alice@example.com', 'trade'],
+      },
+      {
+        rules: [
+          { path: '**.password', mode: 'remove' },
+          { path: 'data.users.*.wallet', mode: 'hash' },
+          { path: 'metadata.user.email' },
+        ],
+        detectors: [{ ...DEFAULT_REDACTION_DETECTORS[0]!, mode: 'remove' }],
+        hashKey: 'secret',
+      },
+    );
+
+    expect(result.data).toEqual({ users: [{ wallet: expect.stringMatching(/^\[hmac-sha256:[0-9a-f]{64}\]$/) }], note: '' });
+    expect(result.metadata).toEqual({ user: { email: '[REDACTED]' } });
+    expect(result.tags).toEqual(['', 'trade']);
+  });
+
+  it('leaves a log with nothing to redact unchanged, and none of the defaults when given no detectors', () => {
+    expect(redactLog({ data: { price: 1, pair: 'ETH/USDC' } })).toEqual({ data: { price: 1, pair: 'ETH/USDC' }, redactions: [] });
+    expect(redactLog({ data: 'alice@example.com' }, { detectors: [] }).data).toBe('alice@example.com');
+  });
+});
+
+describe('RedactingDALoggingAdapter', () => {
+  let inner: RecordingDALoggingAdapter;
+  let logger: RedactingDALoggingAdapter;
+
+  beforeEach(() => {
+    inner = new RecordingDALoggingAdapter();
+    logger = new RedactingDALoggingAdapter(inner, { rules: [{ path: 'metadata.user.email' }] });
+  });
+
+  it('stores the redacted log and lists the redactions under a namespaced key', async () => {
+    const entry = await logger.info('Emailed alice@example.com', { user: { email: 'alice@example.com' } });
+
+    expect(REDACTIONS_METADATA_KEY).toBe('_redactions');
+    expect(entry.content).toBe('Emailed [REDACTED:email]');
+    expect(inner.logs[0]!.options).toEqual({
+      level: 'info',
+      metadata: {
+        user: { email: '[REDACTED]' },
+        _redactions: [
+          { path: 'data', rule: 'email', mode: 'mask' },
+          { path: 'metadata.user.email', rule: 'metadata.user.email', mode: 'mask' },
+        ],
+      },
+      tags: undefined,
+    });
+  });
+
+  it("keeps the caller's own redactions metadata", async () => {
+    await logger.info('Emailed alice@example.com', { redactions: ['ssn'] });
+    expect(inner.logs[0]!.options?.metadata).toEqual({
+      redactions: ['ssn'],
+      _redactions: [{ path: 'data', rule: 'email', mode: 'mask' }],
+    });
+  });
+
+  it('adds to the redactions listed by another redacting adapter', async () => {
+    const outer = new RedactingDALoggingAdapter(logger, { rules: [{ path: 'metadata.token' }], detectors: [] });
+    await outer.info('Emailed alice@example.com', { token: 'abc' });
+
+    expect(inner.logs[0]!.options?.metadata?._redactions).toEqual([
+      { path: 'metadata.token', rule: 'metadata.token', mode: 'mask' },
+      { path: 'data', rule: 'email', mode: 'mask' },
+    ]);
+  });
+
+  it('passes a log with nothing to redact through unchanged', async () => {
+    await logger.log({ price: 1 });
+    await logger.warn('Low balance', { balance: 3 });
+
+    expect(inner.logs).toEqual([
+      { data: { price: 1 }, options: undefined },
+      { data: 'Low balance', options: { level: 'warn', metadata: { balance: 3 }, tags: undefined } },
+    ]);
+  });
+});
@@ -0,0 +1,239 @@
+import { createHash } from 'crypto';
+import { canonicalJson, isPlainObject } from '../serialization/canonicalJson';
+import { DALogEntry, DALogOptions } from '../types';
+
+/**
+ * Hash that the first record of a chain links back to
+ */
+export const GENESIS_HASH = '0'.repeat(64);
+
+/**
+ * A log record linked to the record before it
+ */
+export interface ChainedLogRecord {
+  /** Identifies the stream, e.g. one agent's history */
+  streamId: string;
+  /** Position in the stream, starting at 0 */
+  sequence: number;
+  /** Hash of the previous record, or `GENESIS_HASH` for the first */
+  previousHash: string;
+  /** Hex-encoded SHA-256 over every other field of the record */
+  hash: string;
+  /** Timestamp when the record was chained */
+  timestamp: number;
+  /** The logged data */
+  data: unknown;
+  /** Level, tags and metadata the data was logged with */
+  level?: DALogOptions['level'];
+  tags?: string[];
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Compute the hash of a chained record over all of its fields except `hash`
+ */
+export function hashChainedRecord(record: Omit<ChainedLogRecord, 'hash'>): string {
+  const { streamId, sequence, previousHash, timestamp, data, level, tags, metadata } = record;
+  return createHash('sha256')
+    .update(
+      canonicalJson({ streamId, sequence, previousHash, timestamp, data, level, tags, metadata }),
+    )
+    .digest('hex');
+}
+
+/**
+ * A problem found while verifying a log chain
+ */
+export interface LogChainIssue {
+  /**
+   * - `gap`: records are missing between two sequence numbers, or at the head
+   * - `reorder`: a record appears before one with a lower sequence number
+   * - `edit`: a record's content or link does not match its hashes
+   * - `duplicate`: the same sequence number appears more than once
+   * - `malformed`: an entry is not a chained record
+   */
+  type: 'gap' | 'reorder' | 'edit' | 'duplicate' | 'malformed';
+  /** The sequence number the issue concerns, when known */
+  sequence?: number;
+  /** Human-readable description */
+  message: string;
+}
+
+/**
+ * Result of verifying a log chain
+ */
+export interface LogChainReport {
+  /** Whether the chain has no issues */
+  valid: boolean;
+  /** Number of well-formed records checked */
+  count: number;
+  /** Lowest sequence number found */
+  firstSequence?: number;
+  /** Highest sequence number found */
+  lastSequence?: number;
+  /** Hash of the record with the highest sequence number */
+  headHash?: string;
+  /** Every issue found */
+  issues: LogChainIssue[];
+}
+
+/**
+ * Options for verifying a log chain
+ */
+export interface VerifyLogChainOptions {
+  /** Only check records from this stream; others are reported as malformed */
+  streamId?: string;
+  /** Sequence number the chain should start at (default: 0) */
+  startSequence?: number;
+  /** Last record known to have been written, to detect records dropped from the end */
+  expectedHead?: { sequence: number; hash: string };
+}
+
+/**
+ * Verify a chain of records retrieved from the DA layer, in the order they were retrieved
+ * @param entries Log entries whose content is a `ChainedLogRecord`, or the records themselves
+ */
+export function verifyLogChain(
+  entries: Array<DALogEntry | ChainedLogRecord>,
+  options: VerifyLogChainOptions = {},
+): LogChainReport {
+  const issues: LogChainIssue[] = [];
+  const records: ChainedLogRecord[] = [];
+
+  entries.forEach((entry, position) => {
+    const record = 'status' in entry ? entry.content : entry;
+    if (!isChainedRecord(record)) {
+      issues.push({ type: 'malformed', message: `Entry ${position} is not a chained log record` });
+      return;
+    }
+    if (options.streamId !== undefined && record.streamId !== options.streamId) {
+      issues.push({
+        type: 'malformed',
+        sequence: record.sequence,
+        message: `Entry ${position} belongs to stream ${record.streamId}`,
+      });
+      return;
+    }
+
+    const previous = records[records.length - 1];
+    if (previous && record.sequence < previous.sequence) {
+      issues.push({
+        type: 'reorder',
+        sequence: record.sequence,
+        message: `Record ${record.sequence} appears after record ${previous.sequence}`,
+      });
+    }
+
+    if (!hashMatches(record)) {
+      issues.push({
+        type: 'edit',
+        sequence: record.sequence,
+        message: `Record ${record.sequence} does not match its hash`,
+      });
+    }
+    records.push(record);
+  });
+
+  const sorted = [...records].sort((a, b) => a.sequence - b.sequence);
+  const startSequence = options.startSequence ?? 0;
+  const first = sorted[0];
+
+  if (first) {
+    if (first.sequence > startSequence) {
+      issues.push({
+        type: 'gap',
+        sequence: startSequence,
+        message: `Records ${startSequence} to ${first.sequence - 1} are missing`,
+      });
+    } else if (first.sequence === 0 && first.previousHash !== GENESIS_HASH) {
+      issues.push({
+        type: 'edit',
+        sequence: 0,
+        message: 'First record does not link to the genesis hash',
+      });
+    }
+  }
+
+  for (let i = 1; i < sorted.length; i++) {
+    const previous = sorted[i - 1] as ChainedLogRecord;
+    const record = sorted[i] as ChainedLogRecord;
+
+    if (record.sequence === previous.sequence) {
+      issues.push(
+        record.hash === previous.hash
+          ? {
+              type: 'duplicate',
+              sequence: record.sequence,
+              message: `Record ${record.sequence} appears more than once`,
+            }
+          : {
+              type: 'edit',
+              sequence: record.sequence,
+              message: `Conflicting records share sequence number ${record.sequence}`,
+            },
+      );
+    } else if (record.sequence !== previous.sequence + 1) {
+      issues.push({
+        type: 'gap',
+        sequence: previous.sequence + 1,
+        message: `Records ${previous.sequence + 1} to ${record.sequence - 1} are missing`,
+      });
+    } else if (record.previousHash !== previous.hash) {
+      issues.push({
+        type: 'edit',
+        sequence: record.sequence,
+        message: `Record ${record.sequence} does not link to record ${previous.sequence}`,
+      });
+    }
+  }
+
+  const head = sorted[sorted.length - 1];
+  if (options.expectedHead) {
+    const expected = options.expectedHead;
+    if (!head || head.sequence < expected.sequence) {
+      const from = head ? head.sequence + 1 : startSequence;
+      issues.push({
+        type: 'gap',
+        sequence: from,
+        message: `Records ${from} to ${expected.sequence} are missing from the head`,
+      });
+    } else {
+      const match = sorted.find(record => record.sequence === expected.sequence);
+      if (match && match.hash !== expected.hash) {
+        issues.push({
+          type: 'edit',
+          sequence: expected.sequence,
+          message: `Record ${expected.sequence} does not match the expected head hash`,
+        });
+      }
+    }
+  }
+
+  return {
+    valid: issues.length === 0,
+    count: records.length,
+    firstSequence: first?.sequence,
+    lastSequence: head?.sequence,
+    headHash: head?.hash,
+    issues,
+  };
+}
+
+function hashMatches(record: ChainedLogRecord): boolean {
+  try {
+    return hashChainedRecord(record) === record.hash;
+  } catch {
+    return false;
+  }
+}
+
+function isChainedRecord(value: unknown): value is ChainedLogRecord {
+  return (
+    isPlainObject(value) &&
+    typeof value.streamId === 'string' &&
+    Number.isInteger(value.sequence) &&
+    typeof value.previousHash === 'string' &&
+    typeof value.hash === 'string' &&
+    typeof value.timestamp === 'number'
+  );
+}
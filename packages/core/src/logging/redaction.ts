@@ -0,0 +1,241 @@
+import { createHash, createHmac } from 'crypto';
+import { canonicalJson, isPlainObject } from '../serialization/canonicalJson';
+
+/**
+ * Metadata key under which a redacted log lists what was redacted. The leading underscore keeps
+ * it apart from the caller's own metadata.
+ */
+export const REDACTIONS_METADATA_KEY = '_redactions';
+
+/**
+ * How a sensitive value is replaced:
+ * - `mask`: with a `[REDACTED]` marker
+ * - `hash`: with a SHA-256 hash (an HMAC when a `hashKey` is set), so equal values can still be correlated
+ * - `remove`: dropped entirely
+ */
+export type RedactionMode = 'mask' | 'hash' | 'remove';
+
+/**
+ * Redacts every value at a path. Paths are dot-separated and rooted at `data`, `metadata` or
+ * `tags`, e.g. `metadata.user.email`; `*` matches one segment and `**` any number of them.
+ */
+export interface RedactionFieldRule {
+  path: string;
+  /** Overrides the default mode */
+  mode?: RedactionMode;
+}
+
+/**
+ * Redacts the parts of string values that match a pattern, wherever they appear
+ */
+export interface RedactionDetector {
+  /** Name recorded for each match, e.g. 'email' */
+  name: string;
+  pattern: RegExp;
+  /** Overrides the default mode */
+  mode?: RedactionMode;
+}
+
+/**
+ * Configuration for redacting logs
+ */
+export interface RedactionConfig {
+  /** Fields to redact whatever their content (default: none) */
+  rules?: RedactionFieldRule[];
+  /** Patterns to redact inside strings (default: `DEFAULT_REDACTION_DETECTORS`; pass [] for none) */
+  detectors?: RedactionDetector[];
+  /** Mode for rules and detectors that don't set one (default: 'mask') */
+  mode?: RedactionMode;
+  /** Key for `hash` mode, so low-entropy values such as emails cannot be brute-forced back */
+  hashKey?: string;
+}
+
+/**
+ * A value that was redacted from a log
+ */
+export interface RedactedField {
+  /** Path of the field, e.g. `metadata.user.email` */
+  path: string;
+  /** The field rule's path, or the name of the detector that matched */
+  rule: string;
+  mode: RedactionMode;
+}
+
+/**
+ * The parts of a log that are redacted
+ */
+export interface RedactableLog {
+  data: unknown;
+  metadata?: Record<string, unknown>;
+  tags?: string[];
+}
+
+/**
+ * Detectors for common secrets and personal data. `privateKey` only matches a 32-byte hex
+ * string labelled as a private, secret or signing key, e.g. `privateKey: 0x...`, so transaction
+ * and block hashes stay readable; redact structured key fields with a field rule instead.
+ */
+export const DEFAULT_REDACTION_DETECTORS: RedactionDetector[] = [
+  { name: 'email', pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+  { name: 'jwt', pattern: /\beyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]+/g },
+  { name: 'bearerToken', pattern: /\bBearer\s+[A-Za-z0-9\-._~+/]+=*/g },
+  {
+    name: 'apiKey',
+    pattern: /\b(?:sk|pk|rk)-(?:[a-z]+-)?[A-Za-z0-9_-]{16,}|\bAKIA[0-9A-Z]{16}\b|\bgh[pousr]_[A-Za-z0-9]{36,}\b|\bxox[abprs]-[A-Za-z0-9-]{10,}/g,
+  },
+  {
+    name: 'privateKey',
+    pattern: /(?<=\b(?:private|secret|signing)[_ -]?key["']?\s*[:=]\s*["']?)(?:0x)?[0-9a-fA-F]{64}\b/gi,
+  },
+];
+
+const REMOVED = Symbol('removed');
+
+interface RedactionContext {
+  rules: Array<{ rule: RedactionFieldRule; segments: string[] }>;
+  detectors: RedactionDetector[];
+  mode: RedactionMode;
+  hashKey?: string;
+  redactions: RedactedField[];
+}
+
+/**
+ * Redact a log's data, metadata and tags. Values are normalised through JSON first, so the
+ * result matches what is stored.
+ * @returns The redacted log and every field that was redacted
+ */
+export function redactLog(
+  log: RedactableLog,
+  config: RedactionConfig = {},
+): RedactableLog & { redactions: RedactedField[] } {
+  const context: RedactionContext = {
+    rules: (config.rules ?? []).map(rule => ({ rule, segments: rule.path.split('.') })),
+    detectors: config.detectors ?? DEFAULT_REDACTION_DETECTORS,
+    mode: config.mode ?? 'mask',
+    hashKey: config.hashKey,
+    redactions: [],
+  };
+
+  const result: RedactableLog = { data: undefined };
+  for (const field of ['data', 'metadata', 'tags'] as const) {
+    const json = JSON.stringify(log[field]);
+    if (json === undefined) {
+      continue;
+    }
+    const redacted = redactValue(JSON.parse(json), [field], context);
+    if (redacted !== REMOVED) {
+      result[field] = redacted as never;
+    }
+  }
+
+  return { ...result, redactions: context.redactions };
+}
+
+function redactValue(value: unknown, path: string[], context: RedactionContext): unknown {
+  const match = context.rules.find(({ segments }) => matchesPath(segments, path));
+  if (match) {
+    const mode = match.rule.mode ?? context.mode;
+    context.redactions.push({ path: path.join('.'), rule: match.rule.path, mode });
+    if (mode === 'remove') {
+      return REMOVED;
+    }
+    if (mode === 'mask') {
+      return '[REDACTED]';
+    }
+    // Hash strings as they are, so a hashed field matches a detector's hash of the same value
+    return hashValue(typeof value === 'string' ? value : canonicalJson(value), context);
+  }
+
+  if (typeof value === 'string') {
+    return redactString(value, path, context);
+  }
+
+  if (Array.isArray(value)) {
+    return value
+      .map((item, index) => redactValue(item, [...path, String(index)], context))
+      .filter(item => item !== REMOVED);
+  }
+
+  if (isPlainObject(value)) {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, item] of Object.entries(value)) {
+      const result = redactValue(item, [...path, key], context);
+      if (result !== REMOVED) {
+        redacted[key] = result;
+      }
+    }
+    return redacted;
+  }
+
+  return value;
+}
+
+/**
+ * Replace every detector match in one pass, so replacements are never matched again. Where
+ * matches overlap, the earliest wins, then the one from the detector listed first.
+ */
+function redactString(value: string, path: string[], context: RedactionContext): string {
+  const matches: Array<{ start: number; end: number; detector: RedactionDetector }> = [];
+  for (const detector of context.detectors) {
+    for (const match of value.matchAll(globalPattern(detector.pattern))) {
+      if (match[0]) {
+        matches.push({ start: match.index!, end: match.index! + match[0].length, detector });
+      }
+    }
+  }
+  if (matches.length === 0) {
+    return value;
+  }
+  matches.sort((a, b) => a.start - b.start);
+
+  let result = '';
+  let position = 0;
+  const recorded = new Set<RedactionDetector>();
+  for (const { start, end, detector } of matches) {
+    if (start < position) {
+      continue;
+    }
+    const mode = detector.mode ?? context.mode;
+    const match = value.slice(start, end);
+    result += value.slice(position, start);
+    if (mode !== 'remove') {
+      result += mode === 'hash' ? hashValue(match, context) : `[REDACTED:${detector.name}]`;
+    }
+    position = end;
+
+    if (!recorded.has(detector)) {
+      recorded.add(detector);
+      context.redactions.push({ path: path.join('.'), rule: detector.name, mode });
+    }
+  }
+  return result + value.slice(position);
+}
+
+/**
+ * Match a path against rule segments, where `*` matches one segment and `**` any number
+ */
+function matchesPath(segments: string[], path: string[]): boolean {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return path.length === 0;
+  }
+  if (segment === '**') {
+    return path.some((_, index) => matchesPath(rest, path.slice(index))) || matchesPath(rest, []);
+  }
+  const [head, ...tail] = path;
+  return head !== undefined && (segment === '*' || segment === head) && matchesPath(rest, tail);
+}
+
+function hashValue(value: string, context: RedactionContext): string {
+  if (context.hashKey !== undefined) {
+    return `[hmac-sha256:${createHmac('sha256', context.hashKey).update(value).digest('hex')}]`;
+  }
+  return `[sha256:${createHash('sha256').update(value).digest('hex')}]`;
+}
+
+/**
+ * `String.replace` only replaces every match with a global pattern
+ */
+function globalPattern(pattern: RegExp): RegExp {
+  return pattern.flags.includes('g') ? pattern : new RegExp(pattern.source, `${pattern.flags}g`);
+}
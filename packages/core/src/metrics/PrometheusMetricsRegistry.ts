@@ -0,0 +1,184 @@
+import {
+  HistogramOptions,
+  IMetricsRegistry,
+  MetricCounter,
+  MetricGauge,
+  MetricHistogram,
+  MetricLabels,
+  MetricOptions,
+} from '../interfaces/IMetricsRegistry';
+
+/**
+ * Content type of the Prometheus text exposition format
+ */
+export const PROMETHEUS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+/**
+ * Default histogram buckets, in seconds
+ */
+export const DEFAULT_HISTOGRAM_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+interface HistogramSeries {
+  labels: MetricLabels;
+  counts: number[];
+  sum: number;
+  count: number;
+}
+
+interface Metric {
+  type: MetricType;
+  options: MetricOptions;
+  render(): string[];
+}
+
+/**
+ * In-memory `IMetricsRegistry` that renders its metrics in the Prometheus text format,
+ * for serving from a `/metrics` endpoint without a Prometheus client library
+ */
+export class PrometheusMetricsRegistry implements IMetricsRegistry {
+  private readonly registered = new Map<string, Metric>();
+
+  /**
+   * Create a counter, or return the existing one with this name
+   */
+  counter(options: MetricOptions): MetricCounter {
+    return this.register('counter', options, () => {
+      const values = new Map<string, { labels: MetricLabels; value: number }>();
+      return {
+        inc(labels = {}, value = 1) {
+          if (value < 0) {
+            throw new Error(`Counter ${options.name} cannot decrease`);
+          }
+          const key = labelKey(labels);
+          const existing = values.get(key);
+          // Keep the labels first seen, so a sample renders the same whatever order later calls use
+          values.set(key, { labels: existing?.labels ?? labels, value: (existing?.value ?? 0) + value });
+        },
+        render: () => [...values.values()].map(({ labels, value }) => sample(options.name, labels, value)),
+      };
+    });
+  }
+
+  /**
+   * Create a gauge, or return the existing one with this name
+   */
+  gauge(options: MetricOptions): MetricGauge {
+    return this.register('gauge', options, () => {
+      const values = new Map<string, { labels: MetricLabels; value: number }>();
+      return {
+        set(labels, value) {
+          const key = labelKey(labels);
+          values.set(key, { labels: values.get(key)?.labels ?? labels, value });
+        },
+        render: () => [...values.values()].map(({ labels, value }) => sample(options.name, labels, value)),
+      };
+    });
+  }
+
+  /**
+   * Create a histogram, or return the existing one with this name
+   */
+  histogram(options: HistogramOptions): MetricHistogram {
+    const buckets = [...(options.buckets ?? DEFAULT_HISTOGRAM_BUCKETS)].sort((a, b) => a - b);
+    return this.register('histogram', options, () => {
+      const series = new Map<string, HistogramSeries>();
+      return {
+        observe(labels, value) {
+          const key = labelKey(labels);
+          let entry = series.get(key);
+          if (!entry) {
+            entry = { labels, counts: buckets.map(() => 0), sum: 0, count: 0 };
+            series.set(key, entry);
+          }
+          // Buckets are cumulative: each counts every value up to its bound
+          buckets.forEach((bound, index) => {
+            if (value <= bound) {
+              entry!.counts[index]!++;
+            }
+          });
+          entry.sum += value;
+          entry.count++;
+        },
+        render: () => [...series.values()].flatMap(({ labels, counts, sum, count }) => [
+          ...buckets.map((bound, index) =>
+            sample(`${options.name}_bucket`, { ...labels, le: String(bound) }, counts[index]!)),
+          sample(`${options.name}_bucket`, { ...labels, le: '+Inf' }, count),
+          sample(`${options.name}_sum`, labels, sum),
+          sample(`${options.name}_count`, labels, count),
+        ]),
+      };
+    });
+  }
+
+  /**
+   * Render every metric in the Prometheus text exposition format
+   */
+  metrics(): string {
+    const lines: string[] = [];
+    for (const { type, options, render } of this.registered.values()) {
+      lines.push(`# HELP ${options.name} ${escapeHelp(options.help)}`);
+      lines.push(`# TYPE ${options.name} ${type}`);
+      lines.push(...render());
+    }
+    return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+  }
+
+  /**
+   * Remove every metric
+   */
+  clear(): void {
+    this.registered.clear();
+  }
+
+  private register<T>(type: MetricType, options: MetricOptions, create: () => T & { render(): string[] }): T {
+    if (!/^[a-zA-Z_:][a-zA-Z0-9_:]*$/.test(options.name)) {
+      throw new Error(`Invalid metric name: ${options.name}`);
+    }
+    const existing = this.registered.get(options.name);
+    if (existing) {
+      if (existing.type !== type) {
+        throw new Error(`Metric ${options.name} is already registered as a ${existing.type}`);
+      }
+      return existing as unknown as T;
+    }
+
+    const metric = create();
+    this.registered.set(options.name, Object.assign(metric, { type, options }));
+    return metric;
+  }
+}
+
+/**
+ * Identify a label set regardless of the order its labels were given in
+ */
+function labelKey(labels: MetricLabels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(name => [name, labels[name]]));
+}
+
+function sample(name: string, labels: MetricLabels, value: number): string {
+  const entries = Object.entries(labels);
+  const labelText = entries.length > 0
+    ? `{${entries.map(([label, labelValue]) => `${label}="${escapeLabelValue(labelValue)}"`).join(',')}}`
+    : '';
+  return `${name}${labelText} ${formatValue(value)}`;
+}
+
+function formatValue(value: number): string {
+  if (Number.isNaN(value)) {
+    return 'NaN';
+  }
+  if (!Number.isFinite(value)) {
+    return value > 0 ? '+Inf' : '-Inf';
+  }
+  return String(value);
+}
+
+function escapeHelp(help: string): string {
+  return help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n');
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
@@ -0,0 +1,105 @@
+import { PrometheusMetricsRegistry } from '../PrometheusMetricsRegistry';
+
+describe('PrometheusMetricsRegistry', () => {
+  let registry: PrometheusMetricsRegistry;
+
+  beforeEach(() => {
+    registry = new PrometheusMetricsRegistry();
+  });
+
+  it('renders nothing before any metric is created', () => {
+    expect(registry.metrics()).toBe('');
+  });
+
+  it('renders counters per label set, whatever the order of the labels', () => {
+    const requests = registry.counter({ name: 'requests_total', help: 'Requests', labelNames: ['method', 'status'] });
+    requests.inc({ method: 'GET', status: '200' });
+    requests.inc({ status: '200', method: 'GET' }, 2);
+    requests.inc({ method: 'POST', status: '500' });
+
+    expect(registry.metrics()).toBe([
+      '# HELP requests_total Requests',
+      '# TYPE requests_total counter',
+      'requests_total{method="GET",status="200"} 3',
+      'requests_total{method="POST",status="500"} 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('refuses to decrease a counter', () => {
+    const counter = registry.counter({ name: 'uploads_total', help: 'Uploads' });
+    expect(() => counter.inc({}, -1)).toThrow('Counter uploads_total cannot decrease');
+  });
+
+  it('renders the last value set on a gauge, including non-finite values', () => {
+    const gauge = registry.gauge({ name: 'buffered_logs', help: 'Buffered logs' });
+    gauge.set({}, 5);
+    gauge.set({}, 2);
+    const balance = registry.gauge({ name: 'balance', help: 'Balance', labelNames: ['account'] });
+    balance.set({ account: 'a' }, Infinity);
+    balance.set({ account: 'b' }, -Infinity);
+    balance.set({ account: 'c' }, NaN);
+
+    expect(registry.metrics()).toContain('# TYPE buffered_logs gauge\nbuffered_logs 2\n');
+    expect(registry.metrics()).toContain('balance{account="a"} +Inf\nbalance{account="b"} -Inf\nbalance{account="c"} NaN\n');
+  });
+
+  it('renders histograms with cumulative buckets, a sum and a count', () => {
+    const histogram = registry.histogram({ name: 'flush_seconds', help: 'Flush time', buckets: [1, 0.1, 0.5] });
+    histogram.observe({ result: 'success' }, 0.05);
+    histogram.observe({ result: 'success' }, 0.3);
+    histogram.observe({ result: 'success' }, 2);
+
+    expect(registry.metrics()).toBe([
+      '# HELP flush_seconds Flush time',
+      '# TYPE flush_seconds histogram',
+      'flush_seconds_bucket{result="success",le="0.1"} 1',
+      'flush_seconds_bucket{result="success",le="0.5"} 2',
+      'flush_seconds_bucket{result="success",le="1"} 2',
+      'flush_seconds_bucket{result="success",le="+Inf"} 3',
+      'flush_seconds_sum{result="success"} 2.35',
+      'flush_seconds_count{result="success"} 3',
+      '',
+    ].join('\n'));
+  });
+
+  it('uses the default buckets when none are given', () => {
+    registry.histogram({ name: 'latency_seconds', help: 'Latency' }).observe({}, 0.2);
+    const buckets = registry.metrics().split('\n').filter(line => line.startsWith('latency_seconds_bucket'));
+    expect(buckets).toHaveLength(12);
+    expect(buckets[0]).toBe('latency_seconds_bucket{le="0.005"} 0');
+    expect(buckets[5]).toBe('latency_seconds_bucket{le="0.25"} 1');
+  });
+
+  it('escapes help text and label values', () => {
+    registry.counter({ name: 'errors_total', help: 'Errors\nby \\ message' }).inc({ message: 'say "hi"\\\n' });
+    expect(registry.metrics()).toBe([
+      '# HELP errors_total Errors\\nby \\\\ message',
+      '# TYPE errors_total counter',
+      'errors_total{message="say \\"hi\\"\\\\\\n"} 1',
+      '',
+    ].join('\n'));
+  });
+
+  it('returns the existing metric for a name registered again', () => {
+    registry.counter({ name: 'uploads_total', help: 'Uploads' }).inc();
+    registry.counter({ name: 'uploads_total', help: 'Uploads' }).inc();
+    expect(registry.metrics()).toContain('uploads_total 2');
+  });
+
+  it('refuses a name registered as another type, and an invalid name', () => {
+    registry.counter({ name: 'uploads_total', help: 'Uploads' });
+    expect(() => registry.gauge({ name: 'uploads_total', help: 'Uploads' })).toThrow(
+      'Metric uploads_total is already registered as a counter'
+    );
+    expect(() => registry.counter({ name: 'uploads-total', help: 'Uploads' })).toThrow('Invalid metric name: uploads-total');
+  });
+
+  it('removes every metric on clear()', () => {
+    registry.counter({ name: 'uploads_total', help: 'Uploads' }).inc();
+    registry.clear();
+    expect(registry.metrics()).toBe('');
+    registry.gauge({ name: 'uploads_total', help: 'Uploads' }).set({}, 1);
+    expect(registry.metrics()).toContain('# TYPE uploads_total gauge');
+  });
+});
@@ -0,0 +1,236 @@
+import { HttpStatusError, OperationCancelledError, TimeoutError } from '../../types';
+import {
+  RetryPolicy,
+  getRetryDelay,
+  isRetryableError,
+  isRetryableUnsentError,
+  nonIdempotentRetryPolicy,
+  withRetry,
+} from '../retryPolicy';
+
+// Small delays without jitter, so the tests are quick and the timings predictable
+const FAST: RetryPolicy = { initialDelay: 5, maxDelay: 20, jitter: 0 };
+
+function networkError(code: string): Error {
+  return Object.assign(new Error(`connect ${code}`), { code });
+}
+
+function withCause<T extends Error>(error: T, cause: unknown): T {
+  return Object.assign(error, { cause });
+}
+
+/**
+ * An operation that fails with the given errors in turn, then succeeds
+ */
+function failing(...errors: unknown[]): jest.Mock<Promise<string>, []> {
+  return jest.fn(async () => {
+    if (errors.length > 0) {
+      throw errors.shift();
+    }
+    return 'done';
+  });
+}
+
+function hang(signal: AbortSignal): Promise<never> {
+  return new Promise((_, reject) => signal.addEventListener('abort', () => reject(new Error('aborted'))));
+}
+
+describe('getRetryDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('grows the delay by the multiplier up to the cap', () => {
+    const policy: RetryPolicy = { initialDelay: 100, backoffMultiplier: 3, maxDelay: 1000, jitter: 0 };
+    expect([1, 2, 3, 4, 5].map(retry => getRetryDelay(retry, policy))).toEqual([100, 300, 900, 1000, 1000]);
+  });
+
+  it('uses the defaults for an empty policy', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0);
+    expect([1, 2, 3, 10].map(retry => getRetryDelay(retry))).toEqual([500, 1000, 2000, 30000]);
+  });
+
+  it('takes up to the jitter fraction off each delay, clamped to the whole delay', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(1);
+    expect(getRetryDelay(1, { initialDelay: 100, jitter: 0.25 })).toBe(75);
+    expect(getRetryDelay(1, { initialDelay: 100, jitter: 2 })).toBe(0);
+    expect(getRetryDelay(1, { initialDelay: 100, jitter: -1 })).toBe(100);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until an attempt succeeds', async () => {
+    const operation = failing(new HttpStatusError('Unavailable', 503), networkError('ECONNRESET'));
+
+    await expect(withRetry(operation, FAST)).resolves.toBe('done');
+    expect(operation).toHaveBeenCalledTimes(3);
+  });
+
+  it('throws the last error once attempts run out', async () => {
+    const last = new HttpStatusError('Bad gateway', 502);
+    const operation = failing(new HttpStatusError('Unavailable', 503), last, new Error('never reached'));
+
+    await expect(withRetry(operation, { ...FAST, maxAttempts: 2 })).rejects.toBe(last);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not retry an error that is not retryable', async () => {
+    const error = new HttpStatusError('Bad request', 400);
+    const operation = failing(error);
+
+    await expect(withRetry(operation, FAST)).rejects.toBe(error);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives up rather than wait past the deadline', async () => {
+    jest.useFakeTimers();
+    try {
+      const started = Date.now();
+      const calls: number[] = [];
+      const operation = jest.fn(async () => {
+        calls.push(Date.now() - started);
+        throw new HttpStatusError('Unavailable', 503);
+      });
+
+      const result = withRetry(operation, { initialDelay: 30, backoffMultiplier: 1, jitter: 0, maxAttempts: 10, deadline: 100 });
+      const settled = expect(result).rejects.toThrow('Unavailable');
+      await jest.advanceTimersByTimeAsync(100);
+      await settled;
+
+      // The retry after 90ms would sleep until 120ms, past the deadline
+      expect(calls).toEqual([0, 30, 60, 90]);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+
+  it('times out an attempt that runs past the deadline', async () => {
+    const operation = jest.fn(({ signal }: { signal: AbortSignal }) => hang(signal));
+
+    const error = await withRetry(operation, { ...FAST, maxAttempts: 5, deadline: 30 }).catch(error => error);
+    expect(error).toBeInstanceOf(TimeoutError);
+    expect(error.timeout).toBeLessThanOrEqual(30);
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  it('aborts an attempt that times out and retries it', async () => {
+    const signals: AbortSignal[] = [];
+    const operation = jest.fn(({ attempt, signal }: { attempt: number; signal: AbortSignal }) => {
+      signals.push(signal);
+      return attempt === 1 ? hang(signal) : Promise.resolve('done');
+    });
+
+    await expect(withRetry(operation, { ...FAST, timeout: 20 })).resolves.toBe('done');
+    expect(signals.map(signal => signal.aborted)).toEqual([true, false]);
+  });
+
+  it('throws a TimeoutError when the last attempt times out', async () => {
+    const operation = jest.fn(({ signal }: { signal: AbortSignal }) => hang(signal));
+
+    await expect(withRetry(operation, { ...FAST, maxAttempts: 2, timeout: 10 })).rejects.toThrow(TimeoutError);
+    expect(operation).toHaveBeenCalledTimes(2);
+  });
+
+  it('stops retrying once cancelled', async () => {
+    const controller = new AbortController();
+    const operation = jest.fn(async () => {
+      controller.abort('shutting down');
+      throw new HttpStatusError('Unavailable', 503);
+    });
+
+    const error = await withRetry(operation, FAST, controller.signal).catch(error => error);
+    expect(error).toBeInstanceOf(OperationCancelledError);
+    expect(error.reason).toBe('shutting down');
+    expect(operation).toHaveBeenCalledTimes(1);
+  });
+
+  describe('with the non-idempotent policy', () => {
+    it('does not retry a request that may have been sent', async () => {
+      const error = networkError('ECONNRESET');
+      const operation = failing(error);
+
+      await expect(withRetry(operation, nonIdempotentRetryPolicy(FAST))).rejects.toBe(error);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not retry an attempt that timed out', async () => {
+      const operation = jest.fn(({ signal }: { signal: AbortSignal }) => hang(signal));
+
+      await expect(withRetry(operation, nonIdempotentRetryPolicy({ ...FAST, timeout: 10 }))).rejects.toThrow(TimeoutError);
+      expect(operation).toHaveBeenCalledTimes(1);
+    });
+
+    it('retries a request that never reached the server', async () => {
+      const operation = failing(networkError('ECONNREFUSED'), new HttpStatusError('Too many requests', 429));
+
+      await expect(withRetry(operation, nonIdempotentRetryPolicy(FAST))).resolves.toBe('done');
+      expect(operation).toHaveBeenCalledTimes(3);
+    });
+  });
+});
+
+describe('isRetryableError', () => {
+  it.each([
+    ['a timeout', new TimeoutError('Timed out', 10)],
+    ['HTTP 408', new HttpStatusError('Request timeout', 408)],
+    ['HTTP 425', new HttpStatusError('Too early', 425)],
+    ['HTTP 429', new HttpStatusError('Too many requests', 429)],
+    ['HTTP 500', new HttpStatusError('Internal error', 500)],
+    ['an axios 503', { response: { status: 503 } }],
+    ['a dropped connection', networkError('ECONNRESET')],
+    ['a refused connection', networkError('ECONNREFUSED')],
+    ['a failed fetch', withCause(new TypeError('fetch failed'), networkError('UND_ERR_SOCKET'))],
+    ['a network error as the cause', withCause(new Error('request failed'), networkError('ETIMEDOUT'))],
+  ])('retries %s', (_name, error) => {
+    expect(isRetryableError(error)).toBe(true);
+  });
+
+  it.each([
+    ['HTTP 400', new HttpStatusError('Bad request', 400)],
+    ['HTTP 404', { response: { status: 404 } }],
+    ['an unknown error code', networkError('ENOENT')],
+    ['a plain error', new Error('invalid input')],
+    ['another TypeError', new TypeError('x is not a function')],
+    ['a string', 'failed'],
+    ['undefined', undefined],
+  ])('does not retry %s', (_name, error) => {
+    expect(isRetryableError(error)).toBe(false);
+  });
+});
+
+describe('isRetryableUnsentError', () => {
+  it.each([
+    ['HTTP 425', new HttpStatusError('Too early', 425)],
+    ['HTTP 429', new HttpStatusError('Too many requests', 429)],
+    ['HTTP 503', { response: { status: 503 } }],
+    ['a refused connection', networkError('ECONNREFUSED')],
+    ['a failed DNS lookup', networkError('EAI_AGAIN')],
+    ['a connect timeout as the cause', withCause(new TypeError('fetch failed'), networkError('UND_ERR_CONNECT_TIMEOUT'))],
+  ])('retries %s', (_name, error) => {
+    expect(isRetryableUnsentError(error)).toBe(true);
+  });
+
+  it.each([
+    ['a timeout', new TimeoutError('Timed out', 10)],
+    ['HTTP 500', new HttpStatusError('Internal error', 500)],
+    ['HTTP 502', new HttpStatusError('Bad gateway', 502)],
+    ['a dropped connection', networkError('ECONNRESET')],
+    ['a socket error mid-request', withCause(new TypeError('fetch failed'), networkError('UND_ERR_SOCKET'))],
+    ['a plain error', new Error('invalid input')],
+  ])('does not retry %s', (_name, error) => {
+    expect(isRetryableUnsentError(error)).toBe(false);
+  });
+});
+
+describe('nonIdempotentRetryPolicy', () => {
+  it('keeps the policy but retries only unsent requests', () => {
+    const policy = nonIdempotentRetryPolicy({ maxAttempts: 5, timeout: 100 });
+    expect(policy).toEqual({ maxAttempts: 5, timeout: 100, isRetryable: isRetryableUnsentError });
+    expect(nonIdempotentRetryPolicy(undefined).isRetryable).toBe(isRetryableUnsentError);
+  });
+
+  it("keeps a policy's own isRetryable", () => {
+    const isRetryable = () => true;
+    expect(nonIdempotentRetryPolicy({ isRetryable }).isRetryable).toBe(isRetryable);
+  });
+});
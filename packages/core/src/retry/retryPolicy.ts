@@ -0,0 +1,312 @@
+import { HttpStatusError, OperationCancelledError, TimeoutError } from '../types';
+
+/**
+ * How an adapter retries a remote call that fails or hangs
+ */
+export interface RetryPolicy {
+  /** Total number of attempts, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry in milliseconds (default: 500) */
+  initialDelay?: number;
+  /** Upper bound on any single delay in milliseconds (default: 30000) */
+  maxDelay?: number;
+  /** Factor the delay grows by after each retry (default: 2) */
+  backoffMultiplier?: number;
+  /** Fraction of each delay that is randomized, from 0 to 1 (default: 0.5) */
+  jitter?: number;
+  /** Time limit for a single attempt in milliseconds (default: none) */
+  timeout?: number;
+  /** Time limit for all attempts and delays together in milliseconds (default: none) */
+  deadline?: number;
+  /** Decide whether a failed attempt should be retried (default: `isRetryableError`) */
+  isRetryable?: (error: unknown, attempt: number) => boolean;
+}
+
+/**
+ * Defaults applied to any field a policy leaves unset
+ */
+export const DEFAULT_RETRY_POLICY = {
+  maxAttempts: 3,
+  initialDelay: 500,
+  maxDelay: 30000,
+  backoffMultiplier: 2,
+  jitter: 0.5,
+} as const;
+
+/**
+ * Context passed to each attempt of a retried operation
+ */
+export interface RetryAttempt {
+  /** Attempt number, starting at 1 */
+  attempt: number;
+  /** Aborted when the attempt times out or is cancelled; pass it to fetch or axios to stop the request */
+  signal: AbortSignal;
+}
+
+// Network failures that are worth another attempt
+const RETRYABLE_ERROR_CODES = new Set([
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_SOCKET',
+  'UND_ERR_CONNECT_TIMEOUT',
+  'UND_ERR_HEADERS_TIMEOUT',
+  'UND_ERR_BODY_TIMEOUT',
+]);
+
+/**
+ * Classify an error as transient: timeouts, dropped connections, and HTTP 408, 425, 429 and 5xx
+ * responses. Understands `HttpStatusError`, axios errors and fetch's network errors.
+ */
+export function isRetryableError(error: unknown): boolean {
+  if (error instanceof TimeoutError) {
+    return true;
+  }
+
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 408 || status === 425 || status === 429 || status >= 500;
+  }
+
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string' && RETRYABLE_ERROR_CODES.has(code)) {
+    return true;
+  }
+
+  // fetch reports network failures as a TypeError whose cause holds the socket error
+  if (error instanceof TypeError && error.message === 'fetch failed') {
+    return true;
+  }
+
+  return cause !== undefined && cause !== error && isRetryableError(cause);
+}
+
+// Connection failures that happen before a request reaches the server
+const UNSENT_ERROR_CODES = new Set([
+  'ECONNREFUSED',
+  'EAI_AGAIN',
+  'ENETUNREACH',
+  'EHOSTUNREACH',
+  'UND_ERR_CONNECT_TIMEOUT',
+]);
+
+/**
+ * Classify an error as safe to retry for a request that is not idempotent, such as an upload:
+ * only failures to connect and HTTP 425, 429 and 503 responses, where the server did not act on
+ * the request. Timeouts and dropped connections are not retried, as the request may still land.
+ */
+export function isRetryableUnsentError(error: unknown): boolean {
+  const status = getErrorStatus(error);
+  if (status !== undefined) {
+    return status === 425 || status === 429 || status === 503;
+  }
+
+  if (!error || typeof error !== 'object') {
+    return false;
+  }
+
+  const { code, cause } = error as { code?: unknown; cause?: unknown };
+  if (typeof code === 'string' && UNSENT_ERROR_CODES.has(code)) {
+    return true;
+  }
+  return cause !== undefined && cause !== error && isRetryableUnsentError(cause);
+}
+
+/**
+ * The policy for a request that is not idempotent: retried only on `isRetryableUnsentError`,
+ * unless the policy opts in to more with its own `isRetryable`
+ */
+export function nonIdempotentRetryPolicy(policy: RetryPolicy | undefined): RetryPolicy {
+  return { ...policy, isRetryable: policy?.isRetryable ?? isRetryableUnsentError };
+}
+
+/**
+ * Read the HTTP status from an `HttpStatusError` or an axios-style error
+ */
+export function getErrorStatus(error: unknown): number | undefined {
+  if (error instanceof HttpStatusError) {
+    return error.status;
+  }
+  const status = (error as { response?: { status?: unknown } } | undefined)?.response?.status;
+  return typeof status === 'number' ? status : undefined;
+}
+
+/**
+ * Delay before the given retry, with exponential growth and jitter
+ * @param retry The retry number, starting at 1 for the delay after the first failure
+ */
+export function getRetryDelay(retry: number, policy: RetryPolicy = {}): number {
+  const initialDelay = policy.initialDelay ?? DEFAULT_RETRY_POLICY.initialDelay;
+  const maxDelay = policy.maxDelay ?? DEFAULT_RETRY_POLICY.maxDelay;
+  const multiplier = policy.backoffMultiplier ?? DEFAULT_RETRY_POLICY.backoffMultiplier;
+  const jitter = Math.min(Math.max(policy.jitter ?? DEFAULT_RETRY_POLICY.jitter, 0), 1);
+
+  const delay = Math.min(initialDelay * multiplier ** (retry - 1), maxDelay);
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+/**
+ * Overlay per-call settings, such as an operation's `timeout` option, on a policy
+ */
+export function mergeRetryPolicy(
+  policy: RetryPolicy | undefined,
+  overrides: RetryPolicy | undefined
+): RetryPolicy {
+  const merged: RetryPolicy = { ...policy };
+  for (const [key, value] of Object.entries(overrides ?? {})) {
+    if (value !== undefined) {
+      (merged as Record<string, unknown>)[key] = value;
+    }
+  }
+  return merged;
+}
+
+/**
+ * Run an operation, retrying transient failures according to the policy.
+ * Each attempt gets its own timeout and abort signal; the last error is thrown
+ * once attempts, the deadline or the retryable errors run out.
+ * @param signal Cancels the current attempt and any further ones with an `OperationCancelledError`
+ */
+export async function withRetry<T>(
+  operation: (attempt: RetryAttempt) => Promise<T>,
+  policy: RetryPolicy = {},
+  signal?: AbortSignal
+): Promise<T> {
+  const maxAttempts = Math.max(1, policy.maxAttempts ?? DEFAULT_RETRY_POLICY.maxAttempts);
+  const isRetryable = policy.isRetryable ?? isRetryableError;
+  const deadline = policy.deadline;
+  const deadlineAt = deadline !== undefined ? Date.now() + deadline : undefined;
+
+  for (let attempt = 1; ; attempt++) {
+    const remaining = deadlineAt !== undefined ? deadlineAt - Date.now() : undefined;
+    if (deadline !== undefined && remaining !== undefined && remaining <= 0) {
+      throw new TimeoutError(`Operation exceeded its ${deadline}ms deadline`, deadline);
+    }
+
+    try {
+      return await runAttempt(operation, attempt, policy.timeout, remaining, signal);
+    } catch (error) {
+      // A cancellation is the caller's decision, so it is never retried
+      if (signal?.aborted) {
+        throw toCancelledError(signal);
+      }
+      if (attempt >= maxAttempts || !isRetryable(error, attempt)) {
+        throw error;
+      }
+
+      const delay = getRetryDelay(attempt, policy);
+      // Give up now rather than sleep past the deadline
+      if (deadlineAt !== undefined && Date.now() + delay >= deadlineAt) {
+        throw error;
+      }
+      await cancellableDelay(delay, signal);
+    }
+  }
+}
+
+/**
+ * Run an operation with a time limit, aborting its signal if the limit is reached
+ * @param signal Cancels the operation with an `OperationCancelledError`
+ */
+export function withTimeout<T>(
+  operation: (signal: AbortSignal) => Promise<T>,
+  timeout: number | undefined,
+  signal?: AbortSignal
+): Promise<T> {
+  return runAttempt(attempt => operation(attempt.signal), 1, timeout, undefined, signal);
+}
+
+/**
+ * Throw an `OperationCancelledError` if the signal has been aborted
+ */
+export function throwIfCancelled(signal: AbortSignal | undefined): void {
+  if (signal?.aborted) {
+    throw toCancelledError(signal);
+  }
+}
+
+/**
+ * Wait for a number of milliseconds, rejecting with an `OperationCancelledError` if the
+ * signal is aborted first
+ */
+export function cancellableDelay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(toCancelledError(signal));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(toCancelledError(signal));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+function runAttempt<T>(
+  operation: (attempt: RetryAttempt) => Promise<T>,
+  attempt: number,
+  timeout: number | undefined,
+  remaining: number | undefined,
+  signal: AbortSignal | undefined
+): Promise<T> {
+  throwIfCancelled(signal);
+
+  const controller = new AbortController();
+  const limit = timeout !== undefined && remaining !== undefined
+    ? Math.min(timeout, remaining)
+    : timeout ?? remaining;
+
+  if (limit === undefined && !signal) {
+    return operation({ attempt, signal: controller.signal });
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    // Reject before aborting so the timeout or cancellation, not the abort it causes,
+    // is what the caller sees
+    const timer = limit !== undefined
+      ? setTimeout(() => {
+          reject(new TimeoutError(`Operation timed out after ${limit}ms`, limit));
+          controller.abort();
+        }, limit)
+      : undefined;
+    const onAbort = () => {
+      reject(toCancelledError(signal));
+      controller.abort();
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    const settle = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    operation({ attempt, signal: controller.signal }).then(
+      value => {
+        settle();
+        resolve(value);
+      },
+      error => {
+        settle();
+        reject(error);
+      }
+    );
+  });
+}
+
+function toCancelledError(signal: AbortSignal | undefined): OperationCancelledError {
+  return new OperationCancelledError('Operation was cancelled', signal?.reason);
+}
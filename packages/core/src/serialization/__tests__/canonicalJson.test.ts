@@ -0,0 +1,56 @@
+import { runInNewContext } from 'vm';
+import { ProofEncodingError } from '../../types';
+import { canonicalJson } from '../canonicalJson';
+
+describe('canonicalJson', () => {
+  it('sorts object keys at every depth and drops insignificant whitespace', () => {
+    const value = { b: 1, a: { d: [3, { z: true, y: null }], c: 'x' } };
+    expect(canonicalJson(value)).toBe('{"a":{"c":"x","d":[3,{"y":null,"z":true}]},"b":1}');
+  });
+
+  it('encodes equal values identically whatever their key order', () => {
+    expect(canonicalJson({ requestHash: 'r', contentHash: 'c', logId: 'l' })).toBe(
+      canonicalJson({ logId: 'l', contentHash: 'c', requestHash: 'r' })
+    );
+  });
+
+  it('sorts keys by UTF-16 code units', () => {
+    expect(canonicalJson({ b: 1, B: 2, 'é': 3, a: 4 })).toBe('{"B":2,"a":4,"b":1,"é":3}');
+  });
+
+  it('writes numbers in their shortest round-trip form', () => {
+    expect(canonicalJson([1.0, 0.1, 1e21, -0, 123456789012345680000])).toBe('[1,0.1,1e+21,0,123456789012345680000]');
+  });
+
+  it('omits undefined properties and writes undefined array items as null', () => {
+    expect(canonicalJson({ a: undefined, b: [undefined, 1] })).toBe('{"b":[null,1]}');
+  });
+
+  it('keeps a __proto__ key as data', () => {
+    const value = JSON.parse('{"__proto__":{"admin":true},"a":1}');
+    expect(canonicalJson(value)).toBe('{"__proto__":{"admin":true},"a":1}');
+  });
+
+  it('encodes objects from another realm like local ones', () => {
+    const value = runInNewContext('({ b: [1, { d: null, c: true }], a: Object.create(null) })');
+    expect(canonicalJson(value)).toBe('{"a":{},"b":[1,{"c":true,"d":null}]}');
+    expect(() => canonicalJson(runInNewContext('({ d: new Date(0) })'))).toThrow('$.d');
+  });
+
+  it('detects tampering: any change to the content changes the encoding', () => {
+    const payload = { logId: 'log-1', contentHash: 'abc', metadata: { model: 'gpt-4o' } };
+    const tampered = { ...payload, metadata: { model: 'gpt-4o-mini' } };
+    expect(canonicalJson(tampered)).not.toBe(canonicalJson(payload));
+  });
+
+  it.each([
+    ['a non-finite number', { n: Infinity }, '$.n'],
+    ['NaN in an array', [1, NaN], '$[1]'],
+    ['a function', { f: () => undefined }, '$.f'],
+    ['a class instance', { d: new Date(0) }, '$.d'],
+    ['a bigint', { b: BigInt(1) }, '$.b'],
+  ])('rejects %s with its path', (_name, value, path) => {
+    expect(() => canonicalJson(value)).toThrow(ProofEncodingError);
+    expect(() => canonicalJson(value)).toThrow(path);
+  });
+});
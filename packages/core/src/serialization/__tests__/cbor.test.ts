@@ -0,0 +1,105 @@
+import { ProofDecodingError, ProofEncodingError } from '../../types';
+import { decodeCbor, encodeCbor } from '../cbor';
+
+function hex(bytes: Uint8Array): string {
+  return Buffer.from(bytes).toString('hex');
+}
+
+function fromHex(value: string): Uint8Array {
+  return new Uint8Array(Buffer.from(value, 'hex'));
+}
+
+// A CBOR text string head and its UTF-8 bytes, for keys shorter than 24 bytes
+function text(value: string): string {
+  const bytes = Buffer.from(value, 'utf8');
+  return (0x60 | bytes.length).toString(16) + bytes.toString('hex');
+}
+
+describe('encodeCbor / decodeCbor', () => {
+  it.each([
+    ['zero', 0, '00'],
+    ['the largest one-byte integer', 23, '17'],
+    ['a two-byte integer', 24, '1818'],
+    ['a three-byte integer', 1000, '1903e8'],
+    ['a negative integer', -1, '20'],
+    ['a float', 1.5, 'fb3ff8000000000000'],
+    ['true', true, 'f5'],
+    ['null', null, 'f6'],
+    ['a string', 'IETF', '6449455446'],
+    ['an array', [1, [2, 3]], '8201820203'],
+  ])('encodes %s in the shortest deterministic form', (_name, value, expected) => {
+    expect(hex(encodeCbor(value))).toBe(expected);
+    expect(decodeCbor(fromHex(expected))).toEqual(value);
+  });
+
+  it('sorts map keys by their encoded bytes, shorter keys first', () => {
+    expect(hex(encodeCbor({ aa: 1, b: 2, a: 3 }))).toBe(`a3${text('a')}03${text('b')}02${text('aa')}01`);
+  });
+
+  it('round-trips nested values', () => {
+    const value = {
+      type: 'opacity',
+      data: { payload: { logId: 'log-1', timestamp: 1700000000000 }, signatures: [{ keyId: 'k', signature: 'c2ln' }] },
+      metadata: { score: -0.25, tags: ['a', 'b'], nothing: null, unicode: 'héllo \u{1f600}' },
+    };
+    expect(decodeCbor(encodeCbor(value))).toEqual(value);
+  });
+
+  it('encodes equal values identically whatever their key order', () => {
+    expect(hex(encodeCbor({ x: 1, y: { b: 2, a: 1 } }))).toBe(hex(encodeCbor({ y: { a: 1, b: 2 }, x: 1 })));
+  });
+
+  it('rejects values JSON cannot represent', () => {
+    expect(() => encodeCbor({ n: NaN })).toThrow(ProofEncodingError);
+    expect(() => encodeCbor({ d: new Date(0) })).toThrow(ProofEncodingError);
+  });
+
+  describe('map decoding', () => {
+    it('keeps a __proto__ key as data rather than the prototype', () => {
+      const decoded = decodeCbor(fromHex(`a2${text('__proto__')}a1${text('admin')}f5${text('a')}01`)) as Record<
+        string,
+        unknown
+      >;
+
+      expect(Object.getPrototypeOf(decoded)).toBe(Object.prototype);
+      expect((decoded as { admin?: unknown }).admin).toBeUndefined();
+      expect(Object.keys(decoded)).toEqual(['__proto__', 'a']);
+      expect(decoded['__proto__']).toEqual({ admin: true });
+      expect(({} as { admin?: unknown }).admin).toBeUndefined();
+    });
+
+    it('rejects duplicate keys', () => {
+      expect(() => decodeCbor(fromHex(`a2${text('a')}01${text('a')}02`))).toThrow('Duplicate CBOR map key: a');
+    });
+
+    it('rejects a duplicate __proto__ key', () => {
+      expect(() => decodeCbor(fromHex(`a2${text('__proto__')}01${text('__proto__')}02`))).toThrow(
+        ProofDecodingError
+      );
+    });
+
+    it('rejects keys that are not text strings', () => {
+      expect(() => decodeCbor(fromHex('a10102'))).toThrow('CBOR map keys must be text strings');
+    });
+  });
+
+  describe('malformed input', () => {
+    it('rejects trailing bytes', () => {
+      expect(() => decodeCbor(fromHex('0000'))).toThrow('Unexpected trailing bytes');
+    });
+
+    it('rejects truncated input', () => {
+      const encoded = encodeCbor({ logId: 'log-1' });
+      expect(() => decodeCbor(encoded.subarray(0, encoded.length - 1))).toThrow(ProofDecodingError);
+    });
+
+    it('rejects invalid UTF-8', () => {
+      expect(() => decodeCbor(fromHex('62c328'))).toThrow('Invalid UTF-8');
+    });
+
+    it('rejects unsupported major types', () => {
+      // A byte string
+      expect(() => decodeCbor(fromHex('4100'))).toThrow(ProofDecodingError);
+    });
+  });
+});
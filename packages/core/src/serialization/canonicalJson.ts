@@ -0,0 +1,55 @@
+import { ProofEncodingError } from '../types';
+
+/**
+ * Encode a JSON-compatible value as canonical JSON: object keys sorted by UTF-16 code units,
+ * no insignificant whitespace, and numbers in their shortest round-trip form (RFC 8785).
+ * Equal values always produce identical strings, so the output can be hashed and signed.
+ * @throws {ProofEncodingError} If the value contains something JSON cannot represent
+ */
+export function canonicalJson(value: unknown): string {
+  return encodeValue(value, '$');
+}
+
+function encodeValue(value: unknown, path: string): string {
+  if (value === null || typeof value === 'boolean' || typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+
+  if (typeof value === 'number') {
+    if (!Number.isFinite(value)) {
+      throw new ProofEncodingError(`Cannot encode non-finite number at ${path}`);
+    }
+    return JSON.stringify(value);
+  }
+
+  if (Array.isArray(value)) {
+    // Match JSON.stringify, which writes missing array items as null
+    const items = value.map((item, index) =>
+      item === undefined ? 'null' : encodeValue(item, `${path}[${index}]`),
+    );
+    return `[${items.join(',')}]`;
+  }
+
+  if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${encodeValue(value[key], `${path}.${key}`)}`);
+    return `{${entries.join(',')}}`;
+  }
+
+  throw new ProofEncodingError(`Cannot encode value of type ${typeof value} at ${path}`);
+}
+
+/**
+ * Whether a value is an object literal, rather than an array, class instance or null.
+ * Objects from another realm count too, e.g. JSON parsed by `fetch` outside a test sandbox,
+ * so their prototype is checked for being an `Object.prototype` rather than this realm's.
+ */
+export function isPlainObject(value: unknown): value is Record<string, unknown> {
+  if (value === null || typeof value !== 'object') {
+    return false;
+  }
+  const prototype = Object.getPrototypeOf(value);
+  return prototype === null || Object.getPrototypeOf(prototype) === null;
+}
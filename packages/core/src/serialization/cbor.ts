@@ -0,0 +1,242 @@
+import { ProofDecodingError, ProofEncodingError } from '../types';
+import { isPlainObject } from './canonicalJson';
+
+const MAJOR_UNSIGNED = 0;
+const MAJOR_NEGATIVE = 1;
+const MAJOR_TEXT = 3;
+const MAJOR_ARRAY = 4;
+const MAJOR_MAP = 5;
+const MAJOR_SIMPLE = 7;
+
+const FALSE = 0xf4;
+const TRUE = 0xf5;
+const NULL = 0xf6;
+const FLOAT64 = 0xfb;
+
+const encoder = new TextEncoder();
+const decoder = new TextDecoder('utf-8', { fatal: true });
+
+/**
+ * Encode a JSON-compatible value as deterministic CBOR (RFC 8949 §4.2): definite lengths,
+ * shortest-form integers and lengths, and map keys sorted by their encoded bytes.
+ * Numbers that are not safe integers are always written as 64-bit floats.
+ * @throws {ProofEncodingError} If the value contains something JSON cannot represent
+ */
+export function encodeCbor(value: unknown): Uint8Array {
+  const chunks: Uint8Array[] = [];
+  writeValue(value, chunks, '$');
+  return concat(chunks);
+}
+
+/**
+ * Decode CBOR produced by `encodeCbor` back into a JSON-compatible value
+ * @throws {ProofDecodingError} If the input is malformed or uses unsupported CBOR features
+ */
+export function decodeCbor(bytes: Uint8Array): unknown {
+  const reader = { bytes, offset: 0 };
+  const value = readValue(reader);
+  if (reader.offset !== bytes.length) {
+    throw new ProofDecodingError('Unexpected trailing bytes after CBOR value');
+  }
+  return value;
+}
+
+function writeValue(value: unknown, chunks: Uint8Array[], path: string): void {
+  if (value === null) {
+    chunks.push(Uint8Array.of(NULL));
+  } else if (typeof value === 'boolean') {
+    chunks.push(Uint8Array.of(value ? TRUE : FALSE));
+  } else if (typeof value === 'number') {
+    writeNumber(value, chunks, path);
+  } else if (typeof value === 'string') {
+    const bytes = encoder.encode(value);
+    chunks.push(head(MAJOR_TEXT, bytes.length), bytes);
+  } else if (Array.isArray(value)) {
+    chunks.push(head(MAJOR_ARRAY, value.length));
+    value.forEach((item, index) =>
+      writeValue(item === undefined ? null : item, chunks, `${path}[${index}]`),
+    );
+  } else if (isPlainObject(value)) {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .map(key => {
+        const keyChunks: Uint8Array[] = [];
+        writeValue(key, keyChunks, path);
+        return { key, encodedKey: concat(keyChunks) };
+      })
+      .sort((a, b) => compareBytes(a.encodedKey, b.encodedKey));
+
+    chunks.push(head(MAJOR_MAP, entries.length));
+    for (const { key, encodedKey } of entries) {
+      chunks.push(encodedKey);
+      writeValue(value[key], chunks, `${path}.${key}`);
+    }
+  } else {
+    throw new ProofEncodingError(`Cannot encode value of type ${typeof value} at ${path}`);
+  }
+}
+
+function writeNumber(value: number, chunks: Uint8Array[], path: string): void {
+  if (!Number.isFinite(value)) {
+    throw new ProofEncodingError(`Cannot encode non-finite number at ${path}`);
+  }
+
+  if (Number.isSafeInteger(value)) {
+    chunks.push(value >= 0 ? head(MAJOR_UNSIGNED, value) : head(MAJOR_NEGATIVE, -1 - value));
+    return;
+  }
+
+  const bytes = new Uint8Array(9);
+  bytes[0] = FLOAT64;
+  new DataView(bytes.buffer).setFloat64(1, value);
+  chunks.push(bytes);
+}
+
+/**
+ * Encode a major type and argument in the shortest form
+ */
+function head(major: number, argument: number): Uint8Array {
+  const type = major << 5;
+  if (argument < 24) {
+    return Uint8Array.of(type | argument);
+  }
+  if (argument < 0x100) {
+    return Uint8Array.of(type | 24, argument);
+  }
+  if (argument < 0x10000) {
+    return Uint8Array.of(type | 25, argument >> 8, argument & 0xff);
+  }
+
+  if (argument < 0x100000000) {
+    const bytes = new Uint8Array(5);
+    bytes[0] = type | 26;
+    new DataView(bytes.buffer).setUint32(1, argument);
+    return bytes;
+  }
+
+  const bytes = new Uint8Array(9);
+  bytes[0] = type | 27;
+  new DataView(bytes.buffer).setBigUint64(1, BigInt(argument));
+  return bytes;
+}
+
+interface Reader {
+  bytes: Uint8Array;
+  offset: number;
+}
+
+function readValue(reader: Reader): unknown {
+  const initial = readBytes(reader, 1)[0] as number;
+  const major = initial >> 5;
+  const info = initial & 0x1f;
+
+  if (major === MAJOR_SIMPLE) {
+    if (initial === FALSE) return false;
+    if (initial === TRUE) return true;
+    if (initial === NULL) return null;
+    if (initial === FLOAT64) {
+      const bytes = readBytes(reader, 8);
+      return new DataView(bytes.buffer, bytes.byteOffset, 8).getFloat64(0);
+    }
+    throw new ProofDecodingError(`Unsupported CBOR simple value 0x${initial.toString(16)}`);
+  }
+
+  const argument = readArgument(reader, info);
+  switch (major) {
+    case MAJOR_UNSIGNED:
+      return argument;
+    case MAJOR_NEGATIVE:
+      return -1 - argument;
+    case MAJOR_TEXT:
+      try {
+        return decoder.decode(readBytes(reader, argument));
+      } catch (error) {
+        throw new ProofDecodingError('Invalid UTF-8 in CBOR text string', error);
+      }
+    case MAJOR_ARRAY: {
+      const items: unknown[] = [];
+      for (let i = 0; i < argument; i++) {
+        items.push(readValue(reader));
+      }
+      return items;
+    }
+    case MAJOR_MAP: {
+      const map: Record<string, unknown> = {};
+      for (let i = 0; i < argument; i++) {
+        const key = readValue(reader);
+        if (typeof key !== 'string') {
+          throw new ProofDecodingError('CBOR map keys must be text strings');
+        }
+        if (Object.prototype.hasOwnProperty.call(map, key)) {
+          throw new ProofDecodingError(`Duplicate CBOR map key: ${key}`);
+        }
+        // Define rather than assign, so a '__proto__' key is kept as data instead of changing the prototype
+        Object.defineProperty(map, key, {
+          value: readValue(reader),
+          enumerable: true,
+          writable: true,
+          configurable: true,
+        });
+      }
+      return map;
+    }
+    default:
+      throw new ProofDecodingError(`Unsupported CBOR major type ${major}`);
+  }
+}
+
+function readArgument(reader: Reader, info: number): number {
+  if (info < 24) {
+    return info;
+  }
+
+  const size = { 24: 1, 25: 2, 26: 4, 27: 8 }[info];
+  if (!size) {
+    throw new ProofDecodingError('Indefinite-length and reserved CBOR encodings are not supported');
+  }
+
+  const bytes = readBytes(reader, size);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, size);
+  const value =
+    size === 1
+      ? view.getUint8(0)
+      : size === 2
+        ? view.getUint16(0)
+        : size === 4
+          ? view.getUint32(0)
+          : Number(view.getBigUint64(0));
+
+  if (!Number.isSafeInteger(value)) {
+    throw new ProofDecodingError('CBOR integer exceeds the safe integer range');
+  }
+  return value;
+}
+
+function readBytes(reader: Reader, length: number): Uint8Array {
+  if (reader.offset + length > reader.bytes.length) {
+    throw new ProofDecodingError('Unexpected end of CBOR input');
+  }
+  const bytes = reader.bytes.subarray(reader.offset, reader.offset + length);
+  reader.offset += length;
+  return bytes;
+}
+
+function compareBytes(a: Uint8Array, b: Uint8Array): number {
+  const length = Math.min(a.length, b.length);
+  for (let i = 0; i < length; i++) {
+    if (a[i] !== b[i]) {
+      return (a[i] as number) - (b[i] as number);
+    }
+  }
+  return a.length - b.length;
+}
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const result = new Uint8Array(chunks.reduce((total, chunk) => total + chunk.length, 0));
+  let offset = 0;
+  for (const chunk of chunks) {
+    result.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return result;
+}
@@ -0,0 +1,230 @@
+import {
+  Proof,
+  ProofDecodingError,
+  ProofEncodingError,
+  VerifiableInferenceResult,
+} from '../types';
+import { canonicalJson, isPlainObject } from './canonicalJson';
+import { decodeCbor, encodeCbor } from './cbor';
+
+/**
+ * Current version of the proof envelope format
+ */
+export const PROOF_ENVELOPE_VERSION = 1;
+
+/**
+ * Wire formats supported for encoded proofs
+ */
+export type ProofSerializationFormat = 'json' | 'cbor';
+
+/**
+ * Versioned wrapper around an encoded proof or inference result
+ */
+export interface ProofEnvelope<K extends string = string, P = unknown> {
+  /** Envelope format version */
+  version: number;
+  /** What the payload holds */
+  kind: K;
+  /** The proof or inference result */
+  payload: P;
+}
+
+/**
+ * Checks the `data` of a proof of a given type
+ * @returns The problems found; empty if the data is valid
+ */
+export type ProofDataValidator = (data: unknown) => string[];
+
+/**
+ * Options for encoding proofs and inference results
+ */
+export interface ProofEncodeOptions {
+  /** Wire format (default: 'json') */
+  format?: ProofSerializationFormat;
+}
+
+/**
+ * Options for decoding proofs and inference results
+ */
+export interface ProofDecodeOptions {
+  /** Wire format; detected from the input when omitted */
+  format?: ProofSerializationFormat;
+  /** Validators for `Proof.data`, keyed by proof type */
+  validators?: Record<string, ProofDataValidator>;
+  /** Reject proof types with no validator (default: false) */
+  requireValidator?: boolean;
+  /** Accept input that is valid but not canonically encoded (default: false) */
+  allowNonCanonical?: boolean;
+}
+
+/**
+ * Encode a proof as a versioned, canonically encoded envelope
+ * @throws {ProofEncodingError} If the proof is malformed or holds non-JSON data
+ */
+export function encodeProof(proof: Proof, options?: ProofEncodeOptions): Uint8Array {
+  const errors = validateProof(proof, 'proof');
+  if (errors.length > 0) {
+    throw new ProofEncodingError('Invalid proof', { errors });
+  }
+  return encodeEnvelope('proof', pickProof(proof), options);
+}
+
+/**
+ * Decode a proof envelope produced by `encodeProof`
+ * @throws {ProofDecodingError} If the input is malformed, not canonical or fails validation
+ */
+export function decodeProof(input: Uint8Array | string, options?: ProofDecodeOptions): Proof {
+  const payload = decodeEnvelope('proof', input, options);
+  const proof = payload as Proof;
+  assertValid(validateProof(proof, 'payload', options));
+  return proof;
+}
+
+/**
+ * Encode an inference result, content and proof, as a versioned, canonically encoded envelope
+ * @throws {ProofEncodingError} If the result is malformed or holds non-JSON data
+ */
+export function encodeInferenceResult<T>(
+  result: VerifiableInferenceResult<T>,
+  options?: ProofEncodeOptions,
+): Uint8Array {
+  const errors = validateResult(result);
+  if (errors.length > 0) {
+    throw new ProofEncodingError('Invalid inference result', { errors });
+  }
+  return encodeEnvelope(
+    'inference_result',
+    { content: result.content, proof: pickProof(result.proof) },
+    options,
+  );
+}
+
+/**
+ * Decode an inference result envelope produced by `encodeInferenceResult`
+ * @throws {ProofDecodingError} If the input is malformed, not canonical or fails validation
+ */
+export function decodeInferenceResult<T = string>(
+  input: Uint8Array | string,
+  options?: ProofDecodeOptions,
+): VerifiableInferenceResult<T> {
+  const payload = decodeEnvelope('inference_result', input, options);
+  const result = payload as VerifiableInferenceResult<T>;
+  assertValid(validateResult(result, options));
+  return result;
+}
+
+function encodeEnvelope(kind: string, payload: unknown, options?: ProofEncodeOptions): Uint8Array {
+  const envelope: ProofEnvelope = { version: PROOF_ENVELOPE_VERSION, kind, payload };
+  return options?.format === 'cbor'
+    ? encodeCbor(envelope)
+    : new TextEncoder().encode(canonicalJson(envelope));
+}
+
+function decodeEnvelope(
+  kind: string,
+  input: Uint8Array | string,
+  options?: ProofDecodeOptions,
+): unknown {
+  const bytes = typeof input === 'string' ? new TextEncoder().encode(input) : input;
+  const format = options?.format ?? detectFormat(bytes);
+
+  let envelope: unknown;
+  if (format === 'cbor') {
+    envelope = decodeCbor(bytes);
+  } else {
+    try {
+      envelope = JSON.parse(new TextDecoder('utf-8', { fatal: true }).decode(bytes));
+    } catch (error) {
+      throw new ProofDecodingError('Invalid JSON proof envelope', error);
+    }
+  }
+
+  if (!isPlainObject(envelope)) {
+    throw new ProofDecodingError('Proof envelope must be an object');
+  }
+  if (envelope.version !== PROOF_ENVELOPE_VERSION) {
+    throw new ProofDecodingError(`Unsupported proof envelope version: ${String(envelope.version)}`);
+  }
+  if (envelope.kind !== kind) {
+    throw new ProofDecodingError(`Expected a ${kind} envelope, got ${String(envelope.kind)}`);
+  }
+
+  // Canonical input re-encodes to the same bytes, which is what makes hashes and signatures stable
+  if (!options?.allowNonCanonical) {
+    const reencoded =
+      format === 'cbor' ? encodeCbor(envelope) : new TextEncoder().encode(canonicalJson(envelope));
+    if (!equalBytes(bytes, reencoded)) {
+      throw new ProofDecodingError('Proof envelope is not canonically encoded');
+    }
+  }
+
+  return envelope.payload;
+}
+
+function detectFormat(bytes: Uint8Array): ProofSerializationFormat {
+  // Canonical JSON envelopes always start with '{'; CBOR maps start with 0xa0-0xbb
+  return bytes[0] === 0x7b ? 'json' : 'cbor';
+}
+
+function pickProof(proof: Proof): Proof {
+  return {
+    type: proof.type,
+    data: proof.data,
+    timestamp: proof.timestamp,
+    metadata: proof.metadata,
+  };
+}
+
+function validateProof(proof: unknown, path: string, options?: ProofDecodeOptions): string[] {
+  if (!isPlainObject(proof)) {
+    return [`${path} must be an object`];
+  }
+
+  const errors: string[] = [];
+  if (typeof proof.type !== 'string' || proof.type.length === 0) {
+    errors.push(`${path}.type must be a non-empty string`);
+  }
+  if (typeof proof.timestamp !== 'number' || !Number.isFinite(proof.timestamp)) {
+    errors.push(`${path}.timestamp must be a finite number`);
+  }
+  if (proof.data === undefined) {
+    errors.push(`${path}.data is required`);
+  }
+  if (proof.metadata !== undefined && !isPlainObject(proof.metadata)) {
+    errors.push(`${path}.metadata must be an object`);
+  }
+
+  if (options && typeof proof.type === 'string') {
+    const validator = options.validators?.[proof.type];
+    if (validator) {
+      errors.push(...validator(proof.data).map(error => `${path}.data: ${error}`));
+    } else if (options.requireValidator) {
+      errors.push(`No validator for proof type '${proof.type}'`);
+    }
+  }
+
+  return errors;
+}
+
+function validateResult(result: unknown, options?: ProofDecodeOptions): string[] {
+  if (!isPlainObject(result)) {
+    return ['payload must be an object'];
+  }
+
+  const errors: string[] = [];
+  if (result.content === undefined) {
+    errors.push('payload.content is required');
+  }
+  errors.push(...validateProof(result.proof, 'payload.proof', options));
+  return errors;
+}
+
+function assertValid(errors: string[]): void {
+  if (errors.length > 0) {
+    throw new ProofDecodingError(`Invalid proof envelope: ${errors.join('; ')}`, { errors });
+  }
+}
+
+function equalBytes(a: Uint8Array, b: Uint8Array): boolean {
+  return a.length === b.length && a.every((byte, index) => byte === b[index]);
+}
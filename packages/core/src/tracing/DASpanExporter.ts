@@ -0,0 +1,183 @@
+import { IDALoggingAdapter } from '../interfaces/IDALoggingAdapter';
+import { DALogOptions } from '../types';
+import {
+  DASpanStatusCode,
+  ExportableSpan,
+  SpanExportResult,
+  SpanExportResultCode,
+  SpanTime,
+} from './otel';
+
+const NANOSECONDS_PER_SECOND = BigInt(1e9);
+
+/**
+ * A span as stored in the DA layer. Times are nanoseconds since the Unix epoch, as strings.
+ */
+export interface SerializedSpan {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  status: { code: number; message?: string };
+  attributes: Record<string, unknown>;
+  events: Array<{ name: string; timeUnixNano: string; attributes: Record<string, unknown> }>;
+  links: Array<{ traceId: string; spanId: string; attributes: Record<string, unknown> }>;
+  scope?: { name: string; version?: string };
+}
+
+/**
+ * The data of each log written by the span exporter
+ */
+export interface DASpanBatch {
+  type: 'otel.spans';
+  version: 1;
+  /** Attributes of the resource that produced the spans, e.g. `service.name` */
+  resource: Record<string, unknown>;
+  spans: SerializedSpan[];
+}
+
+/**
+ * Configuration for the span exporter
+ */
+export interface DASpanExporterConfig {
+  /** Most spans in a single log (default: 512) */
+  maxSpansPerLog?: number;
+  /** Tags added to every log */
+  tags?: string[];
+  /** Timeout for storing each log in milliseconds (default: the adapter's) */
+  timeout?: number;
+  /** Shut down the adapter when the exporter shuts down (default: false) */
+  shutdownAdapter?: boolean;
+}
+
+/**
+ * OpenTelemetry `SpanExporter` that stores finished spans with an `IDALoggingAdapter`, for a
+ * verifiable copy of each agent run's trace. Use it with a `BatchSpanProcessor`; each export
+ * becomes one log per resource, or more when it has over `maxSpansPerLog` spans. An export
+ * only succeeds once every log is stored, so with `EigenDAAdapter` it waits for the blob upload.
+ */
+export class DASpanExporter {
+  private readonly inFlight = new Set<Promise<void>>();
+  private isShutdown = false;
+
+  constructor(
+    private readonly adapter: IDALoggingAdapter,
+    private readonly config: DASpanExporterConfig = {},
+  ) {
+    const maxSpansPerLog = config.maxSpansPerLog ?? 512;
+    if (!Number.isInteger(maxSpansPerLog) || maxSpansPerLog < 1) {
+      throw new Error(`maxSpansPerLog must be a positive integer, got ${maxSpansPerLog}`);
+    }
+  }
+
+  export(spans: ExportableSpan[], resultCallback: (result: SpanExportResult) => void): void {
+    if (this.isShutdown) {
+      resultCallback({ code: SpanExportResultCode.FAILED, error: new Error('Exporter has been shut down') });
+      return;
+    }
+
+    const exported: Promise<void> = this.store(spans)
+      .then(
+        () => resultCallback({ code: SpanExportResultCode.SUCCESS }),
+        error => resultCallback({
+          code: SpanExportResultCode.FAILED,
+          error: error instanceof Error ? error : new Error(String(error)),
+        }),
+      )
+      .finally(() => this.inFlight.delete(exported));
+    this.inFlight.add(exported);
+  }
+
+  /**
+   * Wait for every export in flight
+   */
+  async forceFlush(): Promise<void> {
+    await Promise.all(this.inFlight);
+  }
+
+  /**
+   * Wait for every export in flight, then refuse further exports
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+    await this.forceFlush();
+    if (this.config.shutdownAdapter) {
+      await this.adapter.shutdown();
+    }
+  }
+
+  private async store(spans: ExportableSpan[]): Promise<void> {
+    const maxSpansPerLog = this.config.maxSpansPerLog ?? 512;
+
+    // Spans from one tracer provider share a resource, so one export is usually one group
+    const byResource = new Map<ExportableSpan['resource'], ExportableSpan[]>();
+    for (const span of spans) {
+      byResource.set(span.resource, [...(byResource.get(span.resource) ?? []), span]);
+    }
+
+    const logs: Array<Promise<unknown>> = [];
+    for (const [resource, group] of byResource) {
+      for (let start = 0; start < group.length; start += maxSpansPerLog) {
+        const batch: DASpanBatch = {
+          type: 'otel.spans',
+          version: 1,
+          resource: resource.attributes,
+          spans: group.slice(start, start + maxSpansPerLog).map(serializeSpan),
+        };
+        logs.push(this.adapter.log(batch, this.logOptions(batch)));
+      }
+    }
+    await Promise.all(logs);
+  }
+
+  /**
+   * Record the batch's trace IDs in metadata so a run's spans can be found, and log batches
+   * with failed spans as errors
+   */
+  private logOptions(batch: DASpanBatch): DALogOptions {
+    const failed = batch.spans.some(span => span.status.code === DASpanStatusCode.ERROR);
+    return {
+      level: failed ? 'error' : 'info',
+      tags: this.config.tags,
+      timeout: this.config.timeout,
+      metadata: {
+        traceIds: [...new Set(batch.spans.map(span => span.traceId))],
+        spanCount: batch.spans.length,
+      },
+    };
+  }
+}
+
+function serializeSpan(span: ExportableSpan): SerializedSpan {
+  const { traceId, spanId } = span.spanContext();
+  const scope = span.instrumentationScope ?? span.instrumentationLibrary;
+  return {
+    traceId,
+    spanId,
+    parentSpanId: span.parentSpanContext?.spanId ?? span.parentSpanId,
+    name: span.name,
+    kind: span.kind,
+    startTimeUnixNano: toUnixNano(span.startTime),
+    endTimeUnixNano: toUnixNano(span.endTime),
+    status: { ...span.status },
+    attributes: { ...span.attributes },
+    events: span.events.map(event => ({
+      name: event.name,
+      timeUnixNano: toUnixNano(event.time),
+      attributes: { ...event.attributes },
+    })),
+    links: span.links.map(link => ({
+      traceId: link.context.traceId,
+      spanId: link.context.spanId,
+      attributes: { ...link.attributes },
+    })),
+    scope: scope && { name: scope.name, version: scope.version },
+  };
+}
+
+function toUnixNano([seconds, nanoseconds]: SpanTime): string {
+  return (BigInt(seconds) * NANOSECONDS_PER_SECOND + BigInt(nanoseconds)).toString();
+}
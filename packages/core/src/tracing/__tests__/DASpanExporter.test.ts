@@ -0,0 +1,149 @@
+import { RecordingDALoggingAdapter } from '../../logging/__tests__/RecordingDALoggingAdapter';
+import { DASpanBatch, DASpanExporter } from '../DASpanExporter';
+import { DASpanStatusCode, ExportableSpan, SpanExportResult, SpanExportResultCode } from '../otel';
+
+const RESOURCE = { attributes: { 'service.name': 'agent' } };
+
+function span(name: string, overrides: Partial<ExportableSpan> = {}, traceId = 'trace-1'): ExportableSpan {
+  return {
+    name,
+    kind: 2,
+    spanContext: () => ({ traceId, spanId: `span-${name}` }),
+    startTime: [1700000000, 5],
+    endTime: [1700000001, 500000000],
+    status: { code: DASpanStatusCode.OK },
+    attributes: { 'gen_ai.system': 'openai' },
+    events: [],
+    links: [],
+    resource: RESOURCE,
+    ...overrides,
+  };
+}
+
+function exportSpans(exporter: DASpanExporter, spans: ExportableSpan[]): Promise<SpanExportResult> {
+  return new Promise(resolve => exporter.export(spans, resolve));
+}
+
+describe('DASpanExporter', () => {
+  let adapter: RecordingDALoggingAdapter;
+
+  beforeEach(() => {
+    adapter = new RecordingDALoggingAdapter();
+  });
+
+  it('stores each export as a log of serialized spans', async () => {
+    const exporter = new DASpanExporter(adapter, { tags: ['trace'], timeout: 1000 });
+    const child = span('completion', {
+      parentSpanContext: { traceId: 'trace-1', spanId: 'span-run' },
+      events: [{ name: 'proof', time: [1700000001, 0], attributes: { logId: 'log-1' } }],
+      links: [{ context: { traceId: 'trace-0', spanId: 'span-0' } }],
+      instrumentationScope: { name: 'agentkit', version: '0.1.0' },
+    });
+
+    await expect(exportSpans(exporter, [span('run'), child])).resolves.toEqual({ code: SpanExportResultCode.SUCCESS });
+
+    expect(adapter.logs).toHaveLength(1);
+    const { data, options } = adapter.logs[0]!;
+    expect(options).toEqual({ level: 'info', tags: ['trace'], timeout: 1000, metadata: { traceIds: ['trace-1'], spanCount: 2 } });
+    expect(data).toEqual({
+      type: 'otel.spans',
+      version: 1,
+      resource: { 'service.name': 'agent' },
+      spans: [
+        expect.objectContaining({ name: 'run', traceId: 'trace-1', spanId: 'span-run', parentSpanId: undefined }),
+        {
+          traceId: 'trace-1',
+          spanId: 'span-completion',
+          parentSpanId: 'span-run',
+          name: 'completion',
+          kind: 2,
+          startTimeUnixNano: '1700000000000000005',
+          endTimeUnixNano: '1700000001500000000',
+          status: { code: DASpanStatusCode.OK },
+          attributes: { 'gen_ai.system': 'openai' },
+          events: [{ name: 'proof', timeUnixNano: '1700000001000000000', attributes: { logId: 'log-1' } }],
+          links: [{ traceId: 'trace-0', spanId: 'span-0', attributes: {} }],
+          scope: { name: 'agentkit', version: '0.1.0' },
+        },
+      ],
+    });
+  });
+
+  it('splits spans by resource and by maxSpansPerLog, and logs batches with failed spans as errors', async () => {
+    const exporter = new DASpanExporter(adapter, { maxSpansPerLog: 2 });
+    const other = { attributes: { 'service.name': 'prover' } };
+    const failed = span('c', { status: { code: DASpanStatusCode.ERROR, message: 'boom' } }, 'trace-2');
+
+    await exportSpans(exporter, [span('a'), span('b'), failed, span('d', { resource: other })]);
+
+    const batches = adapter.logs.map(log => log.data as DASpanBatch);
+    expect(batches.map(batch => [batch.resource['service.name'], batch.spans.map(s => s.name)])).toEqual([
+      ['agent', ['a', 'b']],
+      ['agent', ['c']],
+      ['prover', ['d']],
+    ]);
+    expect(adapter.logs.map(log => log.options?.level)).toEqual(['info', 'error', 'info']);
+    expect(adapter.logs[1]!.options?.metadata).toEqual({ traceIds: ['trace-2'], spanCount: 1 });
+  });
+
+  it('reports a failed export when the adapter rejects', async () => {
+    const exporter = new DASpanExporter(adapter, { maxSpansPerLog: 1 });
+    adapter.failNext();
+
+    const result = await exportSpans(exporter, [span('a'), span('b')]);
+
+    expect(result.code).toBe(SpanExportResultCode.FAILED);
+    expect(result.error?.message).toBe('Injected recording failure');
+  });
+
+  it('wraps a rejection that is not an Error', async () => {
+    const exporter = new DASpanExporter(adapter);
+    jest.spyOn(adapter, 'log').mockRejectedValueOnce('unavailable');
+
+    await expect(exportSpans(exporter, [span('a')])).resolves.toEqual({
+      code: SpanExportResultCode.FAILED,
+      error: new Error('unavailable'),
+    });
+  });
+
+  it('waits for exports in flight when shutting down, then refuses more', async () => {
+    const exporter = new DASpanExporter(adapter, { shutdownAdapter: true });
+    const shutdownAdapter = jest.spyOn(adapter, 'shutdown');
+    const results: SpanExportResult[] = [];
+    adapter.hold();
+
+    exporter.export([span('a')], result => results.push(result));
+    const shutdown = exporter.shutdown();
+    await new Promise(resolve => setImmediate(resolve));
+    expect(results).toEqual([]);
+    expect(shutdownAdapter).not.toHaveBeenCalled();
+
+    adapter.release();
+    await shutdown;
+    expect(results).toEqual([{ code: SpanExportResultCode.SUCCESS }]);
+    expect(shutdownAdapter).toHaveBeenCalledTimes(1);
+
+    const refused = await exportSpans(exporter, [span('b')]);
+    expect(refused).toMatchObject({ code: SpanExportResultCode.FAILED, error: { message: 'Exporter has been shut down' } });
+    expect(adapter.logs).toHaveLength(1);
+  });
+
+  it('flushes exports in flight without shutting down', async () => {
+    const exporter = new DASpanExporter(adapter);
+    const shutdownAdapter = jest.spyOn(adapter, 'shutdown');
+    adapter.hold();
+
+    const exported = exportSpans(exporter, [span('a')]);
+    const flushed = exporter.forceFlush();
+    adapter.release();
+    await flushed;
+
+    await expect(exported).resolves.toEqual({ code: SpanExportResultCode.SUCCESS });
+    expect(shutdownAdapter).not.toHaveBeenCalled();
+    await expect(exportSpans(exporter, [span('b')])).resolves.toEqual({ code: SpanExportResultCode.SUCCESS });
+  });
+
+  it('rejects an invalid maxSpansPerLog', () => {
+    expect(() => new DASpanExporter(adapter, { maxSpansPerLog: 0 })).toThrow('maxSpansPerLog must be a positive integer, got 0');
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * The parts of OpenTelemetry's tracing API used by AgentKit, declared structurally so
+ * AgentKit does not depend on a particular OpenTelemetry version. The SDK's own types
+ * (`ReadableSpan`, `Tracer`, `Span`) satisfy these.
+ */
+
+/**
+ * Time as [seconds, nanoseconds] since the Unix epoch, matching OpenTelemetry's `HrTime`
+ */
+export type SpanTime = [number, number];
+
+/**
+ * Identifies a span within a trace
+ */
+export interface SpanContextLike {
+  traceId: string;
+  spanId: string;
+  traceFlags?: number;
+}
+
+/**
+ * Span status codes, matching OpenTelemetry's `SpanStatusCode`
+ */
+export const DASpanStatusCode = {
+  UNSET: 0,
+  OK: 1,
+  ERROR: 2,
+} as const;
+
+/**
+ * A finished span, as passed to a span exporter
+ */
+export interface ExportableSpan {
+  name: string;
+  kind: number;
+  spanContext(): SpanContextLike;
+  /** Parent span ID (OpenTelemetry SDK 1.x) */
+  parentSpanId?: string;
+  /** Parent span context (OpenTelemetry SDK 2.x) */
+  parentSpanContext?: SpanContextLike;
+  startTime: SpanTime;
+  endTime: SpanTime;
+  status: { code: number; message?: string };
+  attributes: Record<string, unknown>;
+  events: Array<{ name: string; time: SpanTime; attributes?: Record<string, unknown> }>;
+  links: Array<{ context: SpanContextLike; attributes?: Record<string, unknown> }>;
+  resource: { attributes: Record<string, unknown> };
+  /** Instrumentation that created the span (OpenTelemetry SDK 1.x) */
+  instrumentationLibrary?: { name: string; version?: string };
+  /** Instrumentation that created the span (OpenTelemetry SDK 2.x) */
+  instrumentationScope?: { name: string; version?: string };
+}
+
+/**
+ * Export result codes, matching OpenTelemetry's `ExportResultCode`
+ */
+export const SpanExportResultCode = {
+  SUCCESS: 0,
+  FAILED: 1,
+} as const;
+
+/**
+ * Result of exporting spans, matching OpenTelemetry's `ExportResult`
+ */
+export interface SpanExportResult {
+  code: (typeof SpanExportResultCode)[keyof typeof SpanExportResultCode];
+  error?: Error;
+}
+
+/**
+ * A span being recorded
+ */
+export interface SpanLike {
+  setAttribute(key: string, value: string | number | boolean): unknown;
+  setStatus(status: { code: number; message?: string }): unknown;
+  recordException(exception: Error | string): unknown;
+  end(): unknown;
+}
+
+/**
+ * Starts spans, such as a tracer from `trace.getTracer()`
+ */
+export interface TracerLike {
+  startSpan(name: string, options?: { kind?: number; attributes?: Record<string, string | number | boolean> }): SpanLike;
+}
@@ -22,12 +22,44 @@ export interface VerifiableInferenceResult<T = string> {
   proof: Proof;
 }
 
+/**
+ * Role of a chat message
+ */
+export type MessageRole = 'system' | 'user' | 'assistant';
+
+/**
+ * A single message in a chat conversation
+ */
+export interface ChatMessage {
+  /** The role of who sent the message */
+  role: MessageRole;
+  /** The content of the message */
+  content: string;
+}
+
+/**
+ * A chunk emitted by a verifiable text stream
+ */
+export type VerifiableStreamChunk<T = string> =
+  | {
+      /** A piece of generated text, in the order it was produced */
+      type: 'text';
+      text: string;
+    }
+  | {
+      /** The final chunk, carrying the full content and the proof covering it */
+      type: 'result';
+      result: VerifiableInferenceResult<T>;
+    };
+
 /**
  * Configuration options for verifiable operations
  */
 export interface VerifiableOptions {
   /** Optional timeout in milliseconds */
   timeout?: number;
+  /** Signal that cancels the operation, rejecting it with an `OperationCancelledError` */
+  signal?: AbortSignal;
   /** Whether to skip proof verification (default: false) */
   skipVerification?: boolean;
   /** Additional options specific to the adapter */
@@ -61,6 +93,32 @@ export class ProofGenerationError extends Error {
   }
 }
 
+/**
+ * Error thrown when a proof or inference result cannot be encoded
+ */
+export class ProofEncodingError extends Error {
+  constructor(
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ProofEncodingError';
+  }
+}
+
+/**
+ * Error thrown when encoded proof data is malformed or fails validation
+ */
+export class ProofDecodingError extends Error {
+  constructor(
+    message: string,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'ProofDecodingError';
+  }
+}
+
 /**
  * Represents the status of a log entry in the data availability layer
  */
@@ -75,16 +133,23 @@ export interface DALogStatus {
   metadata?: Record<string, unknown>;
 }
 
+/**
+ * Severity of a log, from least to most severe: debug, info, warn, error
+ */
+export type DALogLevel = 'info' | 'warn' | 'error' | 'debug';
+
 /**
  * Configuration options for DA logging operations
  */
 export interface DALogOptions {
   /** Optional timeout in milliseconds */
   timeout?: number;
+  /** Signal that cancels the log if it has not been stored yet; never stored with the log */
+  signal?: AbortSignal;
   /** Optional tags for categorizing logs */
   tags?: string[];
   /** Log level */
-  level?: 'info' | 'warn' | 'error' | 'debug';
+  level?: DALogLevel;
   /** Additional metadata */
   metadata?: Record<string, unknown>;
 }
@@ -103,6 +168,8 @@ export interface DALogEntry {
   status: DALogStatus;
   /** Options used when creating the log */
   options?: DALogOptions;
+  /** Optional proof that the entry is included in what was stored in the DA layer */
+  proof?: Proof;
 }
 
 /**
@@ -129,4 +196,44 @@ export class DALogRetrievalError extends Error {
     super(message);
     this.name = 'DALogRetrievalError';
   }
-} 
\ No newline at end of file
+}
+
+/**
+ * Error thrown when an operation does not finish within its timeout or deadline
+ */
+export class TimeoutError extends Error {
+  constructor(
+    message: string,
+    public readonly timeout: number,
+  ) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+/**
+ * Error thrown when a remote service responds with a non-success HTTP status
+ */
+export class HttpStatusError extends Error {
+  constructor(
+    message: string,
+    public readonly status: number,
+    public readonly details?: unknown,
+  ) {
+    super(message);
+    this.name = 'HttpStatusError';
+  }
+}
+
+/**
+ * Error thrown when an operation is cancelled through its `AbortSignal`
+ */
+export class OperationCancelledError extends Error {
+  constructor(
+    message: string = 'Operation was cancelled',
+    public readonly reason?: unknown,
+  ) {
+    super(message);
+    this.name = 'OperationCancelledError';
+  }
+}
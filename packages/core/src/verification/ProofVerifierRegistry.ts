@@ -0,0 +1,68 @@
+import { IProofVerifier } from '../interfaces/IProofVerifier';
+import { Proof, ProofVerificationError } from '../types';
+
+/**
+ * Routes proofs to the verifier registered for their `type`, so stored proofs
+ * can be verified without the adapter that produced them
+ */
+export class ProofVerifierRegistry {
+  private readonly verifiers = new Map<string, IProofVerifier>();
+
+  /**
+   * Register a verifier for a proof type, replacing any existing one
+   * @param type The proof type (e.g., 'opacity')
+   * @param verifier The verifier for proofs of that type
+   */
+  register(type: string, verifier: IProofVerifier): this {
+    this.verifiers.set(type, verifier);
+    return this;
+  }
+
+  /**
+   * Remove the verifier for a proof type
+   * @returns True if a verifier was registered
+   */
+  unregister(type: string): boolean {
+    return this.verifiers.delete(type);
+  }
+
+  /**
+   * Check whether a verifier is registered for a proof type
+   */
+  has(type: string): boolean {
+    return this.verifiers.has(type);
+  }
+
+  /**
+   * List the proof types with a registered verifier
+   */
+  types(): string[] {
+    return [...this.verifiers.keys()];
+  }
+
+  /**
+   * Verify a proof with the verifier registered for its type
+   * @param proof The proof to verify
+   * @returns True if the proof is valid
+   * @throws {ProofVerificationError} If no verifier handles the proof type or verification fails
+   */
+  async verify(proof: Proof): Promise<boolean> {
+    const verifier = this.verifiers.get(proof.type);
+    if (!verifier) {
+      throw new ProofVerificationError(
+        `No verifier registered for proof type '${proof.type}'`,
+        proof,
+        { registeredTypes: this.types() },
+      );
+    }
+
+    try {
+      return await verifier.verifyProof(proof);
+    } catch (error) {
+      if (error instanceof ProofVerificationError) {
+        throw error;
+      }
+      throw new ProofVerificationError(`Failed to verify ${proof.type} proof`, proof, error);
+    }
+  }
+}
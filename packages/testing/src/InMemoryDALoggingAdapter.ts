@@ -0,0 +1,202 @@
+import {
+  DALogEntry,
+  DALogOptions,
+  DALogStatus,
+  DALogStorageError,
+  IDALoggingAdapter,
+  throwIfCancelled,
+} from '@layr-labs/agentkit';
+
+/**
+ * Status type of entries stored by the in-memory adapter
+ */
+export const IN_MEMORY_STATUS_TYPE = 'memory';
+
+/**
+ * Where a stored entry is in its lifecycle
+ */
+export type InMemoryLogState = 'PENDING' | 'CONFIRMED';
+
+/**
+ * Configuration for the in-memory logging adapter
+ */
+export interface InMemoryDALoggingAdapterConfig {
+  /**
+   * How long entries stay PENDING before they are CONFIRMED, in milliseconds (default: 0).
+   * Set to `'manual'` to keep entries PENDING until `confirm` or `confirmAll` is called.
+   */
+  confirmationDelay?: number | 'manual';
+  /** Clock used for timestamps and confirmation (default: `Date.now`) */
+  now?: () => number;
+}
+
+interface StoredLog {
+  entry: Omit<DALogEntry, 'status'>;
+  storedAt: number;
+  confirmedAt?: number;
+}
+
+/**
+ * Logging adapter that keeps entries in memory, for tests of code that logs to a DA layer.
+ * Entries move from PENDING to CONFIRMED on a configurable schedule, and failures can be
+ * injected to exercise error handling.
+ */
+export class InMemoryDALoggingAdapter implements IDALoggingAdapter {
+  private readonly logs = new Map<string, StoredLog>();
+  private readonly failures: Error[] = [];
+  private readonly now: () => number;
+  private isInitialized = false;
+  private nextId = 1;
+
+  constructor(private readonly config: InMemoryDALoggingAdapterConfig = {}) {
+    this.now = config.now ?? Date.now;
+  }
+
+  async initialize(): Promise<void> {
+    this.isInitialized = true;
+  }
+
+  async log(data: unknown, options?: DALogOptions): Promise<DALogEntry> {
+    if (!this.isInitialized) {
+      throw new Error('Adapter not initialized. Call initialize() first.');
+    }
+    throwIfCancelled(options?.signal);
+
+    const failure = this.failures.shift();
+    if (failure) {
+      throw failure;
+    }
+
+    // Like a real DA layer, keep what was serialized rather than a live reference to the caller's data
+    let content: unknown;
+    let storedOptions: DALogOptions | undefined;
+    try {
+      content = clone(data);
+      storedOptions = options ? clone({ ...options, signal: undefined }) : undefined;
+    } catch (error) {
+      throw new DALogStorageError('Log data is not JSON-serializable', error);
+    }
+
+    const timestamp = this.now();
+    const id = `memory-${this.nextId++}`;
+    const stored: StoredLog = {
+      entry: { id, content, timestamp, options: storedOptions },
+      storedAt: timestamp,
+    };
+    const delay = this.config.confirmationDelay ?? 0;
+    if (delay !== 'manual') {
+      stored.confirmedAt = timestamp + delay;
+    }
+
+    this.logs.set(id, stored);
+    return this.toEntry(stored);
+  }
+
+  async info(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'info', metadata });
+  }
+
+  async warn(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'warn', metadata });
+  }
+
+  async error(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'error', metadata });
+  }
+
+  async debug(message: string, metadata?: Record<string, unknown>): Promise<DALogEntry> {
+    return this.log(message, { level: 'debug', metadata });
+  }
+
+  async checkAvailability(status: DALogStatus): Promise<boolean> {
+    if (status.type !== IN_MEMORY_STATUS_TYPE || !status.data || typeof status.data !== 'object') {
+      return false;
+    }
+
+    const { id } = status.data as { id?: string };
+    const stored = id ? this.logs.get(id) : undefined;
+    return stored !== undefined && this.stateOf(stored) === 'CONFIRMED';
+  }
+
+  async getLogEntry(id: string): Promise<DALogEntry | null> {
+    const stored = this.logs.get(id);
+    return stored ? this.toEntry(stored) : null;
+  }
+
+  async shutdown(): Promise<void> {
+    this.isInitialized = false;
+  }
+
+  /**
+   * Make the next log fail with the given error
+   */
+  failNext(error: Error = new DALogStorageError('Injected log storage failure')): this {
+    this.failures.push(error);
+    return this;
+  }
+
+  /**
+   * Confirm a PENDING entry now
+   * @returns True if the entry exists
+   */
+  confirm(id: string): boolean {
+    const stored = this.logs.get(id);
+    if (!stored) {
+      return false;
+    }
+    if (this.stateOf(stored) === 'PENDING') {
+      stored.confirmedAt = this.now();
+    }
+    return true;
+  }
+
+  /**
+   * Confirm every PENDING entry now
+   */
+  confirmAll(): void {
+    for (const id of this.logs.keys()) {
+      this.confirm(id);
+    }
+  }
+
+  /**
+   * Every stored entry with its current status, in the order it was logged
+   */
+  getEntries(): DALogEntry[] {
+    return [...this.logs.values()].map(stored => this.toEntry(stored));
+  }
+
+  /**
+   * Remove every stored entry and pending injected failure
+   */
+  clear(): void {
+    this.logs.clear();
+    this.failures.length = 0;
+    this.nextId = 1;
+  }
+
+  private stateOf(stored: StoredLog): InMemoryLogState {
+    return stored.confirmedAt !== undefined && stored.confirmedAt <= this.now()
+      ? 'CONFIRMED'
+      : 'PENDING';
+  }
+
+  private toEntry(stored: StoredLog): DALogEntry {
+    const state = this.stateOf(stored);
+    return {
+      ...clone(stored.entry),
+      status: {
+        type: IN_MEMORY_STATUS_TYPE,
+        data: {
+          id: stored.entry.id,
+          status: state,
+        },
+        timestamp: state === 'CONFIRMED' ? (stored.confirmedAt as number) : stored.storedAt,
+      },
+    };
+  }
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
@@ -0,0 +1,205 @@
+import { createServer, IncomingMessage, OutgoingHttpHeaders, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import { HttpStatusError } from '@layr-labs/agentkit';
+
+/**
+ * A failure a local server returns instead of handling a request
+ */
+export interface LocalHttpFault<Operation extends string = string> {
+  /** The operation to fail, or '*' for any (default: '*') */
+  operation?: Operation | '*';
+  /** HTTP status to respond with (default: 503) */
+  status?: number;
+  /** Number of requests to fail (default: 1) */
+  times?: number;
+  /** Milliseconds to wait before responding, e.g. to trigger client timeouts (default: 0) */
+  delay?: number;
+}
+
+/**
+ * Where a local server listens
+ */
+export interface LocalHttpServerOptions {
+  /** Port to listen on (default: 0, a free port) */
+  port?: number;
+  /** Host to listen on (default: '127.0.0.1') */
+  host?: string;
+}
+
+/**
+ * An injected fault with its defaults filled in
+ */
+export type ActiveLocalHttpFault<Operation extends string, Fault extends LocalHttpFault<Operation>> =
+  Fault & Required<LocalHttpFault<Operation>>;
+
+/**
+ * Base for local stand-ins of remote HTTP APIs, for integration tests and offline demos.
+ * Listens on a free port by default, queues injected faults for subclasses to apply, and
+ * answers `HttpStatusError`s thrown while handling a request with their status.
+ */
+export abstract class LocalHttpServer<
+  Operation extends string,
+  Fault extends LocalHttpFault<Operation> = LocalHttpFault<Operation>,
+> {
+  private server?: Server;
+  private faults: Array<ActiveLocalHttpFault<Operation, Fault>> = [];
+
+  /**
+   * @param name Names the server in errors, e.g. 'Local EigenDA server'
+   */
+  protected constructor(
+    private readonly name: string,
+    private readonly listenOptions: LocalHttpServerOptions = {}
+  ) {}
+
+  /**
+   * Handle a request. Any `HttpStatusError` thrown is answered with its status, anything else with a 500.
+   */
+  protected abstract handle(request: IncomingMessage, response: ServerResponse): Promise<void>;
+
+  /**
+   * Prepare to serve, e.g. by loading stored state; runs before each start
+   */
+  protected async beforeStart(): Promise<void> {}
+
+  /**
+   * Clean up once the server has stopped listening, e.g. by finishing pending writes
+   */
+  protected async afterStop(): Promise<void> {}
+
+  /**
+   * Start listening
+   * @returns The server's base URL
+   */
+  async start(): Promise<string> {
+    if (this.server) {
+      return this.url;
+    }
+
+    await this.beforeStart();
+    const server = createServer((request, response) => {
+      this.handle(request, response).catch(error => {
+        if (error instanceof HttpStatusError) {
+          this.respond(response, error.status, { error: error.message });
+        } else {
+          this.respond(response, 500, { error: error instanceof Error ? error.message : String(error) });
+        }
+      });
+    });
+
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.listenOptions.port ?? 0, this.listenOptions.host ?? '127.0.0.1', () => resolve());
+    });
+    this.server = server;
+    return this.url;
+  }
+
+  /**
+   * Stop listening, closing open connections
+   */
+  async stop(): Promise<void> {
+    const server = this.server;
+    this.server = undefined;
+    if (server) {
+      server.closeAllConnections();
+      await new Promise<void>(resolve => server.close(() => resolve()));
+    }
+    await this.afterStop();
+  }
+
+  /**
+   * The base URL the server listens on
+   */
+  get url(): string {
+    if (!this.server) {
+      throw new Error(`${this.name} is not running`);
+    }
+    const { address, port } = this.server.address() as AddressInfo;
+    return `http://${address.includes(':') ? `[${address}]` : address}:${port}`;
+  }
+
+  /**
+   * Fail upcoming requests
+   */
+  injectFault(fault: Fault): void {
+    this.faults.push({
+      ...fault,
+      operation: fault.operation ?? '*',
+      status: fault.status ?? 503,
+      times: fault.times ?? 1,
+      delay: fault.delay ?? 0,
+    });
+  }
+
+  /**
+   * Remove every injected fault that has not fired yet
+   */
+  clearFaults(): void {
+    this.faults = [];
+  }
+
+  /**
+   * Take the next fault injected for an operation, once its delay has passed
+   */
+  protected async takeFault(operation: Operation): Promise<ActiveLocalHttpFault<Operation, Fault> | undefined> {
+    const index = this.faults.findIndex(fault => fault.operation === '*' || fault.operation === operation);
+    const fault = this.faults[index];
+    if (!fault) {
+      return undefined;
+    }
+    fault.times--;
+    if (fault.times <= 0) {
+      this.faults.splice(index, 1);
+    }
+    if (fault.delay > 0) {
+      await new Promise(resolve => setTimeout(resolve, fault.delay));
+    }
+    return fault;
+  }
+
+  protected respond(
+    response: ServerResponse,
+    status: number,
+    body: unknown,
+    headers: OutgoingHttpHeaders = {}
+  ): void {
+    if (response.headersSent) {
+      return;
+    }
+    response.writeHead(status, { ...headers, 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+  }
+}
+
+/**
+ * Split a request's path into its decoded segments
+ */
+export function requestPath(request: IncomingMessage): { pathname: string; segments: string[] } {
+  const { pathname } = new URL(request.url ?? '/', 'http://localhost');
+  return { pathname, segments: pathname.split('/').filter(Boolean).map(decodeURIComponent) };
+}
+
+/**
+ * Read a request body as a JSON object; an empty body reads as `{}`
+ * @throws {HttpStatusError} With status 400 if the body is not a JSON object
+ */
+export async function readJsonBody(request: IncomingMessage): Promise<Record<string, unknown>> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of request) {
+    chunks.push(chunk as Buffer);
+  }
+  const text = Buffer.concat(chunks).toString('utf8');
+  if (!text) {
+    return {};
+  }
+  try {
+    const body = JSON.parse(text);
+    if (!body || typeof body !== 'object' || Array.isArray(body)) {
+      throw new Error('not an object');
+    }
+    return body;
+  } catch {
+    throw new HttpStatusError('Request body must be a JSON object', 400);
+  }
+}
@@ -0,0 +1,197 @@
+import {
+  ChatMessage,
+  GenerateTextOptions,
+  IVerifiableInferenceAdapter,
+  Proof,
+  ProofGenerationError,
+  VerifiableInferenceResult,
+  VerifiableStreamChunk,
+  throwIfCancelled,
+} from '@layr-labs/agentkit';
+import {
+  DEFAULT_MOCK_SIGNING_KEY,
+  hashMockValue,
+  signMockProof,
+  verifyMockProof,
+} from './mockProof';
+
+/**
+ * A scripted reply: the content to return, an error to throw, or a function producing either
+ */
+export type MockResponse =
+  | string
+  | Error
+  | ((messages: ChatMessage[], options?: GenerateTextOptions) => string | Error);
+
+/**
+ * A generation request received by the mock adapter
+ */
+export interface MockInferenceCall {
+  /** The conversation, including any system prompt the adapter added */
+  messages: ChatMessage[];
+  /** The options the call was made with */
+  options?: GenerateTextOptions;
+}
+
+/**
+ * Configuration for the mock inference adapter
+ */
+export interface MockVerifiableInferenceAdapterConfig {
+  /** Replies returned in order, one per call */
+  responses?: MockResponse[];
+  /** Reply once the scripted ones run out (default: echoes the last user message) */
+  defaultResponse?: MockResponse;
+  /** Model the content is attributed to when a call names none (default: 'mock-model') */
+  model?: string;
+  /** Key that proofs are signed with (default: `DEFAULT_MOCK_SIGNING_KEY`) */
+  signingKey?: string;
+  /** Clock used for proof timestamps (default: `Date.now`) */
+  now?: () => number;
+}
+
+/**
+ * Deterministic stand-in for a verifiable inference adapter. Replies come from a script,
+ * and each is returned with a signed mock proof over the conversation and the content.
+ */
+export class MockVerifiableInferenceAdapter implements IVerifiableInferenceAdapter {
+  private responses: MockResponse[];
+  private readonly calls: MockInferenceCall[] = [];
+  private readonly signingKey: string;
+  private readonly now: () => number;
+  private sequence = 0;
+
+  constructor(private readonly config: MockVerifiableInferenceAdapterConfig = {}) {
+    this.responses = [...(config.responses ?? [])];
+    this.signingKey = config.signingKey ?? DEFAULT_MOCK_SIGNING_KEY;
+    this.now = config.now ?? Date.now;
+  }
+
+  async generateText(
+    prompt: string,
+    options?: GenerateTextOptions
+  ): Promise<VerifiableInferenceResult> {
+    return this.complete([{ role: 'user', content: prompt }], options);
+  }
+
+  async generateChat(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions
+  ): Promise<VerifiableInferenceResult> {
+    if (messages.length === 0) {
+      throw new ProofGenerationError('At least one message is required');
+    }
+    return this.complete(messages, options);
+  }
+
+  async *streamText(
+    prompt: string,
+    options?: GenerateTextOptions
+  ): AsyncGenerator<VerifiableStreamChunk> {
+    const result = this.respond([{ role: 'user', content: prompt }], options);
+    for (const text of splitIntoChunks(result.content)) {
+      // Yield between chunks so consumers see the stream arrive piece by piece
+      await Promise.resolve();
+      throwIfCancelled(options?.signal);
+      yield { type: 'text', text };
+    }
+    yield { type: 'result', result };
+  }
+
+  async verifyProof(proof: Proof): Promise<boolean> {
+    return verifyMockProof(proof, this.signingKey);
+  }
+
+  /**
+   * Add replies to the end of the script
+   */
+  enqueueResponses(...responses: MockResponse[]): this {
+    this.responses.push(...responses);
+    return this;
+  }
+
+  /**
+   * Make the next call fail with the given error
+   */
+  failNext(error: Error = new ProofGenerationError('Injected proof generation failure')): this {
+    this.responses.unshift(error);
+    return this;
+  }
+
+  /**
+   * The calls received so far, in order
+   */
+  getCalls(): MockInferenceCall[] {
+    return [...this.calls];
+  }
+
+  /**
+   * Forget recorded calls and restore the configured script
+   */
+  reset(): void {
+    this.responses = [...(this.config.responses ?? [])];
+    this.calls.length = 0;
+    this.sequence = 0;
+  }
+
+  private async complete(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions
+  ): Promise<VerifiableInferenceResult> {
+    if (options?.onProgress) {
+      const onProgress = options.onProgress;
+      const result = this.respond(messages, options);
+      splitIntoChunks(result.content).forEach(chunk => onProgress(chunk));
+      return result;
+    }
+    return this.respond(messages, options);
+  }
+
+  /**
+   * Take the next scripted reply for a conversation and sign a proof for it
+   */
+  private respond(
+    messages: ChatMessage[],
+    options?: GenerateTextOptions
+  ): VerifiableInferenceResult {
+    throwIfCancelled(options?.signal);
+
+    // Match the real adapters, which add the system prompt unless the conversation has one
+    const conversation: ChatMessage[] =
+      options?.systemPrompt && !messages.some(message => message.role === 'system')
+        ? [{ role: 'system', content: options.systemPrompt }, ...messages]
+        : messages;
+    this.calls.push({ messages: conversation, options });
+
+    const next = this.responses.shift() ?? this.config.defaultResponse ?? echoLastUserMessage;
+    const content = typeof next === 'function' ? next(conversation, options) : next;
+    if (content instanceof Error) {
+      throw content;
+    }
+
+    this.sequence++;
+    const proof = signMockProof(
+      {
+        inputHash: hashMockValue(conversation),
+        contentHash: hashMockValue(content),
+        model: options?.model ?? this.config.model ?? 'mock-model',
+        sequence: this.sequence,
+      },
+      this.signingKey,
+      this.now()
+    );
+
+    return { content, proof };
+  }
+}
+
+function echoLastUserMessage(messages: ChatMessage[]): string {
+  const lastUserMessage = [...messages].reverse().find(message => message.role === 'user');
+  return `Mock response to: ${lastUserMessage?.content ?? ''}`;
+}
+
+/**
+ * Split content into word-sized chunks that concatenate back to the original
+ */
+function splitIntoChunks(content: string): string[] {
+  return content.match(/\s*\S+\s*/g) ?? (content ? [content] : []);
+}
@@ -0,0 +1,218 @@
+import { IncomingMessage, request as httpRequest, ServerResponse } from 'http';
+import { HttpStatusError } from '@layr-labs/agentkit';
+import { LocalHttpServer, LocalHttpServerOptions, readJsonBody, requestPath } from '../LocalHttpServer';
+
+type EchoOperation = 'echo' | 'fail';
+
+/**
+ * Answers `POST /echo/...` with the path and body it read, and `/fail` with an error
+ */
+class EchoServer extends LocalHttpServer<EchoOperation> {
+  readonly hooks: string[] = [];
+
+  constructor(options?: LocalHttpServerOptions) {
+    super('Echo server', options);
+  }
+
+  protected async beforeStart(): Promise<void> {
+    this.hooks.push('beforeStart');
+  }
+
+  protected async afterStop(): Promise<void> {
+    this.hooks.push('afterStop');
+  }
+
+  protected async handle(request: IncomingMessage, response: ServerResponse): Promise<void> {
+    const { pathname, segments } = requestPath(request);
+    const operation = segments[0] === 'fail' ? 'fail' : 'echo';
+    const fault = await this.takeFault(operation);
+    if (fault) {
+      this.respond(response, fault.status, { error: 'Injected fault' });
+      return;
+    }
+
+    if (operation === 'fail') {
+      if (segments[1] === 'status') {
+        throw new HttpStatusError('Not found', 404);
+      }
+      throw new Error('Handler failed');
+    }
+    this.respond(response, 200, { pathname, segments, body: await readJsonBody(request) }, { 'x-echo': 'yes' });
+  }
+}
+
+describe('LocalHttpServer', () => {
+  let server: EchoServer;
+
+  beforeEach(() => {
+    server = new EchoServer();
+  });
+
+  afterEach(async () => {
+    await server.stop();
+  });
+
+  describe('start and stop', () => {
+    it('listens on a free local port, and returns the same URL when started again', async () => {
+      const url = await server.start();
+
+      expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      expect(server.url).toBe(url);
+      await expect(server.start()).resolves.toBe(url);
+      expect(server.hooks).toEqual(['beforeStart']);
+
+      const response = await fetch(`${url}/echo`, { method: 'POST' });
+      expect(response.status).toBe(200);
+      expect(response.headers.get('content-type')).toBe('application/json');
+      expect(response.headers.get('x-echo')).toBe('yes');
+    });
+
+    it('reports that it is not running before start and after stop', async () => {
+      expect(() => server.url).toThrow('Echo server is not running');
+
+      const url = await server.start();
+      await server.stop();
+
+      expect(server.hooks).toEqual(['beforeStart', 'afterStop']);
+      expect(() => server.url).toThrow('Echo server is not running');
+      await expect(fetch(`${url}/echo`)).rejects.toThrow();
+    });
+
+    it('closes open keep-alive connections when stopped', async () => {
+      const url = await server.start();
+      await fetch(`${url}/echo`, { method: 'POST', headers: { connection: 'keep-alive' } });
+
+      await expect(server.stop()).resolves.toBeUndefined();
+    });
+
+    it('can be restarted after stopping', async () => {
+      await server.start();
+      await server.stop();
+      const url = await server.start();
+
+      expect(server.hooks).toEqual(['beforeStart', 'afterStop', 'beforeStart']);
+      await expect(fetch(`${url}/echo`, { method: 'POST' })).resolves.toHaveProperty('status', 200);
+    });
+
+    it('rejects when the port is taken', async () => {
+      const url = await server.start();
+      const other = new EchoServer({ port: Number(new URL(url).port) });
+
+      await expect(other.start()).rejects.toThrow('EADDRINUSE');
+      expect(() => other.url).toThrow('Echo server is not running');
+    });
+  });
+
+  describe('errors and faults', () => {
+    let url: string;
+
+    beforeEach(async () => {
+      url = await server.start();
+    });
+
+    it('answers an HttpStatusError with its status, and other errors with a 500', async () => {
+      const notFound = await fetch(`${url}/fail/status`);
+      expect(notFound.status).toBe(404);
+      await expect(notFound.json()).resolves.toEqual({ error: 'Not found' });
+
+      const failed = await fetch(`${url}/fail`);
+      expect(failed.status).toBe(500);
+      await expect(failed.json()).resolves.toEqual({ error: 'Handler failed' });
+    });
+
+    it('fails requests for the faulted operation as many times as asked, with a 503 by default', async () => {
+      server.injectFault({ operation: 'echo', times: 2 });
+      server.injectFault({ operation: 'fail', status: 429 });
+
+      const statuses = [];
+      for (const path of ['echo', 'echo', 'fail', 'echo', 'fail']) {
+        statuses.push((await fetch(`${url}/${path}`, { method: 'POST' })).status);
+      }
+
+      expect(statuses).toEqual([503, 503, 429, 200, 500]);
+    });
+
+    it('applies a fault for any operation to every request', async () => {
+      server.injectFault({ status: 502, times: 2 });
+
+      expect((await fetch(`${url}/fail`)).status).toBe(502);
+      expect((await fetch(`${url}/echo`, { method: 'POST' })).status).toBe(502);
+      expect((await fetch(`${url}/echo`, { method: 'POST' })).status).toBe(200);
+    });
+
+    it('delays a faulted response', async () => {
+      server.injectFault({ delay: 100 });
+
+      const started = Date.now();
+      const response = await fetch(`${url}/echo`, { method: 'POST' });
+
+      expect(response.status).toBe(503);
+      expect(Date.now() - started).toBeGreaterThanOrEqual(90);
+    });
+
+    it('drops faults that have not fired when cleared', async () => {
+      server.injectFault({ times: 5 });
+      server.clearFaults();
+
+      expect((await fetch(`${url}/echo`, { method: 'POST' })).status).toBe(200);
+    });
+  });
+
+  describe('request parsing', () => {
+    let url: string;
+
+    beforeEach(async () => {
+      url = await server.start();
+    });
+
+    function post(path: string, body?: string): Promise<Response> {
+      return fetch(`${url}${path}`, { method: 'POST', body });
+    }
+
+    it('splits the path into decoded segments, without the query string', async () => {
+      const response = await post('/echo/log%2F1/a%20b/?wait=true');
+
+      await expect(response.json()).resolves.toMatchObject({
+        pathname: '/echo/log%2F1/a%20b/',
+        segments: ['echo', 'log/1', 'a b'],
+      });
+    });
+
+    it('reads a JSON object body, and an empty body as an empty object', async () => {
+      await expect((await post('/echo', '{"model":"gpt-4o","messages":[]}')).json()).resolves.toMatchObject({
+        body: { model: 'gpt-4o', messages: [] },
+      });
+      await expect((await post('/echo')).json()).resolves.toMatchObject({ body: {} });
+    });
+
+    it('reads a body sent in several chunks, with characters split between them', async () => {
+      const bytes = Buffer.from(JSON.stringify({ text: 'héllo wörld' }));
+      const split = bytes.indexOf(Buffer.from('é')) + 1;
+
+      const body = await new Promise<string>((resolve, reject) => {
+        const request = httpRequest(`${url}/echo`, { method: 'POST' }, response => {
+          const chunks: Buffer[] = [];
+          response.on('data', chunk => chunks.push(chunk));
+          response.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+        });
+        request.on('error', reject);
+        request.write(bytes.subarray(0, split));
+        setTimeout(() => request.end(bytes.subarray(split)), 20);
+      });
+
+      expect(JSON.parse(body)).toMatchObject({ body: { text: 'héllo wörld' } });
+    });
+
+    it.each([
+      ['invalid JSON', '{"model":'],
+      ['an array', '[1, 2]'],
+      ['a string', '"text"'],
+      ['null', 'null'],
+    ])('answers %s with a 400', async (_name, body) => {
+      const response = await post('/echo', body);
+
+      expect(response.status).toBe(400);
+      await expect(response.json()).resolves.toEqual({ error: 'Request body must be a JSON object' });
+    });
+  });
+});
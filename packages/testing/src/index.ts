@@ -0,0 +1,4 @@
+export * from './InMemoryDALoggingAdapter';
+export * from './LocalHttpServer';
+export * from './MockVerifiableInferenceAdapter';
+export * from './mockProof';
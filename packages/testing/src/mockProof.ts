@@ -0,0 +1,97 @@
+import { createHash, createHmac, timingSafeEqual } from 'crypto';
+import { IProofVerifier, Proof, canonicalJson } from '@layr-labs/agentkit';
+
+/**
+ * Proof type produced by `MockVerifiableInferenceAdapter`
+ */
+export const MOCK_PROOF_TYPE = 'mock';
+
+/**
+ * Key used to sign mock proofs when none is configured
+ */
+export const DEFAULT_MOCK_SIGNING_KEY = 'agentkit-mock-signing-key';
+
+/**
+ * The statement a mock proof signs: hashes of the input and the generated content
+ */
+export interface MockProofPayload {
+  /** SHA-256 of the canonical JSON of the input messages */
+  inputHash: string;
+  /** SHA-256 of the generated content */
+  contentHash: string;
+  /** Model the content was attributed to */
+  model: string;
+  /** Position of the generation among those made by the adapter, starting at 1 */
+  sequence: number;
+}
+
+/**
+ * The `data` of a mock proof
+ */
+export interface MockProofData {
+  payload: MockProofPayload;
+  /** Hex-encoded HMAC-SHA256 of the payload's canonical JSON */
+  signature: string;
+}
+
+/**
+ * Hash a value the way mock proofs commit to it
+ */
+export function hashMockValue(value: unknown): string {
+  const serialized = typeof value === 'string' ? value : canonicalJson(value);
+  return createHash('sha256').update(serialized).digest('hex');
+}
+
+/**
+ * Sign a payload into a mock proof
+ */
+export function signMockProof(
+  payload: MockProofPayload,
+  signingKey: string = DEFAULT_MOCK_SIGNING_KEY,
+  timestamp: number = Date.now()
+): Proof {
+  const data: MockProofData = { payload, signature: sign(payload, signingKey) };
+  return {
+    type: MOCK_PROOF_TYPE,
+    data,
+    timestamp,
+  };
+}
+
+/**
+ * Check a mock proof's signature. Returns false for proofs of any other type,
+ * malformed proofs and proofs signed with a different key.
+ */
+export function verifyMockProof(proof: Proof, signingKey: string = DEFAULT_MOCK_SIGNING_KEY): boolean {
+  if (proof.type !== MOCK_PROOF_TYPE || !proof.data || typeof proof.data !== 'object') {
+    return false;
+  }
+
+  const { payload, signature } = proof.data as Partial<MockProofData>;
+  if (!payload || typeof signature !== 'string') {
+    return false;
+  }
+
+  try {
+    const expected = Buffer.from(sign(payload, signingKey), 'hex');
+    const actual = Buffer.from(signature, 'hex');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Verifies mock proofs, for use with a `ProofVerifierRegistry`
+ */
+export class MockProofVerifier implements IProofVerifier {
+  constructor(private readonly signingKey: string = DEFAULT_MOCK_SIGNING_KEY) {}
+
+  async verifyProof(proof: Proof): Promise<boolean> {
+    return verifyMockProof(proof, this.signingKey);
+  }
+}
+
+function sign(payload: MockProofPayload, signingKey: string): string {
+  return createHmac('sha256', signingKey).update(canonicalJson(payload)).digest('hex');
+}